@@ -30,6 +30,8 @@ describe("App", () => {
   beforeEach(() => {
     mockFetch.mockClear();
     mockFetch.mockReset();
+    // The router reads the page URL; start every test from the root
+    window.history.replaceState(null, "", "/");
   });
 
   describe("Initial State", () => {
@@ -126,9 +128,7 @@ describe("App", () => {
       });
 
       expect(screen.getByText("testuser2")).toBeInTheDocument();
-      expect(
-        screen.getByText("Showing users for your search")
-      ).toBeInTheDocument();
+      expect(screen.getByText("Showing 1–2 of 2 users")).toBeInTheDocument();
     });
 
     it("handles no users found scenario", async () => {
@@ -325,9 +325,7 @@ describe("App", () => {
       });
 
       // Verify search interface is shown
-      expect(
-        screen.getByText("Showing users for your search")
-      ).toBeInTheDocument();
+      expect(screen.getByText("Showing 1–1 of 1 user")).toBeInTheDocument();
 
       // Perform another search - this should clear the previous search
       mockFetch.mockResolvedValueOnce({
@@ -1,14 +1,15 @@
-import React, { useState } from "react";
+import React from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { SearchForm } from "./components/SearchForm";
-import { UserList } from "./components/UserList";
-import { RepositoryList } from "./components/RepositoryList";
-import {
-  useSearchUsers,
-  useUserRepositories,
-  useUser,
-} from "./hooks/useGitHubQueries";
-import { GitHubUser } from "./types/github";
+import { BrowserRouter, Navigate, Route, Routes } from "react-router-dom";
+import { SearchPage } from "./components/SearchPage";
+import { RepositorySearchPage } from "./components/RepositorySearchPage";
+import { UserPage } from "./components/UserPage";
+import { RepositoryPage } from "./components/RepositoryPage";
+import { ComparePage } from "./components/ComparePage";
+import { NetworkPage } from "./components/NetworkPage";
+import { TokenSettings } from "./components/TokenSettings";
+import { HostSettings } from "./components/HostSettings";
+import { RateLimitMeter } from "./components/RateLimitMeter";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -20,60 +21,6 @@ const queryClient = new QueryClient({
 });
 
 function GitHubExplorer() {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedUser, setSelectedUser] = useState<GitHubUser | null>(null);
-
-  // Search users query
-  const {
-    data: users = [],
-    isLoading: isSearchingUsers,
-    error: searchError,
-    isFetched,
-  } = useSearchUsers(searchQuery);
-
-  // Get full user details when a user is selected
-  const { data: fullUserData } = useUser(
-    selectedUser?.login || "",
-    !!selectedUser
-  );
-
-  // Get repositories for selected user
-  const {
-    data: repositories = [],
-    isLoading: isLoadingRepositories,
-    error: repositoriesError,
-  } = useUserRepositories(selectedUser?.login || "", !!selectedUser);
-
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    setSelectedUser(null); // Clear selection when searching
-  };
-
-  const handleUserSelect = (user: GitHubUser) => {
-    setSelectedUser(user);
-  };
-
-  const handleBackToUsers = () => {
-    setSelectedUser(null);
-  };
-
-  const displayUser = fullUserData || selectedUser;
-
-  // Determine if we should show "no users found" message
-  const shouldShowNoUsersMessage =
-    !isSearchingUsers &&
-    isFetched &&
-    searchQuery.trim().length > 0 &&
-    users.length === 0 &&
-    !searchError;
-
-  // Prepare error message for UserList
-  const userListError =
-    searchError?.message ||
-    (shouldShowNoUsersMessage
-      ? `No users found for "${searchQuery}". Try a different username or check the spelling.`
-      : null);
-
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8">
@@ -84,34 +31,46 @@ function GitHubExplorer() {
           <p className="text-muted-foreground">
             Search for GitHub users and explore their repositories
           </p>
+          <div className="mt-4 space-y-2">
+            <HostSettings />
+            <TokenSettings />
+            <RateLimitMeter />
+          </div>
         </div>
 
-        {!selectedUser ? (
-          <div className="space-y-6">
-            <SearchForm
-              onSearch={handleSearch}
-              isLoading={isSearchingUsers}
-              placeholder="Enter username to search"
-            />
-
-            <UserList
-              users={users}
-              onUserSelect={handleUserSelect}
-              isLoading={isSearchingUsers}
-              error={userListError}
-            />
-          </div>
-        ) : (
-          displayUser && (
-            <RepositoryList
-              user={displayUser}
-              repositories={repositories}
-              onBackToUsers={handleBackToUsers}
-              isLoading={isLoadingRepositories}
-              error={repositoriesError?.message || null}
-            />
-          )
-        )}
+        <Routes>
+          <Route path="/search" element={<SearchPage />} />
+          <Route
+            path="/search/repositories"
+            element={<RepositorySearchPage />}
+          />
+          <Route path="/users/:login" element={<UserPage />} />
+          <Route path="/users/:login/repos" element={<UserPage />} />
+          <Route
+            path="/users/:login/starred"
+            element={<UserPage tab="starred" />}
+          />
+          <Route
+            path="/users/:login/gists"
+            element={<UserPage tab="gists" />}
+          />
+          <Route
+            path="/users/:login/followers"
+            element={<NetworkPage direction="followers" />}
+          />
+          <Route
+            path="/users/:login/following"
+            element={<NetworkPage direction="following" />}
+          />
+          <Route path="/orgs/:login" element={<UserPage isOrganization />} />
+          <Route
+            path="/orgs/:login/repos"
+            element={<UserPage isOrganization />}
+          />
+          <Route path="/repos/:owner/:repo" element={<RepositoryPage />} />
+          <Route path="/compare" element={<ComparePage />} />
+          <Route path="*" element={<Navigate to="/search" replace />} />
+        </Routes>
       </div>
     </div>
   );
@@ -120,7 +79,11 @@ function GitHubExplorer() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <GitHubExplorer />
+      <BrowserRouter
+        future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
+      >
+        <GitHubExplorer />
+      </BrowserRouter>
     </QueryClientProvider>
   );
 }
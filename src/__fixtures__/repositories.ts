@@ -0,0 +1,28 @@
+import { GitHubRepository } from "../types/github";
+
+const LANGUAGES = ["TypeScript", "JavaScript", "Go", "Rust", "Python", null];
+
+// Deterministic repositories for tests that need large accounts. Ordered by
+// updated_at descending to match the API's sort=updated&direction=desc.
+export function createRepositoryFixtures(
+  count: number,
+  owner: string = "testuser"
+): GitHubRepository[] {
+  const newest = Date.UTC(2024, 0, 1);
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    name: `repo-${i + 1}`,
+    full_name: `${owner}/repo-${i + 1}`,
+    description: `Fixture repository ${i + 1}`,
+    html_url: `https://github.com/${owner}/repo-${i + 1}`,
+    stargazers_count: (i * 7) % 500,
+    watchers_count: (i * 7) % 500,
+    forks_count: (i * 3) % 100,
+    language: LANGUAGES[i % LANGUAGES.length],
+    updated_at: new Date(newest - i * 60 * 60 * 1000).toISOString(),
+    topics: i % 4 === 0 ? ["fixture", `topic-${i % 10}`] : [],
+    private: false,
+    fork: i % 5 === 0,
+  }));
+}
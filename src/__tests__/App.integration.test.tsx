@@ -1,5 +1,12 @@
 import React from "react";
-import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import {
+  act,
+  render,
+  screen,
+  waitFor,
+  within,
+  fireEvent,
+} from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import App from "../App";
@@ -59,6 +66,35 @@ const mockUserResponse = {
   following: 50,
 };
 
+const mockFan = {
+  id: 3,
+  login: "fan",
+  avatar_url: "https://avatar.com/fan",
+  html_url: "https://github.com/fan",
+  type: "User",
+};
+
+const mockGist = {
+  id: "abc123",
+  html_url: "https://gist.github.com/testuser/abc123",
+  description: "Greeting script",
+  public: true,
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-02-01T00:00:00Z",
+  comments: 0,
+  files: {
+    "hello.py": {
+      filename: "hello.py",
+      type: "application/x-python",
+      language: "Python",
+      raw_url:
+        "https://gist.githubusercontent.com/testuser/abc123/raw/hello.py",
+      size: 28,
+      content: 'def hello():\n    return "hi"\n',
+    },
+  },
+};
+
 const mockRepositoriesResponse = [
   {
     id: 1,
@@ -96,6 +132,8 @@ describe("App Integration Tests", () => {
   beforeEach(() => {
     mockFetch.mockClear();
     mockFetch.mockReset();
+    // The router reads the page URL; start every test from the root
+    window.history.replaceState(null, "", "/");
   });
 
   it("completes full user flow: search -> select user -> view repositories -> back to search", async () => {
@@ -132,9 +170,7 @@ describe("App Integration Tests", () => {
       expect(screen.getByText("testuser")).toBeInTheDocument();
     });
 
-    expect(
-      screen.getByText("Showing users for your search")
-    ).toBeInTheDocument();
+    expect(screen.getByText("Showing 1–1 of 2 users")).toBeInTheDocument();
 
     // Clear previous mocks and reset
     mockFetch.mockClear();
@@ -210,8 +246,16 @@ describe("App Integration Tests", () => {
     expect(screen.getByText("Another repository")).toBeInTheDocument();
 
     // Check repository details
-    expect(screen.getByText("JavaScript")).toBeInTheDocument();
-    expect(screen.getByText("TypeScript")).toBeInTheDocument();
+    expect(
+      within(
+        screen.getByRole("button", { name: "Open test-repo repository" })
+      ).getByText("JavaScript")
+    ).toBeInTheDocument();
+    expect(
+      within(
+        screen.getByRole("button", { name: "Open another-repo repository" })
+      ).getByText("TypeScript")
+    ).toBeInTheDocument();
     expect(screen.getByText("10")).toBeInTheDocument(); // Stars for first repo
     expect(screen.getByText("25")).toBeInTheDocument(); // Stars for second repo
 
@@ -338,4 +382,519 @@ describe("App Integration Tests", () => {
       expect.any(Object)
     );
   });
+
+  describe("routing", () => {
+    const mockRepositoryDetails = {
+      ...mockRepositoriesResponse[0],
+      subscribers_count: 3,
+      open_issues_count: 2,
+      default_branch: "main",
+      homepage: null,
+      license: null,
+      created_at: "2022-01-01T00:00:00Z",
+      pushed_at: "2023-01-01T00:00:00Z",
+      owner: mockSearchResponse.items[0],
+    };
+
+    const mockOrganization = {
+      id: 42,
+      login: "testorg",
+      avatar_url: "https://avatar.com/testorg",
+      html_url: "https://github.com/testorg",
+      type: "Organization",
+      name: "Test Org",
+      description: "Tools for testing",
+      blog: "testorg.dev",
+      location: "Lisbon",
+      email: null,
+      is_verified: true,
+      public_repos: 2,
+      followers: 0,
+      created_at: "2015-01-01T00:00:00Z",
+    };
+
+    const mockOtherUserResponse = {
+      ...mockUserResponse,
+      id: 2,
+      login: "otheruser",
+      name: "Other User",
+      public_repos: 0,
+      followers: 300,
+    };
+
+    // Answers every endpoint the app calls for "testuser", "otheruser" and
+    // "testorg"
+    const mockGitHubApi = () => {
+      mockFetch.mockImplementation(async (url) => {
+        const { pathname } = new URL(url.toString());
+        const respond = (body: unknown) =>
+          ({
+            ok: true,
+            status: 200,
+            json: async () => body,
+            text: async () => body,
+          } as Response);
+
+        if (pathname === "/search/users") return respond(mockSearchResponse);
+        if (pathname === "/search/repositories")
+          return respond({
+            total_count: 1,
+            incomplete_results: false,
+            items: [mockRepositoriesResponse[0]],
+          });
+        if (pathname === "/users/testuser") return respond(mockUserResponse);
+        if (pathname === "/users/otheruser")
+          return respond(mockOtherUserResponse);
+        if (pathname.startsWith("/users/otheruser/")) return respond([]);
+        if (pathname === "/users/testorg")
+          return respond({ ...mockOrganization, followers: 0, following: 0 });
+        if (pathname === "/orgs/testorg") return respond(mockOrganization);
+        if (pathname === "/orgs/testorg/repos")
+          return respond(
+            mockRepositoriesResponse.map((repo) => ({
+              ...repo,
+              fork: repo.name === "another-repo",
+            }))
+          );
+        if (pathname === "/orgs/testorg/public_members")
+          return respond([mockSearchResponse.items[0]]);
+        if (pathname === "/users/testuser/repos")
+          return respond(mockRepositoriesResponse);
+        if (pathname === "/users/testuser/events/public") return respond([]);
+        if (pathname === "/users/testuser/followers")
+          return respond([mockOtherUserResponse, mockFan]);
+        if (pathname === "/users/testuser/following")
+          return respond([mockOtherUserResponse]);
+        if (pathname === "/users/testuser/gists")
+          return respond([
+            {
+              ...mockGist,
+              files: {
+                "hello.py": {
+                  ...mockGist.files["hello.py"],
+                  content: undefined,
+                },
+              },
+            },
+          ]);
+        if (pathname === "/gists/abc123") return respond(mockGist);
+        if (pathname === "/users/testuser/starred")
+          return respond([
+            {
+              ...mockRepositoriesResponse[0],
+              id: 101,
+              name: "hello",
+              full_name: "octo/hello",
+              language: "Go",
+              topics: ["cli"],
+            },
+            {
+              ...mockRepositoriesResponse[1],
+              id: 102,
+              name: "world",
+              full_name: "octo/world",
+              language: "Go",
+              topics: ["web"],
+            },
+          ]);
+        if (pathname === "/repos/testuser/test-repo")
+          return respond(mockRepositoryDetails);
+        if (pathname === "/repos/testuser/test-repo/readme")
+          return respond("<h1>Test Repo</h1>");
+        if (pathname === "/repos/testuser/test-repo/languages")
+          return respond({ JavaScript: 100 });
+        if (pathname.startsWith("/repos/testuser/test-repo/"))
+          return respond([]);
+        throw new Error(`Unmocked call to: ${url}`);
+      });
+    };
+
+    const renderAt = (url: string) => {
+      window.history.replaceState(null, "", url);
+      return render(
+        <TestWrapper>
+          <App />
+        </TestWrapper>
+      );
+    };
+
+    beforeEach(() => {
+      mockGitHubApi();
+    });
+
+    it("redirects the root to the search page", async () => {
+      renderAt("/");
+
+      await waitFor(() => {
+        expect(window.location.pathname).toBe("/search");
+      });
+      expect(screen.getByRole("textbox")).toHaveValue("");
+    });
+
+    it("runs the search from /search?q=", async () => {
+      renderAt("/search?q=testuser");
+
+      expect(
+        await screen.findByRole("button", { name: /testuser/i })
+      ).toBeInTheDocument();
+      expect(screen.getByRole("textbox")).toHaveValue("testuser");
+    });
+
+    it("opens a user's page directly from /users/:login", async () => {
+      renderAt("/users/testuser");
+
+      expect(await screen.findByText("test-repo")).toBeInTheDocument();
+      expect(screen.getByText("Test User")).toBeInTheDocument();
+      expect(screen.getByText("another-repo")).toBeInTheDocument();
+    });
+
+    it("applies repository filters from /users/:login/repos", async () => {
+      renderAt("/users/testuser/repos?lang=TypeScript");
+
+      expect(await screen.findByText("another-repo")).toBeInTheDocument();
+      expect(screen.queryByText("test-repo")).not.toBeInTheDocument();
+      expect(screen.getByLabelText("Filter by language")).toHaveValue(
+        "TypeScript"
+      );
+    });
+
+    it("filters repositories from the language breakdown", async () => {
+      const user = userEvent.setup();
+      renderAt("/users/testuser");
+
+      const languages = await screen.findByRole("list", { name: "Languages" });
+      await user.click(
+        within(languages).getByRole("button", { name: /^TypeScript/ })
+      );
+
+      expect(window.location.search).toBe("?lang=TypeScript");
+      expect(screen.getByText("another-repo")).toBeInTheDocument();
+      expect(screen.queryByText("test-repo")).not.toBeInTheDocument();
+    });
+
+    it("switches to the starred repositories tab", async () => {
+      const user = userEvent.setup();
+      renderAt("/users/testuser");
+
+      await screen.findByText("test-repo");
+      await user.click(screen.getByRole("link", { name: "Starred" }));
+
+      expect(window.location.pathname).toBe("/users/testuser/starred");
+      expect(await screen.findByText("octo/hello")).toBeInTheDocument();
+      expect(screen.getByText("octo/world")).toBeInTheDocument();
+      expect(screen.queryByText("test-repo")).not.toBeInTheDocument();
+      expect(screen.getByRole("link", { name: "Starred" })).toHaveAttribute(
+        "aria-current",
+        "page"
+      );
+
+      const languages = screen.getByRole("list", {
+        name: "Starred languages",
+      });
+      expect(within(languages).getByRole("button")).toHaveTextContent("Go2");
+
+      const topics = screen.getByRole("list", { name: "Starred topics" });
+      await user.click(within(topics).getByRole("button", { name: /^web/ }));
+
+      expect(window.location.search).toBe("?topic=web");
+      expect(screen.getByText("octo/world")).toBeInTheDocument();
+      expect(screen.queryByText("octo/hello")).not.toBeInTheDocument();
+    });
+
+    it("lists followers with mutual follows and a network graph", async () => {
+      const user = userEvent.setup();
+      renderAt("/users/testuser");
+
+      await user.click(
+        await screen.findByRole("link", { name: "100 followers" })
+      );
+
+      expect(window.location.pathname).toBe("/users/testuser/followers");
+      const followers = await screen.findByRole("list", { name: "Followers" });
+      const [other, fan] = within(followers).getAllByRole("listitem");
+      expect(other).toHaveTextContent("otheruserMutual");
+      expect(fan).toHaveTextContent(/^fan$/);
+      expect(
+        screen.getByText(/Showing the first 2 of 100/)
+      ).toBeInTheDocument();
+
+      await user.click(screen.getByRole("link", { name: /^Following/ }));
+      expect(window.location.pathname).toBe("/users/testuser/following");
+      expect(
+        within(screen.getByRole("list", { name: "Following" })).getAllByRole(
+          "listitem"
+        )
+      ).toHaveLength(1);
+
+      await user.click(screen.getByRole("link", { name: "Open otheruser" }));
+      expect(window.location.pathname).toBe("/users/otheruser");
+    });
+
+    it("shows a user's gists with highlighted file contents", async () => {
+      const user = userEvent.setup();
+      renderAt("/users/testuser");
+
+      await screen.findByText("test-repo");
+      await user.click(screen.getByRole("link", { name: "Gists" }));
+
+      expect(window.location.pathname).toBe("/users/testuser/gists");
+      expect(await screen.findByText("Greeting script")).toBeInTheDocument();
+      expect(screen.getByText("Python")).toBeInTheDocument();
+      expect(screen.getByText("Created Jan 1, 2024")).toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "hello.py" }));
+
+      const contents = await screen.findByLabelText("hello.py contents");
+      expect(contents).toHaveTextContent('def hello(): return "hi"');
+      expect(within(contents).getByText("def")).toHaveClass("text-purple-700");
+      expect(within(contents).getByText('"hi"')).toHaveClass("text-green-700");
+    });
+
+    it("opens a repository directly from /repos/:owner/:repo", async () => {
+      renderAt("/repos/testuser/test-repo");
+
+      expect(await screen.findByText("testuser/test-repo")).toBeInTheDocument();
+      expect(
+        await screen.findByRole("heading", { name: "Test Repo" })
+      ).toBeInTheDocument();
+    });
+
+    it("goes back to the owner's repositories from a shared repository link", async () => {
+      const user = userEvent.setup();
+      renderAt("/repos/testuser/test-repo");
+
+      await user.click(
+        await screen.findByRole("button", { name: /back to repositories/i })
+      );
+
+      expect(await screen.findByText("another-repo")).toBeInTheDocument();
+      expect(window.location.pathname).toBe("/users/testuser/repos");
+    });
+
+    it("pages through search results from the URL", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockImplementation(
+        async () =>
+          ({
+            ok: true,
+            json: async () => ({ ...mockSearchResponse, total_count: 25 }),
+          } as Response)
+      );
+      renderAt("/search?q=testuser&per_page=10&page=2");
+
+      expect(await screen.findByText("Page 2 of 3")).toBeInTheDocument();
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/search/users?q=testuser&per_page=10&page=2",
+        expect.any(Object)
+      );
+
+      await user.click(screen.getByRole("button", { name: "Next page" }));
+
+      expect(await screen.findByText("Page 3 of 3")).toBeInTheDocument();
+      expect(window.location.search).toBe("?q=testuser&per_page=10&page=3");
+    });
+
+    it("searches repositories and opens the owner's filtered repositories", async () => {
+      const user = userEvent.setup();
+      renderAt(
+        "/search/repositories?q=test%20stars%3A%3E5&sort=stars&order=desc"
+      );
+
+      expect(
+        await screen.findByText("Showing 1–1 of 1 repository")
+      ).toBeInTheDocument();
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/search/repositories?q=test%20stars%3A%3E5&per_page=5&sort=stars&order=desc",
+        expect.any(Object)
+      );
+
+      await user.click(
+        screen.getByRole("button", {
+          name: "Open testuser/test-repo repository",
+        })
+      );
+
+      expect(window.location.pathname).toBe("/users/testuser/repos");
+      expect(window.location.search).toBe("?q=test-repo");
+      expect(await screen.findByText("test-repo")).toBeInTheDocument();
+      expect(screen.queryByText("another-repo")).not.toBeInTheDocument();
+    });
+
+    it("switches between user and repository search", async () => {
+      const user = userEvent.setup();
+      renderAt("/search?q=testuser");
+
+      await user.click(screen.getByRole("link", { name: "Repositories" }));
+
+      expect(window.location.pathname).toBe("/search/repositories");
+      expect(window.location.search).toBe("?q=testuser");
+      expect(
+        await screen.findByRole("button", {
+          name: "Open testuser/test-repo repository",
+        })
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole("link", { name: "Repositories" })
+      ).toHaveAttribute("aria-current", "page");
+    });
+
+    it("shows an organization's profile, members and repositories", async () => {
+      renderAt("/orgs/testorg/repos?type=forks");
+
+      expect(await screen.findByText("Test Org")).toBeInTheDocument();
+      expect(screen.getByText("Lisbon")).toBeInTheDocument();
+      expect(screen.getByText("Verified")).toBeInTheDocument();
+      expect(screen.getByRole("link", { name: "testorg.dev" })).toHaveAttribute(
+        "href",
+        "https://testorg.dev"
+      );
+      expect(await screen.findByText("Public members (1)")).toBeInTheDocument();
+      expect(screen.queryByText(/followers/)).not.toBeInTheDocument();
+
+      // The type filter applies to organization repositories as well
+      expect(await screen.findByText("another-repo")).toBeInTheDocument();
+      expect(screen.queryByText("test-repo")).not.toBeInTheDocument();
+
+      const requested = mockFetch.mock.calls.map(
+        ([url]) => new URL(url.toString()).pathname
+      );
+      expect(requested).not.toContain("/users/testorg/events/public");
+      expect(requested).not.toContain("/users/testorg/repos");
+    });
+
+    it("moves organizations opened as users to their organization page", async () => {
+      renderAt("/users/testorg/repos?lang=TypeScript");
+
+      expect(await screen.findByText("Test Org")).toBeInTheDocument();
+      expect(window.location.pathname).toBe("/orgs/testorg/repos");
+      expect(window.location.search).toBe("?lang=TypeScript");
+    });
+
+    it("compares users side by side from the URL", async () => {
+      renderAt("/compare?users=testuser,otheruser");
+
+      expect(await screen.findByText("Other User")).toBeInTheDocument();
+      // Rows are named after their header followed by each user's value
+      const cellsOf = (label: string) =>
+        within(
+          screen.getByRole("row", { name: new RegExp(`^${label}\\b`) })
+        ).getAllByRole("cell");
+
+      expect(cellsOf("Followers").map((cell) => cell.textContent)).toEqual([
+        "100",
+        "300",
+      ]);
+      await waitFor(() => {
+        expect(cellsOf("Total stars").map((cell) => cell.textContent)).toEqual([
+          "35",
+          "0",
+        ]);
+      });
+      expect(
+        within(cellsOf("Most-starred repositories")[0]).getAllByRole("link")
+      ).toHaveLength(2);
+      expect(
+        within(cellsOf("Top languages")[0]).getByText("TypeScript")
+      ).toBeInTheDocument();
+
+      await userEvent
+        .setup()
+        .click(screen.getByRole("button", { name: "Remove otheruser" }));
+      expect(window.location.search).toBe("?users=testuser");
+      expect(
+        await screen.findByText(/Pick at least 2 users/)
+      ).toBeInTheDocument();
+    });
+
+    it("picks users to compare from the search results", async () => {
+      const user = userEvent.setup();
+      const answerApi = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation(async (url, init) =>
+        new URL(url.toString()).pathname === "/search/users"
+          ? ({
+              ok: true,
+              json: async () => ({
+                ...mockSearchResponse,
+                items: [mockSearchResponse.items[0], mockOtherUserResponse],
+              }),
+            } as Response)
+          : answerApi(url, init)
+      );
+      renderAt("/search?q=user");
+
+      await user.click(
+        await screen.findByRole("checkbox", { name: "Compare testuser" })
+      );
+      await user.click(
+        screen.getByRole("checkbox", { name: "Compare otheruser" })
+      );
+      await user.click(screen.getByRole("button", { name: "Compare 2 users" }));
+
+      expect(window.location.pathname).toBe("/compare");
+      expect(window.location.search).toBe("?users=testuser,otheruser");
+      expect(await screen.findByText("Other User")).toBeInTheDocument();
+    });
+
+    it("matches compared users case-insensitively", async () => {
+      const user = userEvent.setup();
+      const answerApi = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation(async (url, init) => {
+        const { pathname, searchParams } = new URL(url.toString());
+        if (pathname !== "/search/users") return answerApi(url, init);
+        const login =
+          searchParams.get("q") === "first" ? "TestUser" : "testuser";
+        return {
+          ok: true,
+          json: async () => ({
+            ...mockSearchResponse,
+            items: [{ ...mockSearchResponse.items[0], login }],
+          }),
+        } as Response;
+      });
+      renderAt("/search?q=first");
+
+      await user.click(
+        await screen.findByRole("checkbox", { name: "Compare TestUser" })
+      );
+      await user.clear(screen.getByPlaceholderText(/username/i));
+      await user.type(screen.getByPlaceholderText(/username/i), "second");
+      await user.click(screen.getByRole("button", { name: "Search" }));
+
+      const checkbox = await screen.findByRole("checkbox", {
+        name: "Compare testuser",
+      });
+      expect(checkbox).toBeChecked();
+      await user.click(checkbox);
+      expect(checkbox).not.toBeChecked();
+    });
+
+    it("navigates with links and supports the browser back button", async () => {
+      const user = userEvent.setup();
+      renderAt("/search?q=testuser");
+
+      await user.click(
+        await screen.findByRole("button", { name: /testuser/i })
+      );
+      expect(window.location.pathname).toBe("/users/testuser");
+
+      await user.click(
+        await screen.findByRole("button", { name: "Open test-repo repository" })
+      );
+      expect(window.location.pathname).toBe("/repos/testuser/test-repo");
+      expect(await screen.findByText("testuser/test-repo")).toBeInTheDocument();
+
+      act(() => window.history.back());
+      expect(await screen.findByText("another-repo")).toBeInTheDocument();
+      expect(window.location.pathname).toBe("/users/testuser");
+
+      // "Back to Users" is a history step, not a fresh search page
+      await user.click(screen.getByRole("button", { name: /back to users/i }));
+      await waitFor(() => {
+        expect(window.location.search).toBe("?q=testuser");
+      });
+      expect(
+        await screen.findByRole("button", { name: /testuser/i })
+      ).toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,120 @@
+import React from "react";
+import { useWebUrl } from "../hooks/useWebUrl";
+import { summarizeEvent } from "../services/eventSummary";
+import { GitHubEvent } from "../types/github";
+import {
+  Activity,
+  AlertCircle,
+  BookOpen,
+  Code,
+  GitCommit,
+  GitFork,
+  GitPullRequest,
+  Globe,
+  Heart,
+  MessageSquare,
+  Star,
+  Tag,
+  Trash2,
+  UserPlus,
+} from "lucide-react";
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diffInHours = Math.floor(
+    (now.getTime() - date.getTime()) / (1000 * 60 * 60)
+  );
+
+  if (diffInHours < 24) {
+    return `${diffInHours}h ago`;
+  } else if (diffInHours < 24 * 7) {
+    return `${Math.floor(diffInHours / 24)}d ago`;
+  } else {
+    return date.toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+  }
+};
+
+const getEventIcon = (event: GitHubEvent) => {
+  switch (event.type) {
+    case "PushEvent":
+      return <GitCommit className="h-3 w-3" />;
+    case "PullRequestEvent":
+    case "PullRequestReviewEvent":
+    case "PullRequestReviewThreadEvent":
+      return <GitPullRequest className="h-3 w-3" />;
+    case "IssuesEvent":
+      return <AlertCircle className="h-3 w-3" />;
+    case "IssueCommentEvent":
+    case "CommitCommentEvent":
+    case "PullRequestReviewCommentEvent":
+      return <MessageSquare className="h-3 w-3" />;
+    case "CreateEvent":
+      return <Code className="h-3 w-3" />;
+    case "DeleteEvent":
+      return <Trash2 className="h-3 w-3" />;
+    case "ForkEvent":
+      return <GitFork className="h-3 w-3" />;
+    case "GollumEvent":
+      return <BookOpen className="h-3 w-3" />;
+    case "MemberEvent":
+      return <UserPlus className="h-3 w-3" />;
+    case "PublicEvent":
+      return <Globe className="h-3 w-3" />;
+    case "ReleaseEvent":
+      return <Tag className="h-3 w-3" />;
+    case "SponsorshipEvent":
+      return <Heart className="h-3 w-3" />;
+    case "WatchEvent":
+      return <Star className="h-3 w-3" />;
+    default:
+      return <Activity className="h-3 w-3" />;
+  }
+};
+
+// One line per event saying what happened, linked to whatever it happened to,
+// with commit messages or titles underneath
+export const ActivityFeedItem: React.FC<{ event: GitHubEvent }> = ({
+  event,
+}) => {
+  const toWebUrl = useWebUrl();
+  const { title, url, details } = summarizeEvent(event);
+
+  return (
+    <div className="flex items-start space-x-3 p-2 rounded-md bg-muted/50 hover:bg-muted transition-colors">
+      <div className="text-muted-foreground mt-0.5">{getEventIcon(event)}</div>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-medium truncate">
+          {url ? (
+            <a
+              href={toWebUrl(url)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:text-primary hover:underline"
+            >
+              {title}
+            </a>
+          ) : (
+            title
+          )}
+          {event.repo && (
+            <span className="text-muted-foreground ml-1">
+              in {event.repo.name}
+            </span>
+          )}
+        </p>
+        {details.map((detail, index) => (
+          <p key={index} className="text-xs text-muted-foreground truncate">
+            {detail}
+          </p>
+        ))}
+      </div>
+      <div className="text-xs text-muted-foreground shrink-0">
+        {formatDate(event.created_at)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,319 @@
+import React from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { UseQueryResult } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { useUserComparison } from "../hooks/useGitHubQueries";
+import { useHistoryBack } from "../hooks/useHistoryBack";
+import { useWebUrl } from "../hooks/useWebUrl";
+import {
+  comparePath,
+  repositoryPath,
+  searchPath,
+  userPath,
+} from "../services/routes";
+import {
+  MIN_COMPARED_USERS,
+  parseComparedUsers,
+  summarizeRepositories,
+} from "../services/userComparison";
+import { ChevronLeft, Columns, Star, X } from "lucide-react";
+
+type ComparedUser = ReturnType<typeof useUserComparison>[number];
+
+interface ComparisonRow {
+  label: string;
+  render: (column: ComparedUser) => React.ReactNode;
+  // Numeric rows highlight the highest value
+  value?: (column: ComparedUser) => number | undefined;
+}
+
+const formatCount = (count: number) => count.toLocaleString("en-US");
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+// Shows a query's loading and error states in place of its value
+function renderQuery<T>(
+  query: UseQueryResult<T, Error>,
+  render: (data: T) => React.ReactNode
+): React.ReactNode {
+  if (query.data !== undefined) {
+    return render(query.data);
+  }
+  if (query.error) {
+    return <span className="text-destructive">{query.error.message}</span>;
+  }
+  return <span className="text-muted-foreground">Loading...</span>;
+}
+
+const ROWS: ComparisonRow[] = [
+  {
+    label: "Name",
+    render: ({ user }) => renderQuery(user, (data) => data.name || "—"),
+  },
+  {
+    label: "Joined",
+    render: ({ user }) =>
+      renderQuery(user, (data) =>
+        data.created_at ? formatDate(data.created_at) : "—"
+      ),
+  },
+  {
+    label: "Public repositories",
+    render: ({ user }) =>
+      renderQuery(user, (data) => formatCount(data.public_repos ?? 0)),
+    value: ({ user }) => user.data?.public_repos,
+  },
+  {
+    label: "Followers",
+    render: ({ user }) =>
+      renderQuery(user, (data) => formatCount(data.followers ?? 0)),
+    value: ({ user }) => user.data?.followers,
+  },
+  {
+    label: "Following",
+    render: ({ user }) =>
+      renderQuery(user, (data) => formatCount(data.following ?? 0)),
+  },
+  {
+    label: "Contributions counted",
+    render: ({ stats }) =>
+      renderQuery(stats, (data) =>
+        data.source === "graphql"
+          ? "Last year"
+          : data.coverageStart
+          ? `Public events since ${formatDate(data.coverageStart)}`
+          : "No public events"
+      ),
+  },
+  {
+    label: "Commits",
+    render: ({ stats }) =>
+      renderQuery(stats, (data) => formatCount(data.totalCommits)),
+    value: ({ stats }) => stats.data?.totalCommits,
+  },
+  {
+    label: "Pull requests",
+    render: ({ stats }) =>
+      renderQuery(stats, (data) => formatCount(data.totalPullRequests)),
+    value: ({ stats }) => stats.data?.totalPullRequests,
+  },
+  {
+    label: "Issues",
+    render: ({ stats }) =>
+      renderQuery(stats, (data) => formatCount(data.totalIssues)),
+    value: ({ stats }) => stats.data?.totalIssues,
+  },
+  {
+    label: "Total stars",
+    render: ({ repositories }) =>
+      renderQuery(repositories, (data) =>
+        formatCount(summarizeRepositories(data).totalStars)
+      ),
+    value: ({ repositories }) =>
+      repositories.data && summarizeRepositories(repositories.data).totalStars,
+  },
+  {
+    label: "Top languages",
+    render: ({ repositories }) =>
+      renderQuery(repositories, (data) => {
+        const { topLanguages } = summarizeRepositories(data);
+        if (topLanguages.length === 0) {
+          return "—";
+        }
+        return (
+          <ul className="space-y-1">
+            {topLanguages.map((share) => (
+              <li key={share.name} className="flex items-center space-x-1">
+                <span
+                  className="inline-block w-2 h-2 rounded-full"
+                  style={{ backgroundColor: share.color }}
+                />
+                <span>{share.name}</span>
+                <span className="text-muted-foreground">
+                  {share.percent.toFixed(0)}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        );
+      }),
+  },
+  {
+    label: "Most-starred repositories",
+    render: ({ repositories }) =>
+      renderQuery(repositories, (data) => {
+        const { mostStarred } = summarizeRepositories(data);
+        if (mostStarred.length === 0) {
+          return "—";
+        }
+        return (
+          <ul className="space-y-1">
+            {mostStarred.map((repo) => {
+              const [owner] = repo.full_name.split("/");
+              return (
+                <li key={repo.id} className="flex items-center space-x-1">
+                  <Link
+                    to={repositoryPath(owner, repo.name)}
+                    className="truncate hover:text-primary"
+                  >
+                    {repo.name}
+                  </Link>
+                  <Star className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  <span className="text-muted-foreground">
+                    {formatCount(repo.stargazers_count)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        );
+      }),
+  },
+];
+
+// The column(s) holding a numeric row's highest value, once every column
+// has loaded
+const getLeaders = ({ value }: ComparisonRow, columns: ComparedUser[]) => {
+  if (!value) {
+    return new Set<string>();
+  }
+  const values = columns.map(value);
+  if (values.some((value) => value === undefined)) {
+    return new Set<string>();
+  }
+  const max = Math.max(...(values as number[]));
+  return new Set(
+    max > 0
+      ? columns
+          .filter((_, index) => values[index] === max)
+          .map((column) => column.login)
+      : []
+  );
+};
+
+// /compare?users=octocat,defunkt
+export const ComparePage: React.FC = () => {
+  const navigate = useNavigate();
+  const toWebUrl = useWebUrl();
+  const [searchParams] = useSearchParams();
+  const logins = parseComparedUsers(searchParams);
+  const columns = useUserComparison(logins);
+  const handleBack = useHistoryBack(searchPath());
+
+  const handleRemove = (login: string) => {
+    navigate(comparePath(logins.filter((current) => current !== login)), {
+      replace: true,
+    });
+  };
+
+  const backButton = (
+    <Button variant="outline" onClick={handleBack} className="w-full sm:w-auto">
+      <ChevronLeft className="h-4 w-4 mr-2" />
+      Back to Users
+    </Button>
+  );
+
+  if (logins.length < MIN_COMPARED_USERS) {
+    return (
+      <div className="w-full max-w-4xl mx-auto space-y-4">
+        {backButton}
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            Pick at least {MIN_COMPARED_USERS} users in the search results to
+            compare them.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col space-y-4 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
+            <CardTitle className="text-xl flex items-center space-x-2">
+              <Columns className="h-5 w-5" />
+              <span>Compare users</span>
+            </CardTitle>
+            {backButton}
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0 overflow-x-auto">
+          <table className="w-full table-fixed text-sm">
+            <caption className="sr-only">
+              Comparison of {logins.join(", ")}
+            </caption>
+            <thead>
+              <tr className="border-b">
+                <td className="w-40" />
+                {columns.map(({ login, user }) => (
+                  <th key={login} scope="col" className="p-2 text-left">
+                    <div className="flex items-center justify-between space-x-2">
+                      <Link
+                        to={userPath(login)}
+                        className="flex items-center space-x-2 min-w-0 hover:text-primary"
+                      >
+                        {user.data && (
+                          <img
+                            src={toWebUrl(user.data.avatar_url)}
+                            alt=""
+                            className="w-8 h-8 rounded-full"
+                            loading="lazy"
+                          />
+                        )}
+                        <span className="truncate">{login}</span>
+                      </Link>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 shrink-0"
+                        aria-label={`Remove ${login}`}
+                        onClick={() => handleRemove(login)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map((row) => {
+                const leaders = getLeaders(row, columns);
+                return (
+                  <tr key={row.label} className="border-b last:border-b-0">
+                    <th
+                      scope="row"
+                      className="p-2 text-left align-top font-medium text-muted-foreground"
+                    >
+                      {row.label}
+                    </th>
+                    {columns.map((column) => (
+                      <td
+                        key={column.login}
+                        className={
+                          leaders.has(column.login)
+                            ? "p-2 align-top font-semibold text-primary"
+                            : "p-2 align-top"
+                        }
+                      >
+                        {row.render(column)}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
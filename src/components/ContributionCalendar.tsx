@@ -0,0 +1,206 @@
+import React, { useRef, useState } from "react";
+import { cn } from "../lib/utils";
+import {
+  CalendarDay,
+  CalendarWeek,
+  ContributionLevel,
+} from "../services/contributionCalendar";
+
+interface ContributionCalendarProps {
+  weeks: CalendarWeek[];
+  selectedDate?: string | null;
+  onSelectDate?: (date: string | null) => void;
+}
+
+const LEVEL_CLASSES: Record<ContributionLevel, string> = {
+  0: "bg-muted",
+  1: "bg-primary/25",
+  2: "bg-primary/50",
+  3: "bg-primary/75",
+  4: "bg-primary",
+};
+
+// Outlined rather than filled, so unknown days don't read as quiet ones
+const NO_DATA_CLASS = "border border-dashed border-muted-foreground/40";
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Arrow keys move by a day vertically and by a week horizontally
+const KEY_OFFSETS: Record<string, [number, number]> = {
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+};
+
+export function describeDay(day: CalendarDay): string {
+  const date = new Date(`${day.date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  if (day.noData) {
+    return `No data for ${date} (older than the public activity feed)`;
+  }
+  const noun = day.count === 1 ? "contribution" : "contributions";
+  return `${day.count === 0 ? "No" : day.count} ${noun} on ${date}`;
+}
+
+export const ContributionCalendar: React.FC<ContributionCalendarProps> = ({
+  weeks,
+  selectedDate = null,
+  onSelectDate,
+}) => {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [activeDay, setActiveDay] = useState<CalendarDay | null>(null);
+
+  const findPosition = (date: string): [number, number] | null => {
+    for (let week = 0; week < weeks.length; week++) {
+      const weekday = weeks[week].findIndex((day) => day?.date === date);
+      if (weekday !== -1) {
+        return [week, weekday];
+      }
+    }
+    return null;
+  };
+
+  // Roving tab stop: the last focused day, then the selected day, then the
+  // most recent day
+  const lastDay = weeks
+    .flat()
+    .reduce<CalendarDay | null>((last, day) => day ?? last, null);
+  const [focusedDate, setFocusedDate] = useState<string | null>(null);
+  const hasNoDataDays = weeks.some((week) => week.some((day) => day?.noData));
+  const tabStopDate =
+    (focusedDate && findPosition(focusedDate) && focusedDate) ||
+    (selectedDate && findPosition(selectedDate) && selectedDate) ||
+    lastDay?.date;
+
+  const focusDay = (date: string) => {
+    setFocusedDate(date);
+    gridRef.current
+      ?.querySelector<HTMLElement>(`[data-date="${date}"]`)
+      ?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, day: CalendarDay) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      if (!day.noData) {
+        onSelectDate?.(day.date === selectedDate ? null : day.date);
+      }
+      return;
+    }
+
+    const offset = KEY_OFFSETS[e.key];
+    const position = findPosition(day.date);
+    if (!offset || !position) {
+      return;
+    }
+    e.preventDefault();
+
+    const [week, weekday] = [position[0] + offset[0], position[1] + offset[1]];
+    const target = weeks[week]?.[weekday];
+    if (target) {
+      focusDay(target.date);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <div
+          ref={gridRef}
+          role="grid"
+          aria-label="Contribution calendar"
+          className="inline-flex flex-col gap-[3px]"
+        >
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <div key={label} role="row" className="flex gap-[3px]">
+              <span
+                role="rowheader"
+                className="w-7 text-[10px] leading-[10px] text-muted-foreground"
+              >
+                {weekday % 2 === 1 ? label : ""}
+                <span className="sr-only">{label}</span>
+              </span>
+              {weeks.map((week, index) => {
+                const day = week[weekday];
+                if (!day) {
+                  return (
+                    <span
+                      key={index}
+                      role="presentation"
+                      className="w-2.5 h-2.5"
+                    />
+                  );
+                }
+
+                const isSelected = day.date === selectedDate;
+                return (
+                  <span
+                    key={day.date}
+                    role="gridcell"
+                    data-date={day.date}
+                    data-level={day.level}
+                    tabIndex={day.date === tabStopDate ? 0 : -1}
+                    aria-label={describeDay(day)}
+                    aria-selected={isSelected}
+                    aria-disabled={day.noData || undefined}
+                    title={describeDay(day)}
+                    className={cn(
+                      "w-2.5 h-2.5 rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                      day.noData
+                        ? NO_DATA_CLASS
+                        : cn("cursor-pointer", LEVEL_CLASSES[day.level]),
+                      isSelected && "ring-2 ring-foreground"
+                    )}
+                    onClick={() =>
+                      !day.noData &&
+                      onSelectDate?.(isSelected ? null : day.date)
+                    }
+                    onKeyDown={(e) => handleKeyDown(e, day)}
+                    onFocus={() => {
+                      setFocusedDate(day.date);
+                      setActiveDay(day);
+                    }}
+                    onMouseEnter={() => setActiveDay(day)}
+                    onMouseLeave={() => setActiveDay(null)}
+                    onBlur={() => setActiveDay(null)}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span role="tooltip" aria-live="polite" className="min-h-[1rem]">
+          {activeDay ? describeDay(activeDay) : ""}
+        </span>
+        <div className="flex items-center space-x-1">
+          {hasNoDataDays && (
+            <>
+              <span
+                data-testid="legend-no-data"
+                className={cn("w-2.5 h-2.5 rounded-sm", NO_DATA_CLASS)}
+              />
+              <span className="pr-2">No data</span>
+            </>
+          )}
+          <span>Less</span>
+          {([0, 1, 2, 3, 4] as ContributionLevel[]).map((level) => (
+            <span
+              key={level}
+              data-testid={`legend-level-${level}`}
+              className={cn("w-2.5 h-2.5 rounded-sm", LEVEL_CLASSES[level])}
+            />
+          ))}
+          <span>More</span>
+        </div>
+      </div>
+    </div>
+  );
+};
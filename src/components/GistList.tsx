@@ -0,0 +1,211 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { useGist, useUserGists } from "../hooks/useGitHubQueries";
+import { useWebUrl } from "../hooks/useWebUrl";
+import { cn } from "../lib/utils";
+import { getLanguageColor } from "../services/languageStats";
+import { highlightCode, TokenType } from "../services/syntaxHighlight";
+import { GitHubGist, GitHubGistFile } from "../types/github";
+import { Calendar, ExternalLink, FileCode, MessageSquare } from "lucide-react";
+
+const TOKEN_CLASSES: Record<TokenType, string | undefined> = {
+  keyword: "text-purple-700 font-medium",
+  string: "text-green-700",
+  comment: "text-muted-foreground italic",
+  number: "text-orange-700",
+  plain: undefined,
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const GistFileViewer: React.FC<{ gistId: string; file: GitHubGistFile }> = ({
+  gistId,
+  file,
+}) => {
+  const toWebUrl = useWebUrl();
+  const { data: gist, isLoading, error } = useGist(gistId);
+  const content = gist?.files[file.filename];
+
+  if (isLoading) {
+    return <p className="p-3 text-sm text-muted-foreground">Loading file...</p>;
+  }
+  if (error) {
+    return <p className="p-3 text-sm text-destructive">{error.message}</p>;
+  }
+  if (content?.content === undefined) {
+    return (
+      <p className="p-3 text-sm text-muted-foreground">
+        This file is no longer in the gist.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      {content.truncated && (
+        <p className="px-3 py-2 text-sm bg-secondary text-secondary-foreground">
+          This file is too large to show in full.{" "}
+          <a
+            href={toWebUrl(content.raw_url)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline"
+          >
+            View the raw file
+          </a>
+        </p>
+      )}
+      <pre
+        className="max-h-96 overflow-auto p-3 text-xs leading-relaxed bg-muted/50"
+        aria-label={`${file.filename} contents`}
+      >
+        <code>
+          {highlightCode(content.content, content.language).map(
+            (token, index) => (
+              <span key={index} className={TOKEN_CLASSES[token.type]}>
+                {token.text}
+              </span>
+            )
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const GistCard: React.FC<{ gist: GitHubGist }> = ({ gist }) => {
+  const toWebUrl = useWebUrl();
+  const [openFile, setOpenFile] = useState<string | null>(null);
+  const files = Object.values(gist.files);
+  const languages = Array.from(
+    new Set(files.map((file) => file.language).filter(Boolean))
+  ) as string[];
+  const selected = files.find((file) => file.filename === openFile);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between space-x-2">
+          <CardTitle className="text-base break-words">
+            {gist.description || files[0]?.filename || gist.id}
+          </CardTitle>
+          <a
+            href={toWebUrl(gist.html_url)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-muted-foreground hover:text-primary shrink-0"
+            aria-label="Open gist on GitHub"
+          >
+            <ExternalLink className="h-4 w-4" />
+          </a>
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          {languages.map((language) => (
+            <span key={language} className="flex items-center space-x-1">
+              <span
+                className="inline-block w-2 h-2 rounded-full"
+                style={{ backgroundColor: getLanguageColor(language) }}
+              />
+              <span>{language}</span>
+            </span>
+          ))}
+          <span className="flex items-center space-x-1">
+            <Calendar className="h-3 w-3" />
+            <span>Created {formatDate(gist.created_at)}</span>
+          </span>
+          {gist.updated_at !== gist.created_at && (
+            <span>Updated {formatDate(gist.updated_at)}</span>
+          )}
+          {gist.comments > 0 && (
+            <span className="flex items-center space-x-1">
+              <MessageSquare className="h-3 w-3" />
+              <span>{gist.comments}</span>
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-2">
+        <ul className="flex flex-wrap gap-2" aria-label="Files">
+          {files.map((file) => {
+            const isOpen = file.filename === openFile;
+            return (
+              <li key={file.filename}>
+                <button
+                  type="button"
+                  className={cn(
+                    "flex items-center space-x-1 rounded-md px-2 py-1 text-sm transition-colors",
+                    isOpen
+                      ? "bg-secondary font-medium"
+                      : "bg-muted/50 hover:bg-muted"
+                  )}
+                  aria-expanded={isOpen}
+                  onClick={() => setOpenFile(isOpen ? null : file.filename)}
+                >
+                  <FileCode className="h-3 w-3" />
+                  <span>{file.filename}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        {selected && (
+          <div className="rounded-md border overflow-hidden">
+            <GistFileViewer gistId={gist.id} file={selected} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// A user's public gists, newest activity first; a file's contents load the
+// first time it's opened
+export const GistList: React.FC<{ login: string }> = ({ login }) => {
+  const { data: gists, isLoading, error } = useUserGists(login);
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-8">
+          <div className="flex items-center justify-center space-x-2">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
+            <span className="text-muted-foreground">Loading gists...</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="p-8 text-center">
+          <p className="text-destructive">{error.message}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!gists || gists.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center text-muted-foreground">
+          {login} doesn't have any public gists.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {gists.map((gist) => (
+        <GistCard key={gist.id} gist={gist} />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { useHostStore } from "../store/useHostStore";
+import { useAuthStore } from "../store/useAuthStore";
+import { useRateLimitStore } from "../store/useRateLimitStore";
+import { etagCache } from "../services/etagCache";
+import {
+  getBuildTimeHostConfig,
+  getHostLabel,
+  GitHubHostConfig,
+  resolveHostConfig,
+} from "../services/hostConfig";
+import { Server } from "lucide-react";
+
+export const HostSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const apiBaseUrl = useHostStore((state) => state.apiBaseUrl);
+  const webBaseUrl = useHostStore((state) => state.webBaseUrl);
+  const setHost = useHostStore((state) => state.setHost);
+  const signOut = useAuthStore((state) => state.signOut);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [hostInput, setHostInput] = useState("");
+  const [hostError, setHostError] = useState<string | null>(null);
+
+  const defaultConfig = getBuildTimeHostConfig();
+  const isDefaultHost = apiBaseUrl === defaultConfig.apiBaseUrl;
+
+  const switchHost = (config: GitHubHostConfig) => {
+    if (config.apiBaseUrl !== apiBaseUrl) {
+      // Tokens, cached responses and quotas all belong to the old host
+      signOut();
+      etagCache.clear();
+      useRateLimitStore.getState().resetRateLimits();
+      queryClient.clear();
+    }
+    setHost(config);
+    setIsEditing(false);
+    setHostInput("");
+    setHostError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      switchHost(resolveHostConfig(hostInput));
+    } catch (err) {
+      setHostError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto text-sm text-muted-foreground">
+      <div className="flex items-center justify-center space-x-2">
+        <Server className="h-4 w-4" />
+        <span>
+          Connected to{" "}
+          <span className="font-medium text-foreground" title={apiBaseUrl}>
+            {getHostLabel({ apiBaseUrl, webBaseUrl })}
+          </span>
+        </span>
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto px-1"
+          onClick={() => setIsEditing((editing) => !editing)}
+          aria-expanded={isEditing}
+        >
+          Change host
+        </Button>
+      </div>
+
+      {isEditing && (
+        <form onSubmit={handleSubmit} className="mt-2 space-y-2">
+          <label htmlFor="github-host" className="sr-only">
+            GitHub host
+          </label>
+          <div className="flex gap-2">
+            <Input
+              id="github-host"
+              value={hostInput}
+              onChange={(e) => {
+                setHostInput(e.target.value);
+                setHostError(null);
+              }}
+              placeholder="github.example.com"
+              autoComplete="off"
+            />
+            <Button type="submit" disabled={!hostInput.trim()}>
+              Use host
+            </Button>
+          </div>
+          {hostError && <p className="text-destructive">{hostError}</p>}
+          {!isDefaultHost && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => switchHost(defaultConfig)}
+            >
+              Reset to {getHostLabel(defaultConfig)}
+            </Button>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
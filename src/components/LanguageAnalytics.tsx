@@ -0,0 +1,274 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { useRepositoriesLanguages } from "../hooks/useGitHubQueries";
+import { cn } from "../lib/utils";
+import {
+  countPrimaryLanguages,
+  formatBytes,
+  LanguageShare,
+  sumLanguageBytes,
+  toLanguageShares,
+} from "../services/languageStats";
+import { GitHubRepository } from "../types/github";
+import { PieChart } from "lucide-react";
+
+// Byte weighting costs one request per repository, so it only looks at the
+// most recently updated ones
+export const MAX_BYTE_WEIGHTED_REPOSITORIES = 100;
+
+type Weighting = "repositories" | "bytes";
+
+interface LanguageAnalyticsProps {
+  repositories: GitHubRepository[];
+  selectedLanguage: string | null;
+  onLanguageSelect: (language: string | null) => void;
+}
+
+// Circumference of the donut's circle, so dash lengths are percentages
+const DONUT_RADIUS = 100 / (2 * Math.PI);
+
+const formatShare = (share: LanguageShare, weighting: Weighting) =>
+  weighting === "bytes"
+    ? formatBytes(share.value)
+    : `${share.value} ${share.value === 1 ? "repository" : "repositories"}`;
+
+const Donut: React.FC<{
+  shares: LanguageShare[];
+  selectedLanguage: string | null;
+  onSelect?: (language: string) => void;
+}> = ({ shares, selectedLanguage, onSelect }) => {
+  let offset = 0;
+  return (
+    <svg viewBox="0 0 42 42" className="w-32 h-32 shrink-0" aria-hidden="true">
+      <circle
+        cx="21"
+        cy="21"
+        r={DONUT_RADIUS}
+        fill="none"
+        strokeWidth="6"
+        className="stroke-muted"
+      />
+      {shares.map((share) => {
+        // Segments start at 12 o'clock and run clockwise
+        const dashOffset = 25 - offset;
+        offset += share.percent;
+        return (
+          <circle
+            key={share.name}
+            cx="21"
+            cy="21"
+            r={DONUT_RADIUS}
+            fill="none"
+            stroke={share.color}
+            strokeWidth={share.name === selectedLanguage ? 8 : 6}
+            strokeDasharray={`${share.percent} ${100 - share.percent}`}
+            strokeDashoffset={dashOffset}
+            className={cn(onSelect && "cursor-pointer")}
+            onClick={() => onSelect?.(share.name)}
+          >
+            <title>{share.name}</title>
+          </circle>
+        );
+      })}
+      <text
+        x="21"
+        y="22.5"
+        textAnchor="middle"
+        className="fill-foreground text-[5px] font-medium"
+      >
+        {shares.length} {shares.length === 1 ? "language" : "languages"}
+      </text>
+    </svg>
+  );
+};
+
+// Aggregates languages across all of an account's repositories. Clicking a
+// language filters the repository grid by primary language, so it's only
+// offered when counting primary languages: byte weighting surfaces languages
+// (CSS, Shell) that are rarely any repository's primary one.
+export const LanguageAnalytics: React.FC<LanguageAnalyticsProps> = ({
+  repositories,
+  selectedLanguage,
+  onLanguageSelect,
+}) => {
+  const [includeForks, setIncludeForks] = useState(false);
+  const [weighting, setWeighting] = useState<Weighting>("repositories");
+
+  const included = includeForks
+    ? repositories
+    : repositories.filter((repo) => !repo.fork);
+  const byteSample = included.slice(0, MAX_BYTE_WEIGHTED_REPOSITORIES);
+
+  // Fetched the first time bytes are asked for, then served from the cache
+  const { data: sample, settled } = useRepositoriesLanguages(
+    byteSample,
+    weighting === "bytes"
+  );
+  const isLoadingBytes =
+    weighting === "bytes" && byteSample.length > 0 && !sample;
+  const failed = sample?.failed ?? 0;
+  const skipped = sample?.skipped ?? 0;
+
+  const shares =
+    weighting === "bytes"
+      ? toLanguageShares(sumLanguageBytes(sample?.languages ?? []))
+      : toLanguageShares(countPrimaryLanguages(included));
+
+  const handleSelect =
+    weighting === "repositories"
+      ? (language: string) =>
+          onLanguageSelect(language === selectedLanguage ? null : language)
+      : undefined;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex flex-col space-y-2 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
+          <CardTitle className="text-lg flex items-center space-x-2">
+            <PieChart className="h-5 w-5" />
+            <span>Language breakdown</span>
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <div className="flex rounded-md border" role="group">
+              {(
+                [
+                  ["repositories", "By repositories"],
+                  ["bytes", "By bytes of code"],
+                ] as const
+              ).map(([value, label]) => (
+                <Button
+                  key={value}
+                  variant={weighting === value ? "secondary" : "ghost"}
+                  size="sm"
+                  aria-pressed={weighting === value}
+                  onClick={() => setWeighting(value)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <label className="flex items-center space-x-1 text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={includeForks}
+                onChange={(e) => setIncludeForks(e.target.checked)}
+              />
+              <span>Include forks</span>
+            </label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        {weighting === "bytes" && (
+          <p className="text-xs text-muted-foreground" role="status">
+            {isLoadingBytes
+              ? `Loading byte counts... (${settled} of ${byteSample.length} repositories)`
+              : included.length > byteSample.length
+              ? `Weighted by the ${byteSample.length} most recently updated repositories.`
+              : `Weighted by bytes of code in ${byteSample.length} ${
+                  byteSample.length === 1 ? "repository" : "repositories"
+                }.`}
+            {failed > 0 &&
+              ` Couldn't load ${failed} ${
+                failed === 1 ? "repository" : "repositories"
+              }.`}
+            {skipped > 0 &&
+              ` Skipped ${skipped} ${
+                skipped === 1 ? "repository" : "repositories"
+              } to stay within the API rate limit; add a token to raise it.`}
+          </p>
+        )}
+
+        {shares.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoadingBytes
+              ? "Waiting for byte counts..."
+              : "No languages detected."}
+          </p>
+        ) : (
+          <>
+            <div
+              className="flex h-3 w-full overflow-hidden rounded-full bg-muted"
+              role="img"
+              aria-label={shares
+                .map((share) => `${share.name} ${share.percent.toFixed(1)}%`)
+                .join(", ")}
+            >
+              {shares.map((share) => (
+                <div
+                  key={share.name}
+                  className={cn(
+                    handleSelect && "cursor-pointer",
+                    selectedLanguage &&
+                      share.name !== selectedLanguage &&
+                      "opacity-40"
+                  )}
+                  style={{
+                    width: `${share.percent}%`,
+                    backgroundColor: share.color,
+                  }}
+                  title={share.name}
+                  onClick={() => handleSelect?.(share.name)}
+                />
+              ))}
+            </div>
+            <div className="flex flex-col items-center gap-4 sm:flex-row sm:items-start">
+              <Donut
+                shares={shares}
+                selectedLanguage={selectedLanguage}
+                onSelect={handleSelect}
+              />
+              <ul
+                className="grid w-full gap-1 sm:grid-cols-2"
+                aria-label="Languages"
+              >
+                {shares.map((share) => {
+                  const className = cn(
+                    "flex w-full items-center space-x-2 rounded-md px-2 py-1 text-left text-sm",
+                    handleSelect && "hover:bg-muted",
+                    share.name === selectedLanguage && "bg-secondary"
+                  );
+                  const content = (
+                    <>
+                      <span
+                        className="inline-block w-2 h-2 rounded-full shrink-0"
+                        style={{ backgroundColor: share.color }}
+                      />
+                      <span className="font-medium truncate">{share.name}</span>
+                      <span className="text-muted-foreground ml-auto shrink-0">
+                        {formatShare(share, weighting)} ·{" "}
+                        {share.percent.toFixed(1)}%
+                      </span>
+                    </>
+                  );
+                  return (
+                    <li key={share.name}>
+                      {handleSelect ? (
+                        <button
+                          type="button"
+                          className={className}
+                          aria-pressed={share.name === selectedLanguage}
+                          onClick={() => handleSelect(share.name)}
+                        >
+                          {content}
+                        </button>
+                      ) : (
+                        <div className={className}>{content}</div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+            {!handleSelect && (
+              <p className="text-xs text-muted-foreground">
+                Switch to By repositories to filter by language.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,138 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { useWebUrl } from "../hooks/useWebUrl";
+import { userPath } from "../services/routes";
+import {
+  NetworkGraph as Graph,
+  NetworkGraphNode,
+  NetworkRelation,
+} from "../services/userNetwork";
+
+const NODE_RADIUS = 12;
+const CENTER_RADIUS = 20;
+const PADDING = CENTER_RADIUS + 4;
+
+const RELATION_COLORS: Record<NetworkRelation, string> = {
+  mutual: "#16a34a",
+  follower: "#2563eb",
+  following: "#d97706",
+};
+
+const RELATION_LABELS: Record<NetworkRelation, string> = {
+  mutual: "Mutual",
+  follower: "Follower",
+  following: "Following",
+};
+
+const viewBox = (nodes: NetworkGraphNode[]) => {
+  const xs = nodes.map((node) => node.position.x);
+  const ys = nodes.map((node) => node.position.y);
+  const minX = Math.min(...xs) - PADDING;
+  const minY = Math.min(...ys) - PADDING;
+  return `${minX} ${minY} ${Math.max(...xs) + PADDING - minX} ${
+    Math.max(...ys) + PADDING - minY
+  }`;
+};
+
+// The user in the middle with their followers and followed users around them;
+// each node opens that user's page
+export const NetworkGraph: React.FC<{ graph: Graph }> = ({ graph }) => {
+  const navigate = useNavigate();
+  const toWebUrl = useWebUrl();
+
+  const open = ({ user }: NetworkGraphNode) => {
+    navigate(userPath(user.login), { state: { user } });
+    window.scrollTo(0, 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, node: NetworkGraphNode) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      open(node);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={viewBox(graph.nodes)}
+        className="w-full max-h-96"
+        role="group"
+        aria-label="Network graph"
+      >
+        <defs>
+          <clipPath id="network-avatar" clipPathUnits="objectBoundingBox">
+            <circle cx="0.5" cy="0.5" r="0.5" />
+          </clipPath>
+        </defs>
+        {graph.links.map(({ source, target }) => (
+          <line
+            key={target.user.login}
+            x1={source.position.x}
+            y1={source.position.y}
+            x2={target.position.x}
+            y2={target.position.y}
+            strokeWidth="1"
+            stroke={
+              target.relation
+                ? RELATION_COLORS[target.relation]
+                : "currentColor"
+            }
+            strokeOpacity="0.5"
+          />
+        ))}
+        {graph.nodes.map((node) => {
+          const radius = node.relation ? NODE_RADIUS : CENTER_RADIUS;
+          const { x, y } = node.position;
+          return (
+            <g
+              key={node.user.login}
+              role="link"
+              tabIndex={0}
+              aria-label={`Open ${node.user.login}`}
+              className="cursor-pointer focus:outline-none"
+              onClick={() => open(node)}
+              onKeyDown={(e) => handleKeyDown(e, node)}
+            >
+              <title>
+                {node.relation
+                  ? `${node.user.login} (${RELATION_LABELS[node.relation]})`
+                  : node.user.login}
+              </title>
+              <circle
+                cx={x}
+                cy={y}
+                r={radius + 2}
+                fill={
+                  node.relation
+                    ? RELATION_COLORS[node.relation]
+                    : "currentColor"
+                }
+              />
+              <image
+                href={toWebUrl(node.user.avatar_url)}
+                x={x - radius}
+                y={y - radius}
+                width={radius * 2}
+                height={radius * 2}
+                clipPath="url(#network-avatar)"
+              />
+            </g>
+          );
+        })}
+      </svg>
+      <ul className="flex flex-wrap justify-center gap-4 text-xs text-muted-foreground">
+        {(Object.keys(RELATION_LABELS) as NetworkRelation[]).map((relation) => (
+          <li key={relation} className="flex items-center space-x-1">
+            <span
+              className="inline-block w-2 h-2 rounded-full"
+              style={{ backgroundColor: RELATION_COLORS[relation] }}
+            />
+            <span>{RELATION_LABELS[relation]}</span>
+          </li>
+        ))}
+        {graph.omitted > 0 && <li>+{graph.omitted} more not shown</li>}
+      </ul>
+    </div>
+  );
+};
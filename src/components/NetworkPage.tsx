@@ -0,0 +1,232 @@
+import React, { useMemo } from "react";
+import { Link, NavLink, useParams, useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { NetworkGraph } from "./NetworkGraph";
+import {
+  useUser,
+  useUserFollowers,
+  useUserFollowing,
+} from "../hooks/useGitHubQueries";
+import { useHistoryBack } from "../hooks/useHistoryBack";
+import { useWebUrl } from "../hooks/useWebUrl";
+import { cn } from "../lib/utils";
+import {
+  NetworkDirection,
+  userNetworkPath,
+  userPath,
+} from "../services/routes";
+import { buildNetworkGraph, findMutualFollows } from "../services/userNetwork";
+import { ChevronLeft, Share2 } from "lucide-react";
+
+const NETWORK_PAGE_SIZE = 30;
+
+const formatCount = (count: number) => count.toLocaleString("en-US");
+
+const tabClassName = ({ isActive }: { isActive: boolean }) =>
+  cn(
+    "flex items-center space-x-2 px-3 py-1.5 text-sm rounded-md transition-colors",
+    isActive
+      ? "bg-secondary text-secondary-foreground font-medium"
+      : "text-muted-foreground hover:text-foreground"
+  );
+
+interface NetworkPageProps {
+  direction: NetworkDirection;
+}
+
+// /users/:login/followers and /users/:login/following. Both lists are loaded
+// (up to GitHub's first 500 of each) so mutual follows can be marked in either.
+export const NetworkPage: React.FC<NetworkPageProps> = ({ direction }) => {
+  const { login = "" } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const toWebUrl = useWebUrl();
+  const handleBack = useHistoryBack(userPath(login));
+
+  const { data: user } = useUser(login);
+  const followers = useUserFollowers(login);
+  const following = useUserFollowing(login);
+  const list = direction === "followers" ? followers : following;
+  const users = list.data ?? [];
+
+  const mutual = useMemo(
+    () => findMutualFollows(followers.data ?? [], following.data ?? []),
+    [followers.data, following.data]
+  );
+  const graph = useMemo(
+    () =>
+      user && followers.data && following.data
+        ? buildNetworkGraph(user, followers.data, following.data)
+        : null,
+    [user, followers.data, following.data]
+  );
+
+  const pageCount = Math.max(1, Math.ceil(users.length / NETWORK_PAGE_SIZE));
+  const requestedPage = Number(searchParams.get("page"));
+  const page =
+    Number.isInteger(requestedPage) && requestedPage >= 1
+      ? Math.min(requestedPage, pageCount)
+      : 1;
+  const pageUsers = users.slice(
+    (page - 1) * NETWORK_PAGE_SIZE,
+    page * NETWORK_PAGE_SIZE
+  );
+  const handlePageChange = (next: number) => {
+    setSearchParams(next > 1 ? { page: String(next) } : {});
+    window.scrollTo(0, 0);
+  };
+
+  const totalCount =
+    direction === "followers" ? user?.followers : user?.following;
+  const isTruncated = totalCount !== undefined && totalCount > users.length;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col space-y-4 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
+            <Link
+              to={userPath(login)}
+              className="flex items-center space-x-4 hover:text-primary"
+            >
+              {user && (
+                <img
+                  src={toWebUrl(user.avatar_url)}
+                  alt={`${user.login}'s avatar`}
+                  className="w-12 h-12 rounded-full"
+                  loading="lazy"
+                />
+              )}
+              <CardTitle className="text-xl">{user?.login ?? login}</CardTitle>
+            </Link>
+            <Button
+              variant="outline"
+              onClick={handleBack}
+              className="w-full sm:w-auto"
+            >
+              <ChevronLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </div>
+          <nav className="flex space-x-2 pt-2" aria-label="Network">
+            <NavLink
+              to={userNetworkPath(login, "followers")}
+              className={tabClassName}
+            >
+              Followers
+              {user?.followers !== undefined &&
+                ` (${formatCount(user.followers)})`}
+            </NavLink>
+            <NavLink
+              to={userNetworkPath(login, "following")}
+              className={tabClassName}
+            >
+              Following
+              {user?.following !== undefined &&
+                ` (${formatCount(user.following)})`}
+            </NavLink>
+          </nav>
+        </CardHeader>
+      </Card>
+
+      {graph && graph.nodes.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <Share2 className="h-5 w-5" />
+              <span>Network</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <NetworkGraph graph={graph} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className={list.error ? "border-destructive" : undefined}>
+        <CardContent className="p-0">
+          {list.isLoading && (
+            <p className="p-8 text-center text-muted-foreground">
+              Loading {direction}...
+            </p>
+          )}
+          {list.error && (
+            <p className="p-8 text-center text-destructive">
+              {list.error.message}
+            </p>
+          )}
+          {list.data && users.length === 0 && (
+            <p className="p-8 text-center text-muted-foreground">
+              {direction === "followers"
+                ? `${login} has no followers yet.`
+                : `${login} isn't following anyone yet.`}
+            </p>
+          )}
+          {isTruncated && (
+            <p className="px-4 py-2 border-b bg-secondary text-sm text-secondary-foreground">
+              Showing the first {formatCount(users.length)} of{" "}
+              {formatCount(totalCount)}; mutual follows are only marked among
+              the users loaded.
+            </p>
+          )}
+          {pageUsers.length > 0 && (
+            <ul
+              aria-label={direction === "followers" ? "Followers" : "Following"}
+            >
+              {pageUsers.map((connection) => (
+                <li key={connection.id} className="border-b last:border-b-0">
+                  <Link
+                    to={userPath(connection.login)}
+                    state={{ user: connection }}
+                    className="flex items-center space-x-3 p-4 hover:bg-accent"
+                  >
+                    <img
+                      src={toWebUrl(connection.avatar_url)}
+                      alt=""
+                      className="w-8 h-8 rounded-full"
+                      loading="lazy"
+                    />
+                    <span className="font-medium text-sm">
+                      {connection.login}
+                    </span>
+                    {mutual.has(connection.login.toLowerCase()) && (
+                      <span className="px-2 py-0.5 text-xs bg-secondary text-secondary-foreground rounded-md">
+                        Mutual
+                      </span>
+                    )}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+          {pageCount > 1 && (
+            <nav
+              className="flex items-center justify-end space-x-2 px-4 py-2 border-t text-sm"
+              aria-label="Pagination"
+            >
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePageChange(page - 1)}
+                disabled={page <= 1}
+              >
+                Previous page
+              </Button>
+              <span className="text-muted-foreground" aria-current="page">
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePageChange(page + 1)}
+                disabled={page >= pageCount}
+              >
+                Next page
+              </Button>
+            </nav>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
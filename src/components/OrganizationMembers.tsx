@@ -0,0 +1,88 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { useOrganizationMembers } from "../hooks/useGitHubQueries";
+import { useWebUrl } from "../hooks/useWebUrl";
+import { userPath } from "../services/routes";
+import { Users } from "lucide-react";
+
+const COLLAPSED_MEMBERS = 24;
+
+interface OrganizationMembersProps {
+  org: string;
+}
+
+// Members who chose to make their membership public; the rest are only
+// visible to other members
+export const OrganizationMembers: React.FC<OrganizationMembersProps> = ({
+  org,
+}) => {
+  const toWebUrl = useWebUrl();
+  const { data: members, isLoading, error } = useOrganizationMembers(org);
+  const [showAll, setShowAll] = useState(false);
+
+  const visibleMembers = showAll
+    ? members ?? []
+    : (members ?? []).slice(0, COLLAPSED_MEMBERS);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center space-x-2">
+          <Users className="h-5 w-5" />
+          <span>
+            Public members
+            {members && members.length > 0 && ` (${members.length})`}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading members...</p>
+        )}
+        {error && (
+          <p className="text-sm text-muted-foreground">{error.message}</p>
+        )}
+        {members && members.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            This organization has no public members.
+          </p>
+        )}
+        {visibleMembers.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {visibleMembers.map((member) => (
+              <li key={member.id}>
+                <Link
+                  to={userPath(member.login)}
+                  state={{ user: member }}
+                  className="flex items-center space-x-2 rounded-md bg-muted/50 px-2 py-1 text-sm hover:bg-muted transition-colors"
+                >
+                  <img
+                    src={toWebUrl(member.avatar_url)}
+                    alt=""
+                    className="w-6 h-6 rounded-full"
+                    loading="lazy"
+                  />
+                  <span>{member.login}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+        {members && members.length > COLLAPSED_MEMBERS && (
+          <Button
+            variant="link"
+            size="sm"
+            className="px-0 mt-2"
+            onClick={() => setShowAll((current) => !current)}
+          >
+            {showAll
+              ? "Show fewer members"
+              : `Show all ${members.length} members`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+
+interface RateLimitCountdownProps {
+  resetAt: Date;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+
+  if (minutes === 0) {
+    return `${seconds}s`;
+  }
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+};
+
+export const RateLimitCountdown: React.FC<RateLimitCountdownProps> = ({
+  resetAt,
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = resetAt.getTime() - now;
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= resetAt.getTime()) {
+        clearInterval(timer);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [resetAt]);
+
+  return (
+    <div className="flex items-center justify-center space-x-2 text-sm text-destructive">
+      <Clock className="h-4 w-4" />
+      <span>
+        {remaining > 0
+          ? `Rate limit reached. Try again in ${formatRemaining(remaining)}.`
+          : "Rate limit has reset. You can try again now."}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from "react";
+import { useRateLimitStore } from "../store/useRateLimitStore";
+import { cn } from "../lib/utils";
+import { Gauge } from "lucide-react";
+
+export const RateLimitMeter: React.FC = () => {
+  const quota = useRateLimitStore((state) => state.quotas.core);
+
+  // Nothing to show until the first response reports a quota
+  if (!quota) {
+    return null;
+  }
+
+  const percentRemaining =
+    quota.limit > 0 ? (quota.remaining / quota.limit) * 100 : 0;
+  const resetTime = new Date(quota.reset * 1000).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <div
+      className="flex items-center justify-center space-x-2 text-xs text-muted-foreground"
+      data-testid="rate-limit-meter"
+    >
+      <Gauge className="h-3 w-3" />
+      <span>
+        {quota.remaining.toLocaleString()} / {quota.limit.toLocaleString()}{" "}
+        requests left
+      </span>
+      <div
+        className="w-24 h-1.5 rounded-full bg-muted overflow-hidden"
+        role="meter"
+        aria-label="API requests remaining"
+        aria-valuemin={0}
+        aria-valuemax={quota.limit}
+        aria-valuenow={quota.remaining}
+      >
+        <div
+          className={cn(
+            "h-full rounded-full",
+            percentRemaining > 20 ? "bg-primary" : "bg-destructive"
+          )}
+          style={{ width: `${percentRemaining}%` }}
+        />
+      </div>
+      <span>resets {resetTime}</span>
+    </div>
+  );
+};
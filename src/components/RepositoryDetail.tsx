@@ -0,0 +1,391 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { RateLimitCountdown } from "./RateLimitCountdown";
+import {
+  useRepository,
+  useRepositoryContributors,
+  useRepositoryLanguages,
+  useRepositoryReadme,
+  useRepositoryReleases,
+} from "../hooks/useGitHubQueries";
+import { useWebUrl } from "../hooks/useWebUrl";
+import { RateLimitError } from "../services/githubApi";
+import { toLanguageShares } from "../services/languageStats";
+import {
+  BookOpen,
+  ChevronLeft,
+  CircleDot,
+  Code,
+  ExternalLink,
+  Eye,
+  GitFork,
+  Scale,
+  Star,
+  Tag,
+  Users,
+} from "lucide-react";
+
+interface RepositoryDetailProps {
+  owner: string;
+  name: string;
+  onBack: () => void;
+  backLabel?: string;
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+const SectionMessage: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => <p className="text-sm text-muted-foreground">{children}</p>;
+
+export const RepositoryDetail: React.FC<RepositoryDetailProps> = ({
+  owner,
+  name,
+  onBack,
+  backLabel = "Back to Repositories",
+}) => {
+  const toWebUrl = useWebUrl();
+  const { data: repository, isLoading, error } = useRepository(owner, name);
+
+  // The secondary panels wait for the repository so a missing repo costs one
+  // request instead of five
+  const loaded = !!repository;
+  const readme = useRepositoryReadme(owner, name, loaded);
+  const languages = useRepositoryLanguages(owner, name, loaded);
+  const contributors = useRepositoryContributors(owner, name, loaded);
+  const releases = useRepositoryReleases(owner, name, loaded);
+
+  const languageShares = toLanguageShares(languages.data ?? {});
+
+  const backButton = (
+    <Button variant="outline" onClick={onBack} className="w-full sm:w-auto">
+      <ChevronLeft className="h-4 w-4 mr-2" />
+      {backLabel}
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="w-full max-w-4xl mx-auto">
+        <Card>
+          <CardContent className="p-8">
+            <div className="flex items-center justify-center space-x-2">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
+              <span className="text-muted-foreground">
+                Loading repository...
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (error || !repository) {
+    return (
+      <div className="w-full max-w-4xl mx-auto space-y-4">
+        {backButton}
+        <Card className="border-destructive">
+          <CardContent className="p-8">
+            {error instanceof RateLimitError && error.resetAt ? (
+              <RateLimitCountdown resetAt={error.resetAt} />
+            ) : (
+              <div className="text-center">
+                <p className="text-destructive">
+                  {error?.message ?? "Repository not found"}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      {/* Repository Header */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col space-y-4 sm:flex-row sm:items-start sm:justify-between sm:space-y-0">
+            <div className="flex items-center space-x-4 min-w-0">
+              <img
+                src={toWebUrl(repository.owner.avatar_url)}
+                alt={`${repository.owner.login}'s avatar`}
+                className="w-12 h-12 rounded-full"
+                loading="lazy"
+              />
+              <div className="min-w-0">
+                <CardTitle className="text-xl break-words">
+                  {repository.full_name}
+                </CardTitle>
+                {repository.description && (
+                  <p className="text-muted-foreground mt-1">
+                    {repository.description}
+                  </p>
+                )}
+              </div>
+            </div>
+            {backButton}
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-4">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-muted-foreground">
+            <span className="flex items-center space-x-1">
+              <Star className="h-4 w-4" />
+              <span>{repository.stargazers_count} stars</span>
+            </span>
+            <span className="flex items-center space-x-1">
+              <GitFork className="h-4 w-4" />
+              <span>{repository.forks_count} forks</span>
+            </span>
+            {repository.subscribers_count !== undefined && (
+              <span className="flex items-center space-x-1">
+                <Eye className="h-4 w-4" />
+                <span>{repository.subscribers_count} watching</span>
+              </span>
+            )}
+            <span className="flex items-center space-x-1">
+              <CircleDot className="h-4 w-4" />
+              <span>{repository.open_issues_count} open issues</span>
+            </span>
+            {repository.license && (
+              <span className="flex items-center space-x-1">
+                <Scale className="h-4 w-4" />
+                <span>
+                  {repository.license.spdx_id ?? repository.license.name}
+                </span>
+              </span>
+            )}
+            <span>Updated {formatDate(repository.updated_at)}</span>
+          </div>
+          {repository.topics && repository.topics.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {repository.topics.map((topic) => (
+                <span
+                  key={topic}
+                  className="px-2 py-1 text-xs bg-secondary text-secondary-foreground rounded-md"
+                >
+                  {topic}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button asChild variant="default" size="sm">
+              <a
+                href={toWebUrl(repository.html_url)}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <ExternalLink className="h-4 w-4 mr-2" />
+                View on GitHub
+              </a>
+            </Button>
+            {repository.homepage && (
+              <Button asChild variant="outline" size="sm">
+                <a
+                  href={repository.homepage}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  Homepage
+                </a>
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Languages */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <Code className="h-5 w-5" />
+              <span>Languages</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-3">
+            {languages.isLoading && <SectionMessage>Loading...</SectionMessage>}
+            {languages.error && (
+              <SectionMessage>{languages.error.message}</SectionMessage>
+            )}
+            {languages.data && languageShares.length === 0 && (
+              <SectionMessage>No languages detected.</SectionMessage>
+            )}
+            {languageShares.length > 0 && (
+              <>
+                <div
+                  className="flex h-2 w-full overflow-hidden rounded-full bg-muted"
+                  role="img"
+                  aria-label={languageShares
+                    .map(
+                      (share) => `${share.name} ${share.percent.toFixed(1)}%`
+                    )
+                    .join(", ")}
+                >
+                  {languageShares.map((share) => (
+                    <div
+                      key={share.name}
+                      style={{
+                        width: `${share.percent}%`,
+                        backgroundColor: share.color,
+                      }}
+                    />
+                  ))}
+                </div>
+                <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                  {languageShares.map((share) => (
+                    <li
+                      key={share.name}
+                      className="flex items-center space-x-1"
+                    >
+                      <span
+                        className="inline-block w-2 h-2 rounded-full"
+                        style={{ backgroundColor: share.color }}
+                      />
+                      <span className="font-medium">{share.name}</span>
+                      <span className="text-muted-foreground">
+                        {share.percent.toFixed(1)}%
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Contributors */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <Users className="h-5 w-5" />
+              <span>Top contributors</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0">
+            {contributors.isLoading && (
+              <SectionMessage>Loading...</SectionMessage>
+            )}
+            {contributors.error && (
+              <SectionMessage>{contributors.error.message}</SectionMessage>
+            )}
+            {contributors.data && contributors.data.length === 0 && (
+              <SectionMessage>No contributors yet.</SectionMessage>
+            )}
+            {contributors.data && contributors.data.length > 0 && (
+              <ul className="space-y-2">
+                {contributors.data.map((contributor) => (
+                  <li key={contributor.id}>
+                    <a
+                      href={toWebUrl(contributor.html_url)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center space-x-2 text-sm hover:text-primary"
+                    >
+                      <img
+                        src={toWebUrl(contributor.avatar_url)}
+                        alt=""
+                        className="w-6 h-6 rounded-full"
+                        loading="lazy"
+                      />
+                      <span className="font-medium">{contributor.login}</span>
+                      <span className="text-muted-foreground">
+                        {contributor.contributions} commits
+                      </span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Releases */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center space-x-2">
+            <Tag className="h-5 w-5" />
+            <span>Latest releases</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {releases.isLoading && <SectionMessage>Loading...</SectionMessage>}
+          {releases.error && (
+            <SectionMessage>{releases.error.message}</SectionMessage>
+          )}
+          {releases.data && releases.data.length === 0 && (
+            <SectionMessage>No releases published.</SectionMessage>
+          )}
+          {releases.data && releases.data.length > 0 && (
+            <ul className="divide-y">
+              {releases.data.map((release) => (
+                <li
+                  key={release.id}
+                  className="flex items-center justify-between py-2 text-sm"
+                >
+                  <a
+                    href={toWebUrl(release.html_url)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium hover:text-primary truncate"
+                  >
+                    {release.name || release.tag_name}
+                  </a>
+                  <span className="flex items-center space-x-2 text-xs text-muted-foreground shrink-0 ml-2">
+                    {release.prerelease && (
+                      <span className="px-2 py-0.5 rounded-md bg-secondary text-secondary-foreground">
+                        Pre-release
+                      </span>
+                    )}
+                    <span>{release.tag_name}</span>
+                    {release.published_at && (
+                      <span>{formatDate(release.published_at)}</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* README */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center space-x-2">
+            <BookOpen className="h-5 w-5" />
+            <span>README</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {readme.isLoading && <SectionMessage>Loading...</SectionMessage>}
+          {readme.error && (
+            <SectionMessage>{readme.error.message}</SectionMessage>
+          )}
+          {readme.data === null && (
+            <SectionMessage>This repository has no README.</SectionMessage>
+          )}
+          {readme.data && (
+            // GitHub renders and sanitizes the Markdown server-side
+            <div
+              className="markdown-body"
+              data-testid="readme"
+              dangerouslySetInnerHTML={{ __html: readme.data }}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
+import { GitHubRepository } from "../types/github";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Star, GitFork, ChevronRight, Calendar, Code } from "lucide-react";
+
+interface RepositoryGridProps {
+  repositories: GitHubRepository[];
+  onSelect: (repository: GitHubRepository) => void;
+  // Title cards "owner/name", for lists that mix several owners
+  showOwner?: boolean;
+}
+
+// Rows have a fixed height so the virtualizer never has to measure cards
+export const ROW_HEIGHT = 240;
+const ROW_GAP = 16;
+
+// Tailwind's md / lg breakpoints: 1, 2 or 3 columns
+const getColumnCount = () =>
+  window.innerWidth >= 1024 ? 3 : window.innerWidth >= 768 ? 2 : 1;
+
+const useColumnCount = () => {
+  const [columns, setColumns] = useState(getColumnCount);
+
+  useEffect(() => {
+    const handleResize = () => setColumns(getColumnCount());
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  return columns;
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+interface RepositoryCardProps {
+  repo: GitHubRepository;
+  index: number;
+  showOwner: boolean;
+  isTabStop: boolean;
+  onSelect: (repository: GitHubRepository) => void;
+  onKeyDown: (e: React.KeyboardEvent, index: number) => void;
+  onFocus: (index: number) => void;
+}
+
+const RepositoryCard: React.FC<RepositoryCardProps> = ({
+  repo,
+  index,
+  showOwner,
+  isTabStop,
+  onSelect,
+  onKeyDown,
+  onFocus,
+}) => (
+  <Card
+    className="group h-full overflow-hidden cursor-pointer hover:shadow-md transition-shadow"
+    onClick={() => onSelect(repo)}
+    onKeyDown={(e) => onKeyDown(e, index)}
+    onFocus={() => onFocus(index)}
+    tabIndex={isTabStop ? 0 : -1}
+    role="button"
+    aria-label={`Open ${showOwner ? repo.full_name : repo.name} repository`}
+    data-repo-index={index}
+  >
+    <CardHeader className="pb-3">
+      <div className="flex items-start justify-between">
+        <CardTitle className="text-lg group-hover:text-primary transition-colors line-clamp-2">
+          {showOwner ? repo.full_name : repo.name}
+        </CardTitle>
+        <ChevronRight className="h-4 w-4 text-muted-foreground group-hover:text-primary transition-colors shrink-0 ml-2" />
+      </div>
+      {repo.description && (
+        <p className="text-sm text-muted-foreground line-clamp-2">
+          {repo.description}
+        </p>
+      )}
+    </CardHeader>
+    <CardContent className="pt-0">
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-1">
+            <Star className="h-3 w-3" />
+            <span>{repo.stargazers_count}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <GitFork className="h-3 w-3" />
+            <span>{repo.forks_count}</span>
+          </div>
+        </div>
+        <div className="flex items-center space-x-1">
+          <Calendar className="h-3 w-3" />
+          <span>{formatDate(repo.updated_at)}</span>
+        </div>
+      </div>
+      {repo.language && (
+        <div className="flex items-center space-x-1 mt-2">
+          <Code className="h-3 w-3" />
+          <span className="text-xs text-muted-foreground">{repo.language}</span>
+        </div>
+      )}
+      {repo.topics && repo.topics.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {repo.topics.slice(0, 3).map((topic) => (
+            <span
+              key={topic}
+              className="px-2 py-1 text-xs bg-secondary text-secondary-foreground rounded-md"
+            >
+              {topic}
+            </span>
+          ))}
+          {repo.topics.length > 3 && (
+            <span className="px-2 py-1 text-xs bg-muted text-muted-foreground rounded-md">
+              +{repo.topics.length - 3}
+            </span>
+          )}
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
+
+// Only the rows near the viewport are mounted, so accounts with thousands of
+// repositories stay responsive. Arrow keys move focus between cards and
+// scroll the target row into view before focusing it.
+export const RepositoryGrid: React.FC<RepositoryGridProps> = ({
+  repositories,
+  onSelect,
+  showOwner = false,
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const columns = useColumnCount();
+  const rowCount = Math.ceil(repositories.length / columns);
+
+  const [scrollMargin, setScrollMargin] = useState(0);
+  useLayoutEffect(() => {
+    const measure = () =>
+      setScrollMargin(
+        (listRef.current?.getBoundingClientRect().top ?? 0) + window.scrollY
+      );
+    measure();
+    window.addEventListener("resize", measure);
+    // Content above the grid (contribution stats, pinned repositories, the
+    // language panel) keeps changing height after mount; any such change
+    // resizes the page, so watching the body catches it
+    const observer =
+      typeof ResizeObserver === "undefined"
+        ? null
+        : new ResizeObserver(measure);
+    observer?.observe(document.body);
+    return () => {
+      window.removeEventListener("resize", measure);
+      observer?.disconnect();
+    };
+  }, []);
+
+  const virtualizer = useWindowVirtualizer({
+    count: rowCount,
+    estimateSize: () => ROW_HEIGHT + ROW_GAP,
+    overscan: 2,
+    scrollMargin,
+    initialRect: { width: window.innerWidth, height: window.innerHeight },
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+
+  const [activeIndex, setActiveIndex] = useState(0);
+  const pendingFocus = useRef<number | null>(null);
+
+  // Roving tab stop; falls back to the first mounted card when the active one
+  // has been scrolled out of the window
+  const firstMounted =
+    virtualRows.length > 0 ? virtualRows[0].index * columns : 0;
+  const lastMounted =
+    virtualRows.length > 0
+      ? (virtualRows[virtualRows.length - 1].index + 1) * columns - 1
+      : 0;
+  const clampedActive = Math.min(activeIndex, repositories.length - 1);
+  const tabStop =
+    clampedActive >= firstMounted && clampedActive <= lastMounted
+      ? clampedActive
+      : firstMounted;
+
+  useEffect(() => {
+    if (pendingFocus.current === null) {
+      return;
+    }
+    const target = listRef.current?.querySelector<HTMLElement>(
+      `[data-repo-index="${pendingFocus.current}"]`
+    );
+    if (target) {
+      target.focus();
+      pendingFocus.current = null;
+    }
+  });
+
+  const handleFocus = useCallback((index: number) => setActiveIndex(index), []);
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      onSelect(repositories[index]);
+      return;
+    }
+
+    const offsets: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -columns,
+      ArrowDown: columns,
+    };
+    let next: number;
+    if (e.key in offsets) {
+      next = index + offsets[e.key];
+    } else if (e.key === "Home") {
+      next = 0;
+    } else if (e.key === "End") {
+      next = repositories.length - 1;
+    } else {
+      return;
+    }
+    e.preventDefault();
+
+    if (next < 0 || next >= repositories.length) {
+      return;
+    }
+    pendingFocus.current = next;
+    setActiveIndex(next);
+    virtualizer.scrollToIndex(Math.floor(next / columns), { align: "auto" });
+  };
+
+  return (
+    <div
+      ref={listRef}
+      className="relative w-full"
+      style={{ height: virtualizer.getTotalSize() }}
+    >
+      {virtualRows.map((row) => (
+        <div
+          key={row.key}
+          className="absolute left-0 top-0 grid w-full gap-4"
+          style={{
+            gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+            height: ROW_HEIGHT,
+            transform: `translateY(${row.start - scrollMargin}px)`,
+          }}
+        >
+          {repositories
+            .slice(row.index * columns, (row.index + 1) * columns)
+            .map((repo, column) => {
+              const index = row.index * columns + column;
+              return (
+                <RepositoryCard
+                  key={repo.id}
+                  repo={repo}
+                  index={index}
+                  showOwner={showOwner}
+                  isTabStop={index === tabStop}
+                  onSelect={onSelect}
+                  onKeyDown={handleKeyDown}
+                  onFocus={handleFocus}
+                />
+              );
+            })}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,54 +1,109 @@
-import React from "react";
-import { GitHubRepository, GitHubUser } from "../types/github";
+import React, { useMemo } from "react";
+import { Link } from "react-router-dom";
+import {
+  GitHubOrganization,
+  GitHubRepository,
+  GitHubUser,
+} from "../types/github";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { UserContributions } from "./UserContributions";
-import { useUserContributionStats } from "../hooks/useGitHubQueries";
+import { RateLimitCountdown } from "./RateLimitCountdown";
+import { RepositoryToolbar } from "./RepositoryToolbar";
+import { RepositoryGrid } from "./RepositoryGrid";
+import { OrganizationMembers } from "./OrganizationMembers";
+import { LanguageAnalytics } from "./LanguageAnalytics";
+import { StarredInsights } from "./StarredInsights";
+import { GistList } from "./GistList";
 import {
-  Star,
-  GitFork,
-  ExternalLink,
-  Calendar,
-  Code,
+  useUserContributionStats,
+  useUserOverview,
+} from "../hooks/useGitHubQueries";
+import { useWebUrl } from "../hooks/useWebUrl";
+import { useRepositoryFilters } from "../hooks/useRepositoryFilters";
+import { useAuthStore } from "../store/useAuthStore";
+import { PaginationProgress } from "../services/pagination";
+import { cn } from "../lib/utils";
+import {
+  userGistsPath,
+  userNetworkPath,
+  userPath,
+  userStarredPath,
+} from "../services/routes";
+import {
+  applyRepositoryFilters,
+  getFilterOptions,
+} from "../services/repositoryFilters";
+import {
+  BadgeCheck,
+  BookMarked,
   ChevronUp,
+  FileCode,
+  Link as LinkIcon,
+  MapPin,
+  Pin,
+  Star,
 } from "lucide-react";
 
+// Users have tabs for the repositories they've starred and their gists next
+// to their own repositories
+export type RepositoryListTab = "repositories" | "starred" | "gists";
+
 interface RepositoryListProps {
   user: GitHubUser;
+  // Switches the header to the organization variant, with members instead of
+  // contributions
+  organization?: GitHubOrganization;
+  tab?: RepositoryListTab;
+  // The active tab's repositories; the gists tab loads its own data
   repositories: GitHubRepository[];
   onBackToUsers: () => void;
+  onRepositorySelect: (repository: GitHubRepository) => void;
   isLoading?: boolean;
+  loadingProgress?: PaginationProgress | null;
   error?: string | null;
+  rateLimitResetAt?: Date | null;
 }
 
 export const RepositoryList: React.FC<RepositoryListProps> = ({
   user,
+  organization,
+  tab = "repositories",
   repositories,
   onBackToUsers,
+  onRepositorySelect,
   isLoading = false,
+  loadingProgress,
   error,
+  rateLimitResetAt,
 }) => {
+  const toWebUrl = useWebUrl();
+  const isAuthenticated = useAuthStore((state) => !!state.token);
+
+  // Pinned repositories are only available through GraphQL (needs a token)
+  const { data: overview } = useUserOverview(
+    user.login,
+    isAuthenticated && !organization
+  );
+  const pinnedRepositories = overview?.pinnedRepositories ?? [];
+
   // Fetch contribution statistics
   const {
     data: contributionStats,
     isLoading: isLoadingContributions,
     error: contributionsError,
-  } = useUserContributionStats(user.login, true);
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-    });
-  };
+  } = useUserContributionStats(user.login, !organization);
 
-  const handleKeyDown = (e: React.KeyboardEvent, url: string) => {
-    if (e.key === "Enter" || e.key === " ") {
-      e.preventDefault();
-      window.open(url, "_blank", "noopener,noreferrer");
-    }
-  };
+  const isStarred = tab === "starred";
+  const { filters, updateFilters, resetFilters } = useRepositoryFilters();
+  const filteredRepositories = useMemo(
+    () => applyRepositoryFilters(repositories, filters),
+    [repositories, filters]
+  );
+  const filterOptions = useMemo(
+    () => getFilterOptions(repositories, filters),
+    [repositories, filters]
+  );
 
   const handleBackKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" || e.key === " ") {
@@ -65,33 +120,47 @@ export const RepositoryList: React.FC<RepositoryListProps> = ({
           <div className="flex flex-col space-y-4 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
             <div className="flex items-center space-x-4">
               <img
-                src={user.avatar_url}
+                src={toWebUrl(user.avatar_url)}
                 alt={`${user.login}'s avatar`}
                 className="w-16 h-16 rounded-full"
                 loading="lazy"
               />
-              <div>
-                <CardTitle className="text-xl">{user.login}</CardTitle>
-                {user.name && (
-                  <p className="text-muted-foreground">{user.name}</p>
-                )}
-                {user.bio && (
-                  <p className="text-sm text-muted-foreground mt-1">
-                    {user.bio}
-                  </p>
-                )}
-                <div className="flex items-center space-x-4 mt-2 text-sm text-muted-foreground">
-                  {user.public_repos !== undefined && (
-                    <span>{user.public_repos} repositories</span>
+              {organization ? (
+                <OrganizationDetails organization={organization} />
+              ) : (
+                <div>
+                  <CardTitle className="text-xl">{user.login}</CardTitle>
+                  {user.name && (
+                    <p className="text-muted-foreground">{user.name}</p>
                   )}
-                  {user.followers !== undefined && (
-                    <span>{user.followers} followers</span>
-                  )}
-                  {user.following !== undefined && (
-                    <span>{user.following} following</span>
+                  {user.bio && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {user.bio}
+                    </p>
                   )}
+                  <div className="flex items-center space-x-4 mt-2 text-sm text-muted-foreground">
+                    {user.public_repos !== undefined && (
+                      <span>{user.public_repos} repositories</span>
+                    )}
+                    {user.followers !== undefined && (
+                      <Link
+                        to={userNetworkPath(user.login, "followers")}
+                        className="hover:text-primary"
+                      >
+                        {user.followers} followers
+                      </Link>
+                    )}
+                    {user.following !== undefined && (
+                      <Link
+                        to={userNetworkPath(user.login, "following")}
+                        className="hover:text-primary"
+                      >
+                        {user.following} following
+                      </Link>
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
             <Button
               variant="outline"
@@ -106,9 +175,43 @@ export const RepositoryList: React.FC<RepositoryListProps> = ({
         </CardHeader>
       </Card>
 
+      {/* Pinned Repositories */}
+      {pinnedRepositories.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <Pin className="h-5 w-5" />
+              <span>Pinned</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <div className="grid gap-2 sm:grid-cols-2">
+              {pinnedRepositories.map((repo) => (
+                <a
+                  key={repo.id}
+                  href={toWebUrl(repo.html_url)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center justify-between p-2 rounded-md bg-muted/50 hover:bg-muted transition-colors text-sm"
+                >
+                  <span className="font-medium truncate">{repo.name}</span>
+                  <span className="flex items-center space-x-1 text-muted-foreground shrink-0 ml-2">
+                    <Star className="h-3 w-3" />
+                    <span>{repo.stargazers_count}</span>
+                  </span>
+                </a>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {organization && <OrganizationMembers org={organization.login} />}
+
       {/* User Contributions Section */}
       {contributionStats && (
         <UserContributions
+          key={user.login}
           stats={contributionStats}
           isLoading={isLoadingContributions}
           error={contributionsError?.message || null}
@@ -124,6 +227,9 @@ export const RepositoryList: React.FC<RepositoryListProps> = ({
             totalIssues: 0,
             totalRepositories: 0,
             recentActivity: [],
+            source: "events",
+            coverageStart: null,
+            calendar: null,
           }}
           isLoading={true}
         />
@@ -138,119 +244,226 @@ export const RepositoryList: React.FC<RepositoryListProps> = ({
             totalIssues: 0,
             totalRepositories: 0,
             recentActivity: [],
+            source: "events",
+            coverageStart: null,
+            calendar: null,
           }}
           error={contributionsError.message}
         />
       )}
 
-      {/* Repositories */}
-      {isLoading && (
-        <Card>
-          <CardContent className="p-8">
-            <div className="flex items-center justify-center space-x-2">
-              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
-              <span className="text-muted-foreground">
-                Loading repositories...
-              </span>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {error && (
-        <Card className="border-destructive">
-          <CardContent className="p-8">
-            <div className="text-center">
-              <p className="text-destructive">{error}</p>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {!isLoading && !error && repositories.length === 0 && (
-        <Card>
-          <CardContent className="p-8">
-            <div className="text-center text-muted-foreground">
-              No public repositories found for this user.
-            </div>
-          </CardContent>
-        </Card>
-      )}
+      {!organization && <RepositoryTabs login={user.login} active={tab} />}
 
-      {!isLoading && !error && repositories.length > 0 && (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {repositories.map((repo) => (
-            <Card
-              key={repo.id}
-              className="group cursor-pointer hover:shadow-md transition-shadow"
-              onClick={() =>
-                window.open(repo.html_url, "_blank", "noopener,noreferrer")
-              }
-              onKeyDown={(e) => handleKeyDown(e, repo.html_url)}
-              tabIndex={0}
-              role="button"
-              aria-label={`Open ${repo.name} repository`}
-            >
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between">
-                  <CardTitle className="text-lg group-hover:text-primary transition-colors line-clamp-2">
-                    {repo.name}
-                  </CardTitle>
-                  <ExternalLink className="h-4 w-4 text-muted-foreground group-hover:text-primary transition-colors shrink-0 ml-2" />
-                </div>
-                {repo.description && (
-                  <p className="text-sm text-muted-foreground line-clamp-3">
-                    {repo.description}
-                  </p>
-                )}
-              </CardHeader>
-              <CardContent className="pt-0">
-                <div className="flex items-center justify-between text-sm text-muted-foreground">
-                  <div className="flex items-center space-x-4">
-                    <div className="flex items-center space-x-1">
-                      <Star className="h-3 w-3" />
-                      <span>{repo.stargazers_count}</span>
-                    </div>
-                    <div className="flex items-center space-x-1">
-                      <GitFork className="h-3 w-3" />
-                      <span>{repo.forks_count}</span>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <Calendar className="h-3 w-3" />
-                    <span>{formatDate(repo.updated_at)}</span>
-                  </div>
-                </div>
-                {repo.language && (
-                  <div className="flex items-center space-x-1 mt-2">
-                    <Code className="h-3 w-3" />
-                    <span className="text-xs text-muted-foreground">
-                      {repo.language}
+      {tab === "gists" ? (
+        <GistList login={user.login} />
+      ) : (
+        <>
+          {/* Repositories */}
+          {isLoading && (
+            <Card>
+              <CardContent className="p-8">
+                <div className="flex items-center justify-center space-x-2">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
+                  <span className="text-muted-foreground">
+                    {isStarred
+                      ? "Loading starred repositories..."
+                      : "Loading repositories..."}
+                  </span>
+                  {loadingProgress && loadingProgress.totalPages !== null && (
+                    <span className="text-sm text-muted-foreground">
+                      (page {loadingProgress.page} of{" "}
+                      {loadingProgress.totalPages},{" "}
+                      {loadingProgress.itemsLoaded} loaded)
                     </span>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="p-8">
+                {rateLimitResetAt ? (
+                  <RateLimitCountdown resetAt={rateLimitResetAt} />
+                ) : (
+                  <div className="text-center">
+                    <p className="text-destructive">{error}</p>
                   </div>
                 )}
-                {repo.topics && repo.topics.length > 0 && (
-                  <div className="flex flex-wrap gap-1 mt-2">
-                    {repo.topics.slice(0, 3).map((topic) => (
-                      <span
-                        key={topic}
-                        className="px-2 py-1 text-xs bg-secondary text-secondary-foreground rounded-md"
-                      >
-                        {topic}
-                      </span>
-                    ))}
-                    {repo.topics.length > 3 && (
-                      <span className="px-2 py-1 text-xs bg-muted text-muted-foreground rounded-md">
-                        +{repo.topics.length - 3}
-                      </span>
-                    )}
-                  </div>
-                )}
               </CardContent>
             </Card>
-          ))}
-        </div>
+          )}
+
+          {!isLoading && !error && repositories.length === 0 && (
+            <Card>
+              <CardContent className="p-8">
+                <div className="text-center text-muted-foreground">
+                  {isStarred
+                    ? `${user.login} hasn't starred any repositories yet.`
+                    : `No public repositories found for this ${
+                        organization ? "organization" : "user"
+                      }.`}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {!isLoading &&
+            !error &&
+            repositories.length > 0 &&
+            (isStarred ? (
+              <StarredInsights
+                repositories={repositories}
+                selectedLanguage={filters.language}
+                selectedTopic={filters.topic}
+                onLanguageSelect={(language) => updateFilters({ language })}
+                onTopicSelect={(topic) => updateFilters({ topic })}
+              />
+            ) : (
+              <LanguageAnalytics
+                repositories={repositories}
+                selectedLanguage={filters.language}
+                onLanguageSelect={(language) => updateFilters({ language })}
+              />
+            ))}
+
+          {!isLoading && !error && repositories.length > 0 && (
+            <RepositoryToolbar
+              filters={filters}
+              onChange={updateFilters}
+              onReset={resetFilters}
+              languages={filterOptions.languages}
+              topics={filterOptions.topics}
+              resultCount={filteredRepositories.length}
+              totalCount={repositories.length}
+            />
+          )}
+
+          {!isLoading &&
+            !error &&
+            repositories.length > 0 &&
+            filteredRepositories.length === 0 && (
+              <Card>
+                <CardContent className="p-8">
+                  <div className="text-center text-muted-foreground">
+                    No repositories match these filters.
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+          {!isLoading && !error && filteredRepositories.length > 0 && (
+            <RepositoryGrid
+              repositories={filteredRepositories}
+              onSelect={onRepositorySelect}
+              showOwner={isStarred}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const tabClassName = (isActive: boolean) =>
+  cn(
+    "flex items-center space-x-2 px-3 py-1.5 text-sm rounded-md transition-colors",
+    isActive
+      ? "bg-secondary text-secondary-foreground font-medium"
+      : "text-muted-foreground hover:text-foreground"
+  );
+
+// Both /users/:login and /users/:login/repos show the owned repositories, so
+// the active tab comes from the page rather than NavLink's path matching
+const RepositoryTabs: React.FC<{
+  login: string;
+  active: RepositoryListTab;
+}> = ({ login, active }) => (
+  <nav className="flex space-x-2 mb-4" aria-label="Repository lists">
+    <Link
+      to={userPath(login)}
+      className={tabClassName(active === "repositories")}
+      aria-current={active === "repositories" ? "page" : undefined}
+    >
+      <BookMarked className="h-4 w-4" />
+      <span>Repositories</span>
+    </Link>
+    <Link
+      to={userStarredPath(login)}
+      className={tabClassName(active === "starred")}
+      aria-current={active === "starred" ? "page" : undefined}
+    >
+      <Star className="h-4 w-4" />
+      <span>Starred</span>
+    </Link>
+    <Link
+      to={userGistsPath(login)}
+      className={tabClassName(active === "gists")}
+      aria-current={active === "gists" ? "page" : undefined}
+    >
+      <FileCode className="h-4 w-4" />
+      <span>Gists</span>
+    </Link>
+  </nav>
+);
+
+// Organizations often enter their blog without a scheme
+const toBlogUrl = (blog: string) =>
+  /^https?:\/\//i.test(blog) ? blog : `https://${blog}`;
+
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+const OrganizationDetails: React.FC<{ organization: GitHubOrganization }> = ({
+  organization,
+}) => {
+  const blogUrl = organization.blog && toBlogUrl(organization.blog);
+
+  return (
+    <div>
+      <CardTitle className="text-xl">
+        {organization.name || organization.login}
+      </CardTitle>
+      {organization.name && (
+        <p className="text-muted-foreground">{organization.login}</p>
+      )}
+      {organization.description && (
+        <p className="text-sm text-muted-foreground mt-1">
+          {organization.description}
+        </p>
       )}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-sm text-muted-foreground">
+        <span>{organization.public_repos} repositories</span>
+        {organization.location && (
+          <span className="flex items-center space-x-1">
+            <MapPin className="h-3 w-3" />
+            <span>{organization.location}</span>
+          </span>
+        )}
+        {blogUrl && (
+          <a
+            href={blogUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center space-x-1 hover:text-primary"
+          >
+            <LinkIcon className="h-3 w-3" />
+            <span>{getHostname(blogUrl)}</span>
+          </a>
+        )}
+        {organization.is_verified && (
+          <span className="flex items-center space-x-1 px-2 py-0.5 rounded-md bg-secondary text-secondary-foreground">
+            <BadgeCheck className="h-3 w-3" />
+            <span>Verified</span>
+          </span>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,20 @@
+import React from "react";
+import { useParams } from "react-router-dom";
+import { RepositoryDetail } from "./RepositoryDetail";
+import { useHistoryBack } from "../hooks/useHistoryBack";
+import { userRepositoriesPath } from "../services/routes";
+
+// /repos/:owner/:repo
+export const RepositoryPage: React.FC = () => {
+  const { owner = "", repo = "" } = useParams();
+  const handleBack = useHistoryBack(userRepositoriesPath(owner));
+
+  return (
+    <RepositoryDetail
+      key={`${owner}/${repo}`}
+      owner={owner}
+      name={repo}
+      onBack={handleBack}
+    />
+  );
+};
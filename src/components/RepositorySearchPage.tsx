@@ -0,0 +1,153 @@
+import React from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { SearchForm } from "./SearchForm";
+import { SearchTabs } from "./SearchTabs";
+import { RepositoryGrid } from "./RepositoryGrid";
+import {
+  describeSearchRange,
+  IncompleteResultsNotice,
+  SearchPagination,
+} from "./SearchPagination";
+import { RateLimitCountdown } from "./RateLimitCountdown";
+import { Card, CardContent } from "./ui/card";
+import { useSearchRepositories } from "../hooks/useGitHubQueries";
+import { getRateLimitResetAt } from "../services/errors";
+import { cn } from "../lib/utils";
+import { repositorySearchPath, userRepositoriesPath } from "../services/routes";
+import { parseSearchPaging } from "../services/searchPaging";
+import { BEST_MATCH, SearchSorting } from "../services/searchQuery";
+import { parseRepositorySearchSorting } from "../services/repositorySearchQuery";
+import { GitHubRepository } from "../types/github";
+
+// /search/repositories?q=…&page=…&per_page=…&sort=…&order=…
+export const RepositorySearchPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const searchQuery = searchParams.get("q") ?? "";
+  const paging = parseSearchPaging(searchParams);
+  const sorting = parseRepositorySearchSorting(searchParams);
+
+  const {
+    data: searchResults,
+    isLoading,
+    isPlaceholderData: isChangingPage,
+    error,
+    isFetched,
+  } = useSearchRepositories(searchQuery, paging.page, paging.perPage, sorting);
+  const repositories = searchResults?.items ?? [];
+
+  // A new search starts over at the first page but keeps the page size
+  const handleSearch = (
+    query: string,
+    nextSorting: SearchSorting = BEST_MATCH
+  ) => {
+    navigate(
+      repositorySearchPath(
+        query,
+        { page: 1, perPage: paging.perPage },
+        nextSorting
+      )
+    );
+  };
+
+  const resultsPaging = searchResults && {
+    ...paging,
+    totalCount: searchResults.total_count,
+    incompleteResults: searchResults.incomplete_results,
+    onPageChange: (page: number) =>
+      navigate(repositorySearchPath(searchQuery, { ...paging, page }, sorting)),
+    onPerPageChange: (perPage: number) =>
+      navigate(
+        repositorySearchPath(searchQuery, { page: 1, perPage }, sorting)
+      ),
+    isChangingPage,
+  };
+
+  // Open the owner's repositories, narrowed down to the one that was clicked
+  const handleRepositorySelect = (repository: GitHubRepository) => {
+    const [owner] = repository.full_name.split("/");
+    navigate(userRepositoriesPath(owner, { query: repository.name }));
+    window.scrollTo(0, 0);
+  };
+
+  const rateLimitResetAt = getRateLimitResetAt(error);
+  const shouldShowNoResultsMessage =
+    !isLoading &&
+    isFetched &&
+    searchQuery.trim().length > 0 &&
+    repositories.length === 0 &&
+    !error;
+
+  return (
+    <div className="space-y-6">
+      <SearchTabs />
+      <SearchForm
+        mode="repositories"
+        onSearch={handleSearch}
+        isLoading={isLoading}
+        placeholder="Enter repository name or keywords"
+        initialQuery={searchQuery}
+        initialSorting={sorting}
+      />
+
+      {isLoading && (
+        <Card className="w-full max-w-md mx-auto">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-center space-x-2">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary" />
+              <span className="text-sm text-muted-foreground">
+                Searching repositories...
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {(error || shouldShowNoResultsMessage) && (
+        <Card className="w-full max-w-md mx-auto border-destructive">
+          <CardContent className="p-4">
+            {rateLimitResetAt ? (
+              <RateLimitCountdown resetAt={rateLimitResetAt} />
+            ) : (
+              <div className="text-center">
+                <p className="text-sm text-destructive">
+                  {error?.message ??
+                    `No repositories found for "${searchQuery}". Try different keywords or fewer qualifiers.`}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {resultsPaging && repositories.length > 0 && (
+        <div className="space-y-4">
+          <Card>
+            <CardContent className="p-0">
+              <div className="text-sm text-muted-foreground px-4 py-2 border-b">
+                {describeSearchRange(resultsPaging, repositories.length, [
+                  "repository",
+                  "repositories",
+                ])}
+              </div>
+              {resultsPaging.incompleteResults && (
+                <IncompleteResultsNotice plural="repositories" />
+              )}
+              <SearchPagination paging={resultsPaging} plural="repositories" />
+            </CardContent>
+          </Card>
+          <div
+            className={cn(isChangingPage && "opacity-60")}
+            aria-busy={isChangingPage || undefined}
+          >
+            <RepositoryGrid
+              repositories={repositories}
+              onSelect={handleRepositorySelect}
+              showOwner
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from "react";
+import { Input } from "./ui/input";
+import { NativeSelect } from "./ui/native-select";
+import { Button } from "./ui/button";
+import {
+  ArchivedFilter,
+  FilterOption,
+  hasActiveFilters,
+  RepositoryFilters,
+  RepositorySort,
+  RepositoryTypeFilter,
+} from "../services/repositoryFilters";
+
+interface RepositoryToolbarProps {
+  filters: RepositoryFilters;
+  onChange: (changes: Partial<RepositoryFilters>) => void;
+  onReset: () => void;
+  languages: FilterOption[];
+  topics: FilterOption[];
+  resultCount: number;
+  totalCount: number;
+}
+
+export const RepositoryToolbar: React.FC<RepositoryToolbarProps> = ({
+  filters,
+  onChange,
+  onReset,
+  languages,
+  topics,
+  resultCount,
+  totalCount,
+}) => {
+  return (
+    <div className="mb-4 space-y-3" role="search">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          type="search"
+          value={filters.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+          placeholder="Find a repository..."
+          aria-label="Search repositories"
+        />
+        <NativeSelect
+          value={filters.sort}
+          onChange={(e) => onChange({ sort: e.target.value as RepositorySort })}
+          aria-label="Sort repositories"
+        >
+          <option value="updated">Recently updated</option>
+          <option value="stars">Most stars</option>
+          <option value="forks">Most forks</option>
+          <option value="name">Name</option>
+        </NativeSelect>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <NativeSelect
+          value={filters.language ?? ""}
+          onChange={(e) => onChange({ language: e.target.value || null })}
+          aria-label="Filter by language"
+        >
+          <option value="">All languages</option>
+          {languages.map(({ value, count }) => (
+            <option key={value} value={value}>
+              {value} ({count})
+            </option>
+          ))}
+        </NativeSelect>
+        <NativeSelect
+          value={filters.type}
+          onChange={(e) =>
+            onChange({ type: e.target.value as RepositoryTypeFilter })
+          }
+          aria-label="Filter by type"
+        >
+          <option value="all">Sources and forks</option>
+          <option value="sources">Sources only</option>
+          <option value="forks">Forks only</option>
+        </NativeSelect>
+        <NativeSelect
+          value={filters.archived}
+          onChange={(e) =>
+            onChange({ archived: e.target.value as ArchivedFilter })
+          }
+          aria-label="Filter archived repositories"
+        >
+          <option value="all">Include archived</option>
+          <option value="exclude">Hide archived</option>
+          <option value="only">Archived only</option>
+        </NativeSelect>
+        {topics.length > 0 && (
+          <NativeSelect
+            value={filters.topic ?? ""}
+            onChange={(e) => onChange({ topic: e.target.value || null })}
+            aria-label="Filter by topic"
+          >
+            <option value="">All topics</option>
+            {topics.map(({ value, count }) => (
+              <option key={value} value={value}>
+                {value} ({count})
+              </option>
+            ))}
+          </NativeSelect>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span aria-live="polite">
+          Showing {resultCount} of {totalCount} repositories
+        </span>
+        {hasActiveFilters(filters) && (
+          <Button variant="ghost" size="sm" onClick={onReset}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
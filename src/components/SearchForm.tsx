@@ -1,33 +1,59 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Input } from "./ui/input";
 import { Button } from "./ui/button";
+import { NativeSelect } from "./ui/native-select";
+import { SEARCH_MODES, SearchMode } from "./SearchQualifiers";
+import { BEST_MATCH, SearchSorting } from "../services/searchQuery";
 import { Search } from "lucide-react";
 
 interface SearchFormProps {
-  onSearch: (query: string) => void;
+  onSearch: (query: string, sorting?: SearchSorting) => void;
   isLoading?: boolean;
   placeholder?: string;
+  initialQuery?: string;
+  initialSorting?: SearchSorting;
+  // Which search API's qualifiers and sort orders the form offers
+  mode?: SearchMode;
 }
 
+const sortingValue = ({ sort, order }: SearchSorting) =>
+  sort ? `${sort}-${order}` : "";
+
 export const SearchForm: React.FC<SearchFormProps> = ({
   onSearch,
   isLoading = false,
   placeholder = "Enter username",
+  initialQuery = "",
+  initialSorting = BEST_MATCH,
+  mode = "users",
 }) => {
-  const [username, setUsername] = useState("");
+  const { validate, hasQualifiers, sortOptions, Builder } = SEARCH_MODES[mode];
+  const [username, setUsername] = useState(initialQuery);
   const [error, setError] = useState<string | null>(null);
   const [touched, setTouched] = useState(false);
+  const [isAdvanced, setIsAdvanced] = useState(
+    () => hasQualifiers(initialQuery) || !!initialSorting.sort
+  );
+  const [sorting, setSorting] = useState(initialSorting);
 
-  const validateUsername = (value: string) => {
-    if (!value.trim()) return "Username is required";
-    if (value.length > 39) return "Username must be less than 40 characters";
-    return null;
-  };
+  // Follow the URL when back/forward lands on a different search
+  const { sort: initialSort, order: initialOrder } = initialSorting;
+  useEffect(() => {
+    setUsername(initialQuery);
+    setError(null);
+    if (hasQualifiers(initialQuery)) {
+      setIsAdvanced(true);
+    }
+  }, [initialQuery, hasQualifiers]);
+
+  useEffect(() => {
+    setSorting({ sort: initialSort, order: initialOrder });
+  }, [initialSort, initialOrder]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const trimmedUsername = username.trim();
-    const validationError = validateUsername(trimmedUsername);
+    const validationError = validate(trimmedUsername);
 
     if (validationError) {
       setError(validationError);
@@ -36,7 +62,11 @@ export const SearchForm: React.FC<SearchFormProps> = ({
     }
 
     setError(null);
-    onSearch(trimmedUsername);
+    if (isAdvanced) {
+      onSearch(trimmedUsername, sorting);
+    } else {
+      onSearch(trimmedUsername);
+    }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -50,14 +80,14 @@ export const SearchForm: React.FC<SearchFormProps> = ({
 
     // Validate on change if touched
     if (touched) {
-      const validationError = validateUsername(value);
+      const validationError = validate(value);
       setError(validationError);
     }
   };
 
   const handleBlur = () => {
     setTouched(true);
-    const validationError = validateUsername(username);
+    const validationError = validate(username);
     setError(validationError);
   };
 
@@ -68,6 +98,12 @@ export const SearchForm: React.FC<SearchFormProps> = ({
     }
   };
 
+  // The builder edits the query text itself, so the two never disagree
+  const handleQualifiersChange = (value: string) => {
+    setUsername(value);
+    setError(touched ? validate(value) : null);
+  };
+
   return (
     <div className="w-full max-w-md mx-auto">
       <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
@@ -106,6 +142,50 @@ export const SearchForm: React.FC<SearchFormProps> = ({
           )}
         </Button>
       </form>
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          className="px-0"
+          role="switch"
+          aria-checked={isAdvanced}
+          onClick={() => setIsAdvanced((current) => !current)}
+        >
+          Advanced
+        </Button>
+      </div>
+
+      {isAdvanced && (
+        <fieldset
+          className="grid grid-cols-1 sm:grid-cols-2 gap-3 rounded-md border p-3"
+          disabled={isLoading}
+        >
+          <legend className="px-1 text-sm font-medium">Qualifiers</legend>
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">Sort by</span>
+            <NativeSelect
+              className="w-full"
+              value={sortingValue(sorting)}
+              onChange={(e) =>
+                setSorting(
+                  sortOptions.find(
+                    (option) => sortingValue(option.sorting) === e.target.value
+                  )?.sorting ?? BEST_MATCH
+                )
+              }
+            >
+              {sortOptions.map((option) => (
+                <option key={option.label} value={sortingValue(option.sorting)}>
+                  {option.label}
+                </option>
+              ))}
+            </NativeSelect>
+          </label>
+          <Builder query={username} onChange={handleQualifiersChange} />
+        </fieldset>
+      )}
     </div>
   );
 };
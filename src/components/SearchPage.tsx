@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { SearchForm } from "./SearchForm";
+import { SearchTabs } from "./SearchTabs";
+import { UserList } from "./UserList";
+import { Button } from "./ui/button";
+import { useSearchUsers } from "../hooks/useGitHubQueries";
+import { getRateLimitResetAt } from "../services/errors";
+import { accountPath, comparePath, searchPath } from "../services/routes";
+import { parseSearchPaging } from "../services/searchPaging";
+import { BEST_MATCH, SearchSorting } from "../services/searchQuery";
+import { parseUserSearchSorting } from "../services/userSearchQuery";
+import {
+  MAX_COMPARED_USERS,
+  MIN_COMPARED_USERS,
+} from "../services/userComparison";
+import { GitHubUser } from "../types/github";
+import { Columns } from "lucide-react";
+
+// /search?q=…&page=…&per_page=…&sort=…&order=…
+export const SearchPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const searchQuery = searchParams.get("q") ?? "";
+  const paging = parseSearchPaging(searchParams);
+  const sorting = parseUserSearchSorting(searchParams);
+
+  // Search users query
+  const {
+    data: searchResults,
+    isLoading: isSearchingUsers,
+    isPlaceholderData: isChangingPage,
+    error: searchError,
+    isFetched,
+  } = useSearchUsers(searchQuery, paging.page, paging.perPage, sorting);
+  const users = searchResults?.items ?? [];
+
+  // Users picked for comparison stay picked across pages and searches
+  const [comparedUsers, setComparedUsers] = useState<string[]>([]);
+  // Logins are case-insensitive, as UserList treats them
+  const handleCompareToggle = (user: GitHubUser) => {
+    const key = user.login.toLowerCase();
+    setComparedUsers((current) =>
+      current.some((login) => login.toLowerCase() === key)
+        ? current.filter((login) => login.toLowerCase() !== key)
+        : [...current, user.login]
+    );
+  };
+
+  // A new search starts over at the first page but keeps the page size
+  const handleSearch = (
+    query: string,
+    nextSorting: SearchSorting = BEST_MATCH
+  ) => {
+    navigate(
+      searchPath(query, { page: 1, perPage: paging.perPage }, nextSorting)
+    );
+  };
+
+  const handlePageChange = (page: number) => {
+    navigate(searchPath(searchQuery, { ...paging, page }, sorting));
+  };
+
+  const handlePerPageChange = (perPage: number) => {
+    navigate(searchPath(searchQuery, { page: 1, perPage }, sorting));
+  };
+
+  // The search result doubles as a placeholder until the full profile loads
+  const handleUserSelect = (user: GitHubUser) => {
+    navigate(accountPath(user), { state: { user } });
+  };
+
+  // Determine if we should show "no users found" message
+  const shouldShowNoUsersMessage =
+    !isSearchingUsers &&
+    isFetched &&
+    searchQuery.trim().length > 0 &&
+    users.length === 0 &&
+    !searchError;
+
+  // Prepare error message for UserList
+  const userListError =
+    searchError?.message ||
+    (shouldShowNoUsersMessage
+      ? `No users found for "${searchQuery}". Try a different username or check the spelling.`
+      : null);
+
+  return (
+    <div className="space-y-6">
+      <SearchTabs />
+      <SearchForm
+        onSearch={handleSearch}
+        isLoading={isSearchingUsers}
+        placeholder="Enter username to search"
+        initialQuery={searchQuery}
+        initialSorting={sorting}
+      />
+
+      <UserList
+        users={users}
+        onUserSelect={handleUserSelect}
+        isLoading={isSearchingUsers}
+        error={userListError}
+        rateLimitResetAt={getRateLimitResetAt(searchError)}
+        comparison={{
+          selected: comparedUsers,
+          onToggle: handleCompareToggle,
+          max: MAX_COMPARED_USERS,
+        }}
+        paging={
+          searchResults && {
+            ...paging,
+            totalCount: searchResults.total_count,
+            incompleteResults: searchResults.incomplete_results,
+            onPageChange: handlePageChange,
+            onPerPageChange: handlePerPageChange,
+            isChangingPage,
+          }
+        }
+      />
+
+      {comparedUsers.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Comparing {comparedUsers.join(", ")}
+          </span>
+          <Button
+            size="sm"
+            disabled={comparedUsers.length < MIN_COMPARED_USERS}
+            onClick={() => navigate(comparePath(comparedUsers))}
+          >
+            <Columns className="h-4 w-4 mr-2" />
+            Compare {comparedUsers.length} users
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setComparedUsers([])}
+          >
+            Clear
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { NativeSelect } from "./ui/native-select";
+import {
+  getSearchPageCount,
+  SEARCH_PAGE_SIZES,
+  SEARCH_RESULT_LIMIT,
+} from "../services/searchPaging";
+import { AlertTriangle } from "lucide-react";
+
+export interface SearchResultsPaging {
+  page: number;
+  perPage: number;
+  totalCount: number;
+  incompleteResults: boolean;
+  onPageChange: (page: number) => void;
+  onPerPageChange: (perPage: number) => void;
+  // A new page is loading while the current one stays on screen
+  isChangingPage?: boolean;
+}
+
+// Singular and plural name of what is being searched, e.g. ["user", "users"]
+export type SearchResultNoun = [string, string];
+
+const formatCount = (count: number) => count.toLocaleString("en-US");
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+export const describeSearchRange = (
+  { page, perPage, totalCount }: SearchResultsPaging,
+  shown: number,
+  [singular, plural]: SearchResultNoun
+) => {
+  const first = (page - 1) * perPage + 1;
+  const last = first + shown - 1;
+  const capped =
+    totalCount > SEARCH_RESULT_LIMIT
+      ? ` (GitHub only serves the first ${formatCount(SEARCH_RESULT_LIMIT)})`
+      : "";
+  return `Showing ${formatCount(first)}–${formatCount(last)} of ${formatCount(
+    totalCount
+  )} ${totalCount === 1 ? singular : plural}${capped}`;
+};
+
+export const IncompleteResultsNotice: React.FC<{ plural: string }> = ({
+  plural,
+}) => (
+  <div
+    className="flex items-start space-x-2 px-4 py-2 border-b bg-secondary text-sm text-secondary-foreground"
+    role="status"
+  >
+    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+    <span>
+      GitHub timed out before finishing this search, so some matching {plural}{" "}
+      may be missing.
+    </span>
+  </div>
+);
+
+export const SearchPagination: React.FC<{
+  paging: SearchResultsPaging;
+  plural: string;
+}> = ({ paging, plural }) => {
+  const {
+    page,
+    perPage,
+    totalCount,
+    onPageChange,
+    onPerPageChange,
+    isChangingPage,
+  } = paging;
+  const pageCount = getSearchPageCount(totalCount, perPage);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 border-t text-sm">
+      <label className="flex items-center space-x-2 text-muted-foreground">
+        <span>{capitalize(plural)} per page</span>
+        <NativeSelect
+          className="h-8 px-2"
+          value={perPage}
+          onChange={(e) => onPerPageChange(Number(e.target.value))}
+        >
+          {SEARCH_PAGE_SIZES.map((size) => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </NativeSelect>
+      </label>
+      {pageCount > 1 && (
+        <nav className="flex items-center space-x-2" aria-label="Pagination">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1 || isChangingPage}
+          >
+            Previous page
+          </Button>
+          <span className="text-muted-foreground" aria-current="page">
+            Page {page} of {formatCount(pageCount)}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= pageCount || isChangingPage}
+          >
+            Next page
+          </Button>
+        </nav>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import React from "react";
+import { Input } from "./ui/input";
+import { NativeSelect } from "./ui/native-select";
+import {
+  BEST_MATCH,
+  formatDateRange,
+  parseDateRange,
+  SearchSorting,
+} from "../services/searchQuery";
+import {
+  buildUserSearchQuery,
+  hasUserQualifiers,
+  parseUserSearchQuery,
+  USER_SEARCH_FIELDS,
+  UserSearchField,
+  UserSearchType,
+  validateUserSearchQuery,
+} from "../services/userSearchQuery";
+import {
+  buildRepositorySearchQuery,
+  hasRepositoryQualifiers,
+  parseRepositorySearchQuery,
+  validateRepositorySearchQuery,
+} from "../services/repositorySearchQuery";
+
+export type SearchMode = "users" | "repositories";
+
+interface QualifierBuilderProps {
+  query: string;
+  onChange: (query: string) => void;
+}
+
+interface SortOption {
+  label: string;
+  sorting: SearchSorting;
+}
+
+interface SearchModeConfig {
+  validate: (query: string) => string | null;
+  hasQualifiers: (query: string) => boolean;
+  sortOptions: SortOption[];
+  Builder: React.FC<QualifierBuilderProps>;
+}
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <label className="space-y-1 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    {children}
+  </label>
+);
+
+// "Joined after" / "Joined before" style pair of date inputs for one
+// date-range qualifier
+const DateRangeFields: React.FC<{
+  labels: [string, string];
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ labels, value, onChange }) => {
+  const range = parseDateRange(value);
+  return (
+    <>
+      <Field label={labels[0]}>
+        <Input
+          type="date"
+          value={range.from}
+          onChange={(e) =>
+            onChange(formatDateRange({ ...range, from: e.target.value }))
+          }
+        />
+      </Field>
+      <Field label={labels[1]}>
+        <Input
+          type="date"
+          value={range.to}
+          onChange={(e) =>
+            onChange(formatDateRange({ ...range, to: e.target.value }))
+          }
+        />
+      </Field>
+    </>
+  );
+};
+
+const UserQualifierBuilder: React.FC<QualifierBuilderProps> = ({
+  query,
+  onChange,
+}) => {
+  const qualifiers = parseUserSearchQuery(query);
+  const update = (changes: Partial<typeof qualifiers>) =>
+    onChange(buildUserSearchQuery({ ...qualifiers, ...changes }));
+
+  const toggleField = (field: UserSearchField) =>
+    update({
+      in: qualifiers.in.includes(field)
+        ? qualifiers.in.filter((current) => current !== field)
+        : USER_SEARCH_FIELDS.filter(
+            (current) => current === field || qualifiers.in.includes(current)
+          ),
+    });
+
+  return (
+    <>
+      <Field label="Account type">
+        <NativeSelect
+          className="w-full"
+          value={qualifiers.type}
+          onChange={(e) => update({ type: e.target.value as UserSearchType })}
+        >
+          <option value="">Users and organizations</option>
+          <option value="user">Users</option>
+          <option value="org">Organizations</option>
+        </NativeSelect>
+      </Field>
+      <Field label="Location">
+        <Input
+          value={qualifiers.location}
+          onChange={(e) => update({ location: e.target.value })}
+          placeholder="e.g. Berlin"
+        />
+      </Field>
+      <Field label="Language">
+        <Input
+          value={qualifiers.language}
+          onChange={(e) => update({ language: e.target.value })}
+          placeholder="e.g. TypeScript"
+        />
+      </Field>
+      <Field label="Followers">
+        <Input
+          value={qualifiers.followers}
+          onChange={(e) => update({ followers: e.target.value })}
+          placeholder=">100 or 10..50"
+        />
+      </Field>
+      <Field label="Repositories">
+        <Input
+          value={qualifiers.repos}
+          onChange={(e) => update({ repos: e.target.value })}
+          placeholder=">10 or 5..20"
+        />
+      </Field>
+      <DateRangeFields
+        labels={["Joined after", "Joined before"]}
+        value={qualifiers.created}
+        onChange={(created) => update({ created })}
+      />
+      <div className="sm:col-span-2 space-y-1 text-sm">
+        <span className="text-muted-foreground">Match terms in</span>
+        <div className="flex gap-4">
+          {USER_SEARCH_FIELDS.map((field) => (
+            <label key={field} className="flex items-center space-x-1">
+              <input
+                type="checkbox"
+                checked={qualifiers.in.includes(field)}
+                onChange={() => toggleField(field)}
+              />
+              <span>{field}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+const RepositoryQualifierBuilder: React.FC<QualifierBuilderProps> = ({
+  query,
+  onChange,
+}) => {
+  const qualifiers = parseRepositorySearchQuery(query);
+  const update = (changes: Partial<typeof qualifiers>) =>
+    onChange(buildRepositorySearchQuery({ ...qualifiers, ...changes }));
+
+  return (
+    <>
+      <Field label="Language">
+        <Input
+          value={qualifiers.language}
+          onChange={(e) => update({ language: e.target.value })}
+          placeholder="e.g. Rust"
+        />
+      </Field>
+      <Field label="Topic">
+        <Input
+          value={qualifiers.topic}
+          onChange={(e) => update({ topic: e.target.value })}
+          placeholder="e.g. cli"
+        />
+      </Field>
+      <Field label="Stars">
+        <Input
+          value={qualifiers.stars}
+          onChange={(e) => update({ stars: e.target.value })}
+          placeholder=">500 or 10..100"
+        />
+      </Field>
+      <DateRangeFields
+        labels={["Pushed after", "Pushed before"]}
+        value={qualifiers.pushed}
+        onChange={(pushed) => update({ pushed })}
+      />
+    </>
+  );
+};
+
+export const SEARCH_MODES: Record<SearchMode, SearchModeConfig> = {
+  users: {
+    validate: validateUserSearchQuery,
+    hasQualifiers: hasUserQualifiers,
+    sortOptions: [
+      { label: "Best match", sorting: BEST_MATCH },
+      {
+        label: "Most followers",
+        sorting: { sort: "followers", order: "desc" },
+      },
+      {
+        label: "Fewest followers",
+        sorting: { sort: "followers", order: "asc" },
+      },
+      {
+        label: "Most repositories",
+        sorting: { sort: "repositories", order: "desc" },
+      },
+      {
+        label: "Fewest repositories",
+        sorting: { sort: "repositories", order: "asc" },
+      },
+      { label: "Newest accounts", sorting: { sort: "joined", order: "desc" } },
+      { label: "Oldest accounts", sorting: { sort: "joined", order: "asc" } },
+    ],
+    Builder: UserQualifierBuilder,
+  },
+  repositories: {
+    validate: validateRepositorySearchQuery,
+    hasQualifiers: hasRepositoryQualifiers,
+    sortOptions: [
+      { label: "Best match", sorting: BEST_MATCH },
+      { label: "Most stars", sorting: { sort: "stars", order: "desc" } },
+      { label: "Fewest stars", sorting: { sort: "stars", order: "asc" } },
+      { label: "Most forks", sorting: { sort: "forks", order: "desc" } },
+      {
+        label: "Most help-wanted issues",
+        sorting: { sort: "help-wanted-issues", order: "desc" },
+      },
+      {
+        label: "Recently updated",
+        sorting: { sort: "updated", order: "desc" },
+      },
+      {
+        label: "Least recently updated",
+        sorting: { sort: "updated", order: "asc" },
+      },
+    ],
+    Builder: RepositoryQualifierBuilder,
+  },
+};
@@ -0,0 +1,44 @@
+import React from "react";
+import { NavLink, useSearchParams } from "react-router-dom";
+import { cn } from "../lib/utils";
+import { repositorySearchPath, searchPath } from "../services/routes";
+import { validateRepositorySearchQuery } from "../services/repositorySearchQuery";
+import { validateUserSearchQuery } from "../services/userSearchQuery";
+import { BookMarked, Users } from "lucide-react";
+
+const tabClassName = ({ isActive }: { isActive: boolean }) =>
+  cn(
+    "flex items-center space-x-2 px-3 py-1.5 text-sm rounded-md transition-colors",
+    isActive
+      ? "bg-secondary text-secondary-foreground font-medium"
+      : "text-muted-foreground hover:text-foreground"
+  );
+
+// Switching tabs carries the search over when the other endpoint accepts it,
+// so "react" moves across but "tom followers:>100" doesn't
+export const SearchTabs: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const carryOver = (validate: (query: string) => string | null) =>
+    query && !validate(query) ? query : "";
+
+  return (
+    <nav className="flex justify-center space-x-2" aria-label="Search type">
+      <NavLink
+        to={searchPath(carryOver(validateUserSearchQuery))}
+        end
+        className={tabClassName}
+      >
+        <Users className="h-4 w-4" />
+        <span>Users</span>
+      </NavLink>
+      <NavLink
+        to={repositorySearchPath(carryOver(validateRepositorySearchQuery))}
+        className={tabClassName}
+      >
+        <BookMarked className="h-4 w-4" />
+        <span>Repositories</span>
+      </NavLink>
+    </nav>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { cn } from "../lib/utils";
+import { summarizeStarred } from "../services/starredInsights";
+import { GitHubRepository } from "../types/github";
+import { Sparkles } from "lucide-react";
+
+interface StarredInsightsProps {
+  repositories: GitHubRepository[];
+  selectedLanguage: string | null;
+  selectedTopic: string | null;
+  onLanguageSelect: (language: string | null) => void;
+  onTopicSelect: (topic: string | null) => void;
+}
+
+const chipClassName = (isSelected: boolean) =>
+  cn(
+    "flex items-center space-x-2 rounded-md px-2 py-1 text-sm transition-colors",
+    isSelected ? "bg-secondary font-medium" : "bg-muted/50 hover:bg-muted"
+  );
+
+// What the user's stars say about their interests; each entry narrows the
+// starred repositories below to it, and clicking it again clears the filter
+export const StarredInsights: React.FC<StarredInsightsProps> = ({
+  repositories,
+  selectedLanguage,
+  selectedTopic,
+  onLanguageSelect,
+  onTopicSelect,
+}) => {
+  const { topLanguages, topTopics } = useMemo(
+    () => summarizeStarred(repositories),
+    [repositories]
+  );
+
+  if (topLanguages.length === 0 && topTopics.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center space-x-2">
+          <Sparkles className="h-5 w-5" />
+          <span>Starred insights</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 grid gap-4 sm:grid-cols-2">
+        {topLanguages.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-muted-foreground">
+              Most starred languages
+            </h3>
+            <ul className="flex flex-wrap gap-2" aria-label="Starred languages">
+              {topLanguages.map((share) => {
+                const isSelected = share.name === selectedLanguage;
+                return (
+                  <li key={share.name}>
+                    <button
+                      type="button"
+                      className={chipClassName(isSelected)}
+                      aria-pressed={isSelected}
+                      onClick={() =>
+                        onLanguageSelect(isSelected ? null : share.name)
+                      }
+                    >
+                      <span
+                        className="inline-block w-2 h-2 rounded-full shrink-0"
+                        style={{ backgroundColor: share.color }}
+                      />
+                      <span>{share.name}</span>
+                      <span className="text-muted-foreground">
+                        {share.value}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+        {topTopics.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-muted-foreground">
+              Most starred topics
+            </h3>
+            <ul className="flex flex-wrap gap-2" aria-label="Starred topics">
+              {topTopics.map((topic) => {
+                const isSelected = topic.name === selectedTopic;
+                return (
+                  <li key={topic.name}>
+                    <button
+                      type="button"
+                      className={chipClassName(isSelected)}
+                      aria-pressed={isSelected}
+                      onClick={() =>
+                        onTopicSelect(isSelected ? null : topic.name)
+                      }
+                    >
+                      <span>{topic.name}</span>
+                      <span className="text-muted-foreground">
+                        {topic.count}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { Card, CardContent } from "./ui/card";
+import { useAuthStore } from "../store/useAuthStore";
+import {
+  useSignOut,
+  useValidateTokenMutation,
+} from "../hooks/useGitHubQueries";
+import { useWebUrl } from "../hooks/useWebUrl";
+import { KeyRound, LogOut } from "lucide-react";
+
+export const TokenSettings: React.FC = () => {
+  const authenticatedUser = useAuthStore((state) => state.authenticatedUser);
+  const signOut = useSignOut();
+  const validateToken = useValidateTokenMutation();
+  const toWebUrl = useWebUrl();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [token, setToken] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token.trim()) return;
+
+    validateToken.mutate(
+      { token },
+      {
+        onSuccess: () => {
+          setToken("");
+          setIsOpen(false);
+        },
+      }
+    );
+  };
+
+  const handleSignOut = () => {
+    signOut();
+    validateToken.reset();
+  };
+
+  if (authenticatedUser) {
+    return (
+      <div className="flex items-center justify-center space-x-2 text-sm text-muted-foreground">
+        <img
+          src={toWebUrl(authenticatedUser.avatar_url)}
+          alt={`${authenticatedUser.login}'s avatar`}
+          className="w-5 h-5 rounded-full"
+          loading="lazy"
+        />
+        <span>
+          Signed in as{" "}
+          <span className="font-medium text-foreground">
+            {authenticatedUser.login}
+          </span>
+        </span>
+        <Button variant="ghost" size="sm" onClick={handleSignOut}>
+          <LogOut className="h-4 w-4 mr-1" />
+          Sign out
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <div className="flex justify-center">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsOpen((open) => !open)}
+          aria-expanded={isOpen}
+        >
+          <KeyRound className="h-4 w-4 mr-2" />
+          Token settings
+        </Button>
+      </div>
+
+      {isOpen && (
+        <Card className="mt-2">
+          <CardContent className="p-4">
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <label
+                htmlFor="github-token"
+                className="text-sm font-medium text-foreground"
+              >
+                Personal access token
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id="github-token"
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  placeholder="ghp_..."
+                  autoComplete="off"
+                  disabled={validateToken.isPending}
+                />
+                <Button
+                  type="submit"
+                  disabled={validateToken.isPending || !token.trim()}
+                >
+                  {validateToken.isPending ? "Checking..." : "Save"}
+                </Button>
+              </div>
+              {validateToken.error && (
+                <p className="text-sm text-destructive">
+                  {validateToken.error.message}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                The token is stored in this browser only and raises the API
+                limit from 60 to 5,000 requests per hour.
+              </p>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,14 @@
-import React from "react";
-import { GitHubContributionStats, GitHubEvent } from "../types/github";
+import React, { useMemo, useState } from "react";
+import { GitHubContributionStats } from "../types/github";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { ContributionCalendar, describeDay } from "./ContributionCalendar";
+import { ActivityFeedItem } from "./ActivityFeedItem";
+import {
+  buildCalendarFromEvents,
+  fromGraphqlCalendar,
+  toDateKey,
+} from "../services/contributionCalendar";
 import {
   GitCommit,
   GitPullRequest,
@@ -8,10 +16,10 @@ import {
   Calendar,
   Activity,
   Code,
-  Star,
-  GitFork,
 } from "lucide-react";
 
+const ACTIVITY_PAGE_SIZE = 10;
+
 interface UserContributionsProps {
   stats: GitHubContributionStats;
   isLoading?: boolean;
@@ -23,62 +31,40 @@ export const UserContributions: React.FC<UserContributionsProps> = ({
   isLoading = false,
   error,
 }) => {
-  const formatEventType = (type: string) => {
-    switch (type) {
-      case "PushEvent":
-        return "Pushed commits";
-      case "PullRequestEvent":
-        return "Pull request";
-      case "IssuesEvent":
-        return "Issue activity";
-      case "CreateEvent":
-        return "Created repository";
-      case "ForkEvent":
-        return "Forked repository";
-      case "WatchEvent":
-        return "Starred repository";
-      default:
-        return type.replace("Event", "");
-    }
+  const [visibleActivityCount, setVisibleActivityCount] =
+    useState(ACTIVITY_PAGE_SIZE);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  // Each day (and the unfiltered feed) starts from the first page again
+  const selectDate = (date: string | null) => {
+    setSelectedDate(date);
+    setVisibleActivityCount(ACTIVITY_PAGE_SIZE);
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffInHours = Math.floor(
-      (now.getTime() - date.getTime()) / (1000 * 60 * 60)
-    );
+  const calendarWeeks = useMemo(
+    () =>
+      stats.calendar
+        ? fromGraphqlCalendar(stats.calendar)
+        : buildCalendarFromEvents(stats.recentActivity, stats.coverageStart),
+    [stats.calendar, stats.recentActivity, stats.coverageStart]
+  );
 
-    if (diffInHours < 24) {
-      return `${diffInHours}h ago`;
-    } else if (diffInHours < 24 * 7) {
-      return `${Math.floor(diffInHours / 24)}d ago`;
-    } else {
-      return date.toLocaleDateString("en-US", {
-        month: "short",
-        day: "numeric",
-      });
-    }
-  };
+  const selectedDay = selectedDate
+    ? calendarWeeks.flat().find((day) => day?.date === selectedDate) ?? null
+    : null;
+  const activity = selectedDate
+    ? stats.recentActivity.filter(
+        (event) => toDateKey(event.created_at) === selectedDate
+      )
+    : stats.recentActivity;
 
-  const getEventIcon = (type: string) => {
-    switch (type) {
-      case "PushEvent":
-        return <GitCommit className="h-3 w-3" />;
-      case "PullRequestEvent":
-        return <GitPullRequest className="h-3 w-3" />;
-      case "IssuesEvent":
-        return <AlertCircle className="h-3 w-3" />;
-      case "CreateEvent":
-        return <Code className="h-3 w-3" />;
-      case "ForkEvent":
-        return <GitFork className="h-3 w-3" />;
-      case "WatchEvent":
-        return <Star className="h-3 w-3" />;
-      default:
-        return <Activity className="h-3 w-3" />;
-    }
-  };
+  // Events-based numbers only reach back as far as the oldest public event
+  const isFullYear = stats.source === "graphql";
+  const coverageLabel = stats.coverageStart
+    ? `Based on public activity since ${new Date(
+        stats.coverageStart
+      ).toLocaleDateString("en-US", { month: "short", day: "numeric" })}`
+    : "Based on public activity from the last 90 days";
 
   if (isLoading) {
     return (
@@ -112,8 +98,17 @@ export const UserContributions: React.FC<UserContributionsProps> = ({
       <CardHeader>
         <CardTitle className="text-lg flex items-center space-x-2">
           <Activity className="h-5 w-5" />
-          <span>Contributions in the last year</span>
+          <span>
+            {isFullYear
+              ? "Contributions in the last year"
+              : "Recent contributions"}
+          </span>
         </CardTitle>
+        {!isFullYear && (
+          <p className="text-xs text-muted-foreground">
+            {coverageLabel}. Add a token for full-year totals.
+          </p>
+        )}
       </CardHeader>
       <CardContent className="pt-0">
         {/* Contribution Stats Grid */}
@@ -151,6 +146,15 @@ export const UserContributions: React.FC<UserContributionsProps> = ({
           </div>
         </div>
 
+        {/* Contribution Calendar */}
+        <div className="mb-6">
+          <ContributionCalendar
+            weeks={calendarWeeks}
+            selectedDate={selectedDate}
+            onSelectDate={selectDate}
+          />
+        </div>
+
         {/* Recent Activity */}
         {stats.recentActivity.length > 0 && (
           <div>
@@ -158,37 +162,49 @@ export const UserContributions: React.FC<UserContributionsProps> = ({
               <Calendar className="h-4 w-4" />
               <span>Recent Activity</span>
             </h4>
-            <div className="space-y-2 max-h-48 overflow-y-auto">
-              {stats.recentActivity.map((event, index) => (
-                <div
-                  key={`${event.id}-${index}`}
-                  className="flex items-center space-x-3 p-2 rounded-md bg-muted/50 hover:bg-muted transition-colors"
+            {selectedDay && (
+              <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
+                <span>Showing activity for {describeDay(selectedDay)}</span>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto px-1"
+                  onClick={() => selectDate(null)}
                 >
-                  <div className="text-muted-foreground">
-                    {getEventIcon(event.type)}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-xs font-medium truncate">
-                      {formatEventType(event.type)}
-                      {event.repo && (
-                        <span className="text-muted-foreground ml-1">
-                          in {event.repo.name}
-                        </span>
-                      )}
-                    </p>
-                  </div>
-                  <div className="text-xs text-muted-foreground">
-                    {formatDate(event.created_at)}
-                  </div>
-                </div>
+                  Show all
+                </Button>
+              </div>
+            )}
+            {selectedDay && activity.length === 0 && (
+              <p className="text-center py-2 text-xs text-muted-foreground">
+                No public activity on this day.
+              </p>
+            )}
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {activity.slice(0, visibleActivityCount).map((event, index) => (
+                <ActivityFeedItem key={`${event.id}-${index}`} event={event} />
               ))}
             </div>
+            {activity.length > visibleActivityCount && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full mt-2"
+                onClick={() =>
+                  setVisibleActivityCount((count) => count + ACTIVITY_PAGE_SIZE)
+                }
+              >
+                Load older activity
+              </Button>
+            )}
           </div>
         )}
 
         {stats.recentActivity.length === 0 && (
           <div className="text-center py-4 text-sm text-muted-foreground">
-            No recent activity found in the last year.
+            {isFullYear
+              ? "No recent activity found in the last year."
+              : "No public activity found in the last 90 days."}
           </div>
         )}
       </CardContent>
@@ -2,13 +2,35 @@ import React from "react";
 import { GitHubUser } from "../types/github";
 import { Card, CardContent } from "./ui/card";
 import { Button } from "./ui/button";
+import { RateLimitCountdown } from "./RateLimitCountdown";
+import { useWebUrl } from "../hooks/useWebUrl";
+import { cn } from "../lib/utils";
+import {
+  describeSearchRange,
+  IncompleteResultsNotice,
+  SearchPagination,
+  SearchResultsPaging,
+} from "./SearchPagination";
 import { ChevronDown, User } from "lucide-react";
 
+export type UserListPaging = SearchResultsPaging;
+
+export interface UserListComparison {
+  selected: string[];
+  onToggle: (user: GitHubUser) => void;
+  // Further users can't be ticked once this many are selected
+  max: number;
+}
+
 interface UserListProps {
   users: GitHubUser[];
   onUserSelect: (user: GitHubUser) => void;
   isLoading?: boolean;
   error?: string | null;
+  rateLimitResetAt?: Date | null;
+  paging?: UserListPaging;
+  // Adds a checkbox per user for picking users to compare
+  comparison?: UserListComparison;
 }
 
 export const UserList: React.FC<UserListProps> = ({
@@ -16,7 +38,12 @@ export const UserList: React.FC<UserListProps> = ({
   onUserSelect,
   isLoading = false,
   error,
+  rateLimitResetAt,
+  paging,
+  comparison,
 }) => {
+  const toWebUrl = useWebUrl();
+
   const handleKeyDown = (e: React.KeyboardEvent, user: GitHubUser) => {
     if (e.key === "Enter" || e.key === " ") {
       e.preventDefault();
@@ -43,9 +70,13 @@ export const UserList: React.FC<UserListProps> = ({
     return (
       <Card className="w-full max-w-md mx-auto border-destructive">
         <CardContent className="p-4">
-          <div className="text-center">
-            <p className="text-sm text-destructive">{error}</p>
-          </div>
+          {rateLimitResetAt ? (
+            <RateLimitCountdown resetAt={rateLimitResetAt} />
+          ) : (
+            <div className="text-center">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
         </CardContent>
       </Card>
     );
@@ -59,46 +90,90 @@ export const UserList: React.FC<UserListProps> = ({
     <Card className="w-full max-w-md mx-auto">
       <CardContent className="p-0">
         <div className="text-sm text-muted-foreground px-4 py-2 border-b">
-          Showing users for your search
+          {paging
+            ? describeSearchRange(paging, users.length, ["user", "users"])
+            : "Showing users for your search"}
         </div>
-        <div className="max-h-96 overflow-y-auto">
-          {users.map((user) => (
-            <Button
-              key={user.id}
-              variant="ghost"
-              className="w-full justify-between h-auto p-4 rounded-none border-b last:border-b-0 hover:bg-accent"
-              onClick={() => onUserSelect(user)}
-              onKeyDown={(e) => handleKeyDown(e, user)}
-            >
-              <div className="flex items-center space-x-3">
-                <div className="relative">
-                  {user.avatar_url ? (
-                    <img
-                      src={user.avatar_url}
-                      alt={`${user.login}'s avatar`}
-                      className="w-8 h-8 rounded-full"
-                      loading="lazy"
-                    />
-                  ) : (
-                    <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
-                      <User
-                        className="h-4 w-4 text-muted-foreground"
-                        data-testid="user-icon"
+        {paging?.incompleteResults && (
+          <IncompleteResultsNotice plural="users" />
+        )}
+        <div
+          className={cn(
+            "max-h-96 overflow-y-auto",
+            paging?.isChangingPage && "opacity-60"
+          )}
+          aria-busy={paging?.isChangingPage || undefined}
+        >
+          {users.map((user) => {
+            const button = (
+              <Button
+                key={user.id}
+                variant="ghost"
+                className="w-full justify-between h-auto p-4 rounded-none border-b last:border-b-0 hover:bg-accent"
+                onClick={() => onUserSelect(user)}
+                onKeyDown={(e) => handleKeyDown(e, user)}
+              >
+                <div className="flex items-center space-x-3">
+                  <div className="relative">
+                    {user.avatar_url ? (
+                      <img
+                        src={toWebUrl(user.avatar_url)}
+                        alt={`${user.login}'s avatar`}
+                        className="w-8 h-8 rounded-full"
+                        loading="lazy"
                       />
-                    </div>
-                  )}
-                </div>
-                <div className="text-left">
-                  <p className="font-medium text-sm">{user.login}</p>
-                  {user.type && (
-                    <p className="text-xs text-muted-foreground">{user.type}</p>
-                  )}
+                    ) : (
+                      <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+                        <User
+                          className="h-4 w-4 text-muted-foreground"
+                          data-testid="user-icon"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-left">
+                    <p className="font-medium text-sm">{user.login}</p>
+                    {user.type && (
+                      <p className="text-xs text-muted-foreground">
+                        {user.type}
+                      </p>
+                    )}
+                  </div>
                 </div>
+                <ChevronDown className="h-4 w-4 text-muted-foreground" />
+              </Button>
+            );
+            if (!comparison) {
+              return button;
+            }
+            const isSelected = comparison.selected.some(
+              (login) => login.toLowerCase() === user.login.toLowerCase()
+            );
+            // Contribution stats only exist for users
+            const canCompare = user.type !== "Organization";
+            return (
+              <div
+                key={user.id}
+                className="flex items-center border-b last:border-b-0"
+              >
+                <input
+                  type="checkbox"
+                  className="ml-4"
+                  aria-label={`Compare ${user.login}`}
+                  checked={isSelected}
+                  disabled={
+                    !canCompare ||
+                    (!isSelected &&
+                      comparison.selected.length >= comparison.max)
+                  }
+                  onChange={() => comparison.onToggle(user)}
+                />
+                {button}
               </div>
-              <ChevronDown className="h-4 w-4 text-muted-foreground" />
-            </Button>
-          ))}
+            );
+          })}
         </div>
+        {paging && <SearchPagination paging={paging} plural="users" />}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,183 @@
+import React from "react";
+import {
+  Navigate,
+  useLocation,
+  useNavigate,
+  useParams,
+} from "react-router-dom";
+import { RepositoryList, RepositoryListTab } from "./RepositoryList";
+import { RateLimitCountdown } from "./RateLimitCountdown";
+import { Card, CardContent } from "./ui/card";
+import { Button } from "./ui/button";
+import {
+  useOrganization,
+  useOrganizationRepositories,
+  useUser,
+  useUserRepositories,
+  useUserStarred,
+} from "../hooks/useGitHubQueries";
+import { useHistoryBack } from "../hooks/useHistoryBack";
+import { getRateLimitResetAt } from "../services/errors";
+import { orgPath, repositoryPath, searchPath } from "../services/routes";
+import { GitHubRepository, GitHubUser } from "../types/github";
+import { ChevronLeft } from "lucide-react";
+
+interface UserPageProps {
+  // Rendered at /orgs/:login, so the account is known to be an organization
+  isOrganization?: boolean;
+  // Rendered at /users/:login/starred or /users/:login/gists
+  tab?: RepositoryListTab;
+}
+
+// /users/:login, /orgs/:login and their /repos variants, plus
+// /users/:login/starred and /users/:login/gists
+export const UserPage: React.FC<UserPageProps> = ({
+  isOrganization = false,
+  tab = "repositories",
+}) => {
+  const { login = "" } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const handleBackToUsers = useHistoryBack(searchPath());
+
+  // Set when arriving from the search results
+  const selectedUser = (location.state as { user?: GitHubUser } | null)?.user;
+
+  // Get full user details
+  const {
+    data: fullUserData,
+    isLoading: isLoadingUser,
+    error: userError,
+  } = useUser(login, !isOrganization);
+
+  const {
+    data: organization,
+    isLoading: isLoadingOrganization,
+    error: organizationError,
+  } = useOrganization(login, isOrganization);
+
+  // Organizations wait for their own details so the header never falls back to
+  // the user variant
+  const displayUser: GitHubUser | undefined = organization
+    ? {
+        id: organization.id,
+        login: organization.login,
+        avatar_url: organization.avatar_url,
+        html_url: organization.html_url,
+        type: organization.type,
+        public_repos: organization.public_repos,
+      }
+    : isOrganization
+    ? undefined
+    : fullUserData ||
+      (selectedUser?.login.toLowerCase() === login.toLowerCase()
+        ? selectedUser
+        : undefined);
+
+  // An organization reached through /users/:login moves to /orgs/:login, so
+  // its repositories wait until the account type is known
+  const isOrganizationAccount =
+    isOrganization || displayUser?.type === "Organization";
+  const isUserAccount = !!displayUser && !isOrganizationAccount;
+  const userRepositories = useUserRepositories(
+    login,
+    isUserAccount && tab === "repositories"
+  );
+  const starredRepositories = useUserStarred(
+    login,
+    isUserAccount && tab === "starred"
+  );
+  const organizationRepositories = useOrganizationRepositories(
+    login,
+    isOrganization
+  );
+
+  // Get repositories for the account
+  const {
+    data: repositories = [],
+    isLoading: isLoadingRepositories,
+    error: repositoriesError,
+    progress: repositoriesProgress,
+  } = isOrganization
+    ? organizationRepositories
+    : tab === "starred"
+    ? starredRepositories
+    : userRepositories;
+
+  const handleRepositorySelect = (repository: GitHubRepository) => {
+    const [owner] = repository.full_name.split("/");
+    navigate(repositoryPath(owner, repository.name));
+    window.scrollTo(0, 0);
+  };
+
+  if (isOrganizationAccount && !isOrganization) {
+    const isRepositoriesView = location.pathname.endsWith("/repos");
+    return (
+      <Navigate
+        to={`${orgPath(login)}${isRepositoriesView ? "/repos" : ""}${
+          location.search
+        }`}
+        state={location.state}
+        replace
+      />
+    );
+  }
+
+  if (!displayUser) {
+    const accountError = isOrganization ? organizationError : userError;
+    const accountResetAt = getRateLimitResetAt(accountError);
+    return (
+      <div className="w-full max-w-4xl mx-auto space-y-4">
+        <Button
+          variant="outline"
+          onClick={handleBackToUsers}
+          className="w-full sm:w-auto"
+        >
+          <ChevronLeft className="h-4 w-4 mr-2" />
+          Back to Users
+        </Button>
+        <Card className={accountError ? "border-destructive" : undefined}>
+          <CardContent className="p-8">
+            {isLoadingUser || isLoadingOrganization ? (
+              <div className="flex items-center justify-center space-x-2">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
+                <span className="text-muted-foreground">
+                  {isOrganization
+                    ? "Loading organization..."
+                    : "Loading user..."}
+                </span>
+              </div>
+            ) : accountResetAt ? (
+              <RateLimitCountdown resetAt={accountResetAt} />
+            ) : (
+              <div className="text-center">
+                <p className="text-destructive">
+                  {accountError?.message ??
+                    `${
+                      isOrganization ? "Organization" : "User"
+                    } "${login}" not found`}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <RepositoryList
+      key={displayUser.login}
+      user={displayUser}
+      organization={organization}
+      tab={isOrganization ? "repositories" : tab}
+      repositories={repositories}
+      onBackToUsers={handleBackToUsers}
+      onRepositorySelect={handleRepositorySelect}
+      isLoading={isLoadingRepositories}
+      loadingProgress={repositoriesProgress}
+      error={repositoriesError?.message || null}
+      rateLimitResetAt={getRateLimitResetAt(repositoriesError)}
+    />
+  );
+};
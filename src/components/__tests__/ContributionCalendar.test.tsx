@@ -0,0 +1,150 @@
+import React from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { ContributionCalendar } from "../ContributionCalendar";
+import { CalendarWeek } from "../../services/contributionCalendar";
+
+describe("ContributionCalendar", () => {
+  // Two weeks: Sun Jul 28 - Sat Aug 3 and Sun Aug 4 - Mon Aug 5
+  const weeks: CalendarWeek[] = [
+    [28, 29, 30, 31, 1, 2, 3].map((day, weekday) => ({
+      date: weekday < 4 ? `2024-07-${day}` : `2024-08-0${day}`,
+      count: weekday,
+      level: Math.min(weekday, 4) as 0 | 1 | 2 | 3 | 4,
+    })),
+    [
+      { date: "2024-08-04", count: 0, level: 0 },
+      { date: "2024-08-05", count: 1, level: 1 },
+      null,
+      null,
+      null,
+      null,
+      null,
+    ],
+  ];
+
+  const cell = (label: string) => screen.getByRole("gridcell", { name: label });
+
+  it("renders a labelled cell per day and a legend", () => {
+    render(<ContributionCalendar weeks={weeks} />);
+
+    expect(screen.getAllByRole("row")).toHaveLength(7);
+    expect(screen.getAllByRole("gridcell")).toHaveLength(9);
+    expect(cell("3 contributions on Jul 31, 2024")).toHaveAttribute(
+      "data-level",
+      "3"
+    );
+    expect(cell("No contributions on Jul 28, 2024")).toBeInTheDocument();
+    expect(screen.getByText("Less")).toBeInTheDocument();
+    expect(screen.getByText("More")).toBeInTheDocument();
+    expect(screen.getByTestId("legend-level-4")).toBeInTheDocument();
+  });
+
+  it("shows a tooltip for the hovered day", () => {
+    render(<ContributionCalendar weeks={weeks} />);
+
+    fireEvent.mouseEnter(cell("1 contribution on Jul 29, 2024"));
+    expect(screen.getByRole("tooltip")).toHaveTextContent(
+      "1 contribution on Jul 29, 2024"
+    );
+
+    fireEvent.mouseLeave(cell("1 contribution on Jul 29, 2024"));
+    expect(screen.getByRole("tooltip")).toHaveTextContent("");
+  });
+
+  it("makes the most recent day the only tab stop", () => {
+    render(<ContributionCalendar weeks={weeks} />);
+
+    const tabStops = screen
+      .getAllByRole("gridcell")
+      .filter((element) => element.tabIndex === 0);
+    expect(tabStops).toEqual([cell("1 contribution on Aug 5, 2024")]);
+  });
+
+  it("moves focus by day with up/down and by week with left/right", () => {
+    render(<ContributionCalendar weeks={weeks} />);
+
+    const start = cell("1 contribution on Aug 5, 2024");
+    act(() => start.focus());
+
+    fireEvent.keyDown(start, { key: "ArrowLeft" });
+    expect(cell("1 contribution on Jul 29, 2024")).toHaveFocus();
+
+    fireEvent.keyDown(cell("1 contribution on Jul 29, 2024"), {
+      key: "ArrowDown",
+    });
+    expect(cell("2 contributions on Jul 30, 2024")).toHaveFocus();
+
+    fireEvent.keyDown(cell("2 contributions on Jul 30, 2024"), {
+      key: "ArrowUp",
+    });
+    fireEvent.keyDown(cell("1 contribution on Jul 29, 2024"), {
+      key: "ArrowUp",
+    });
+    expect(cell("No contributions on Jul 28, 2024")).toHaveFocus();
+
+    // Nothing above Sunday, so focus stays put
+    fireEvent.keyDown(cell("No contributions on Jul 28, 2024"), {
+      key: "ArrowUp",
+    });
+    expect(cell("No contributions on Jul 28, 2024")).toHaveFocus();
+    expect(cell("No contributions on Jul 28, 2024").tabIndex).toBe(0);
+  });
+
+  it("selects and clears a day with click or Enter", () => {
+    const onSelectDate = jest.fn();
+    const { rerender } = render(
+      <ContributionCalendar weeks={weeks} onSelectDate={onSelectDate} />
+    );
+
+    fireEvent.click(cell("4 contributions on Aug 1, 2024"));
+    expect(onSelectDate).toHaveBeenLastCalledWith("2024-08-01");
+
+    rerender(
+      <ContributionCalendar
+        weeks={weeks}
+        selectedDate="2024-08-01"
+        onSelectDate={onSelectDate}
+      />
+    );
+    expect(cell("4 contributions on Aug 1, 2024")).toHaveAttribute(
+      "aria-selected",
+      "true"
+    );
+
+    fireEvent.keyDown(cell("4 contributions on Aug 1, 2024"), {
+      key: "Enter",
+    });
+    expect(onSelectDate).toHaveBeenLastCalledWith(null);
+  });
+
+  it("shows days without data apart from quiet days", () => {
+    const onSelectDate = jest.fn();
+    const partial: CalendarWeek[] = [
+      [
+        { date: "2024-07-28", count: 0, level: 0, noData: true },
+        { date: "2024-07-29", count: 0, level: 0 },
+        { date: "2024-07-30", count: 2, level: 4 },
+        null,
+        null,
+        null,
+        null,
+      ],
+    ];
+    render(
+      <ContributionCalendar weeks={partial} onSelectDate={onSelectDate} />
+    );
+
+    const noData = cell(
+      "No data for Jul 28, 2024 (older than the public activity feed)"
+    );
+    expect(noData).toHaveAttribute("aria-disabled", "true");
+    expect(cell("No contributions on Jul 29, 2024")).not.toHaveAttribute(
+      "aria-disabled"
+    );
+    expect(screen.getByText("No data")).toBeInTheDocument();
+
+    fireEvent.click(noData);
+    fireEvent.keyDown(noData, { key: "Enter" });
+    expect(onSelectDate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import React from "react";
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { LanguageAnalytics } from "../LanguageAnalytics";
+import { etagCache } from "../../services/etagCache";
+import { LANGUAGE_QUOTA_RESERVE } from "../../hooks/useGitHubQueries";
+import { useRateLimitStore } from "../../store/useRateLimitStore";
+import { GitHubRepository } from "../../types/github";
+
+global.fetch = jest.fn();
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const repo = (
+  name: string,
+  language: string | null,
+  fork = false
+): GitHubRepository => ({
+  id: name.charCodeAt(0),
+  name,
+  full_name: `octocat/${name}`,
+  description: null,
+  html_url: `https://github.com/octocat/${name}`,
+  stargazers_count: 0,
+  watchers_count: 0,
+  forks_count: 0,
+  language,
+  updated_at: "2024-01-01T00:00:00Z",
+  topics: [],
+  private: false,
+  fork,
+});
+
+const repositories = [
+  repo("api", "Go"),
+  repo("cli", "Go"),
+  repo("web", "TypeScript"),
+  repo("notes", null),
+  repo("linux", "C", true),
+];
+
+const bytes: Record<string, Record<string, number>> = {
+  api: { Go: 3000, Shell: 1000 },
+  cli: { Go: 1000 },
+  web: { TypeScript: 5000 },
+  notes: {},
+};
+
+const renderAnalytics = (
+  selectedLanguage: string | null = null,
+  onLanguageSelect = jest.fn()
+) => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  render(
+    <QueryClientProvider client={queryClient}>
+      <LanguageAnalytics
+        repositories={repositories}
+        selectedLanguage={selectedLanguage}
+        onLanguageSelect={onLanguageSelect}
+      />
+    </QueryClientProvider>
+  );
+};
+
+const legendEntries = () =>
+  within(screen.getByRole("list", { name: "Languages" }))
+    .getAllByRole("listitem")
+    .map((item) => item.textContent);
+
+describe("LanguageAnalytics", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    etagCache.clear();
+    useRateLimitStore.getState().resetRateLimits();
+    mockFetch.mockImplementation(async (input) => {
+      const [, name] = String(input).match(/octocat\/([^/]+)\/languages/)!;
+      return {
+        ok: true,
+        status: 200,
+        json: async () => bytes[name],
+      } as Response;
+    });
+  });
+
+  it("counts primary languages without forks by default", () => {
+    renderAnalytics();
+
+    expect(legendEntries()).toEqual([
+      "Go2 repositories · 66.7%",
+      "TypeScript1 repository · 33.3%",
+    ]);
+    expect(
+      screen.getByRole("img", { name: "Go 66.7%, TypeScript 33.3%" })
+    ).toBeInTheDocument();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("includes forks on request", async () => {
+    const user = userEvent.setup();
+    renderAnalytics();
+
+    await user.click(screen.getByRole("checkbox", { name: "Include forks" }));
+
+    expect(legendEntries()).toContain("C1 repository · 25.0%");
+  });
+
+  it("weights languages by bytes once asked to", async () => {
+    const user = userEvent.setup();
+    renderAnalytics();
+
+    await user.click(screen.getByRole("button", { name: "By bytes of code" }));
+
+    expect(
+      await screen.findByText("Weighted by bytes of code in 4 repositories.")
+    ).toBeInTheDocument();
+    expect(legendEntries()).toEqual([
+      "TypeScript4.9 KB · 50.0%",
+      "Go3.9 KB · 40.0%",
+      "Shell1000 B · 10.0%",
+    ]);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://api.github.com/repos/octocat/api/languages",
+      expect.any(Object)
+    );
+  });
+
+  it("doesn't spend more requests than the quota can spare", async () => {
+    const user = userEvent.setup();
+    useRateLimitStore.getState().updateQuota({
+      resource: "core",
+      limit: 60,
+      remaining: LANGUAGE_QUOTA_RESERVE + 2,
+      used: 60 - LANGUAGE_QUOTA_RESERVE - 2,
+      reset: Math.floor(Date.now() / 1000) + 60 * 60,
+    });
+    renderAnalytics();
+
+    await user.click(screen.getByRole("button", { name: "By bytes of code" }));
+
+    expect(
+      await screen.findByText(/Skipped 2 repositories to stay within/)
+    ).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("only filters by language when counting primary languages", async () => {
+    const user = userEvent.setup();
+    const onLanguageSelect = jest.fn();
+    renderAnalytics(null, onLanguageSelect);
+
+    await user.click(screen.getByRole("button", { name: "By bytes of code" }));
+    await screen.findByText("Weighted by bytes of code in 4 repositories.");
+
+    expect(
+      screen.queryByRole("button", { name: /^Shell/ })
+    ).not.toBeInTheDocument();
+    await user.click(
+      within(screen.getByRole("list", { name: "Languages" })).getByText("Shell")
+    );
+    expect(onLanguageSelect).not.toHaveBeenCalled();
+    expect(
+      screen.getByText("Switch to By repositories to filter by language.")
+    ).toBeInTheDocument();
+  });
+
+  it("toggles the language filter", async () => {
+    const user = userEvent.setup();
+    const onLanguageSelect = jest.fn();
+    renderAnalytics("Go", onLanguageSelect);
+
+    const go = screen.getByRole("button", { name: /^Go/ });
+    expect(go).toHaveAttribute("aria-pressed", "true");
+
+    await user.click(go);
+    expect(onLanguageSelect).toHaveBeenLastCalledWith(null);
+
+    await user.click(screen.getByRole("button", { name: /^TypeScript/ }));
+    expect(onLanguageSelect).toHaveBeenLastCalledWith("TypeScript");
+  });
+});
@@ -0,0 +1,180 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { RepositoryDetail } from "../RepositoryDetail";
+import { etagCache } from "../../services/etagCache";
+
+global.fetch = jest.fn();
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const repository = {
+  id: 1,
+  name: "Hello-World",
+  full_name: "octocat/Hello-World",
+  description: "My first repository",
+  html_url: "https://github.com/octocat/Hello-World",
+  stargazers_count: 80,
+  watchers_count: 80,
+  subscribers_count: 12,
+  forks_count: 9,
+  open_issues_count: 3,
+  language: "TypeScript",
+  updated_at: "2024-03-01T00:00:00Z",
+  created_at: "2011-01-26T19:01:12Z",
+  pushed_at: "2024-03-01T00:00:00Z",
+  topics: ["demo"],
+  private: false,
+  fork: false,
+  default_branch: "main",
+  homepage: null,
+  license: { key: "mit", name: "MIT License", spdx_id: "MIT" },
+  owner: {
+    id: 1,
+    login: "octocat",
+    avatar_url: "https://avatar.com/octocat",
+    html_url: "https://github.com/octocat",
+    type: "User",
+  },
+};
+
+const ok = (body: unknown) =>
+  ({
+    ok: true,
+    status: 200,
+    json: async () => body,
+    text: async () => body,
+  } as Response);
+
+const notFound = () =>
+  ({
+    ok: false,
+    status: 404,
+    json: async () => ({ message: "Not Found" }),
+  } as Response);
+
+const mockRepositoryApi = (
+  overrides: Partial<Record<string, () => Response>> = {}
+) => {
+  const routes: Record<string, () => Response> = {
+    readme: () => ok("<h1>Hello World</h1><p>Welcome!</p>"),
+    languages: () => ok({ TypeScript: 7500, CSS: 2500 }),
+    contributors: () =>
+      ok([
+        {
+          id: 1,
+          login: "octocat",
+          avatar_url: "https://avatar.com/octocat",
+          html_url: "https://github.com/octocat",
+          type: "User",
+          contributions: 42,
+        },
+      ]),
+    releases: () =>
+      ok([
+        {
+          id: 1,
+          tag_name: "v2.0.0-beta",
+          name: "Two beta",
+          html_url: "https://github.com/octocat/Hello-World/releases/v2",
+          draft: false,
+          prerelease: true,
+          published_at: "2024-02-01T00:00:00Z",
+        },
+      ]),
+    repository: () => ok(repository),
+    ...overrides,
+  };
+  mockFetch.mockImplementation(async (input) => {
+    const url = String(input);
+    const section = url.match(
+      /\/(readme|languages|contributors|releases)(\?|$)/
+    );
+    return routes[section ? section[1] : "repository"]();
+  });
+};
+
+const renderDetail = (onBack = jest.fn()) => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <RepositoryDetail owner="octocat" name="Hello-World" onBack={onBack} />
+    </QueryClientProvider>
+  );
+};
+
+describe("RepositoryDetail", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    etagCache.clear();
+  });
+
+  it("shows the repository with its README, languages, contributors and releases", async () => {
+    mockRepositoryApi();
+
+    renderDetail();
+
+    expect(await screen.findByText("octocat/Hello-World")).toBeInTheDocument();
+    expect(screen.getByText("80 stars")).toBeInTheDocument();
+    expect(screen.getByText("12 watching")).toBeInTheDocument();
+    expect(screen.getByText("3 open issues")).toBeInTheDocument();
+    expect(screen.getByText("MIT")).toBeInTheDocument();
+
+    expect(
+      await screen.findByRole("heading", { name: "Hello World" })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("img", { name: "TypeScript 75.0%, CSS 25.0%" })
+    ).toBeInTheDocument();
+    expect(screen.getByText("42 commits")).toBeInTheDocument();
+    expect(screen.getByText("Two beta")).toBeInTheDocument();
+    expect(screen.getByText("Pre-release")).toBeInTheDocument();
+  });
+
+  it("keeps the GitHub page available as an external link", async () => {
+    mockRepositoryApi();
+
+    renderDetail();
+
+    const link = await screen.findByRole("link", { name: /view on github/i });
+    expect(link).toHaveAttribute(
+      "href",
+      "https://github.com/octocat/Hello-World"
+    );
+    expect(link).toHaveAttribute("target", "_blank");
+  });
+
+  it("explains when there is no README", async () => {
+    mockRepositoryApi({ readme: notFound });
+
+    renderDetail();
+
+    expect(
+      await screen.findByText("This repository has no README.")
+    ).toBeInTheDocument();
+  });
+
+  it("reports a missing repository without loading the other sections", async () => {
+    mockRepositoryApi({ repository: notFound });
+
+    renderDetail();
+
+    expect(await screen.findByText("Not Found")).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("goes back to the repository list", async () => {
+    const onBack = jest.fn();
+    mockRepositoryApi();
+
+    renderDetail(onBack);
+
+    await userEvent.click(
+      await screen.findByRole("button", { name: /back to repositories/i })
+    );
+
+    expect(onBack).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,200 @@
+import React from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { RepositoryGrid } from "../RepositoryGrid";
+import { createRepositoryFixtures } from "../../__fixtures__/repositories";
+
+describe("RepositoryGrid", () => {
+  const originalScrollTo = window.scrollTo;
+  const originalInnerWidth = window.innerWidth;
+
+  beforeEach(() => {
+    window.scrollTo = jest.fn();
+  });
+
+  afterEach(() => {
+    window.scrollTo = originalScrollTo;
+    Object.defineProperty(window, "innerWidth", {
+      configurable: true,
+      value: originalInnerWidth,
+    });
+  });
+
+  const setViewportWidth = (width: number) => {
+    Object.defineProperty(window, "innerWidth", {
+      configurable: true,
+      value: width,
+    });
+  };
+
+  const card = (name: string) =>
+    screen.getByRole("button", { name: `Open ${name} repository` });
+
+  it("mounts a bounded number of cards for 5,000 repositories", () => {
+    const repositories = createRepositoryFixtures(5000);
+
+    render(<RepositoryGrid repositories={repositories} onSelect={jest.fn()} />);
+
+    const cards = screen.getAllByRole("button");
+    expect(cards.length).toBeGreaterThan(0);
+    expect(cards.length).toBeLessThanOrEqual(30);
+    // Counting raw DOM nodes is the point of this test
+    // eslint-disable-next-line testing-library/no-node-access
+    expect(document.getElementsByTagName("*").length).toBeLessThan(1000);
+    expect(card("repo-1")).toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Open repo-5000 repository" })
+    ).not.toBeInTheDocument();
+  });
+
+  it.each([
+    [500, "repo-2"],
+    [800, "repo-3"],
+    [1200, "repo-4"],
+  ])(
+    "lays out columns for a %ipx viewport so ArrowDown lands on %s",
+    (width, below) => {
+      setViewportWidth(width);
+      render(
+        <RepositoryGrid
+          repositories={createRepositoryFixtures(6)}
+          onSelect={jest.fn()}
+        />
+      );
+
+      act(() => card("repo-1").focus());
+      fireEvent.keyDown(card("repo-1"), { key: "ArrowDown" });
+
+      expect(card(below)).toHaveFocus();
+    }
+  );
+
+  it("recomputes the columns when the window is resized", () => {
+    setViewportWidth(500);
+    render(
+      <RepositoryGrid
+        repositories={createRepositoryFixtures(6)}
+        onSelect={jest.fn()}
+      />
+    );
+
+    setViewportWidth(1200);
+    act(() => {
+      window.dispatchEvent(new Event("resize"));
+    });
+    act(() => card("repo-1").focus());
+    fireEvent.keyDown(card("repo-1"), { key: "ArrowDown" });
+
+    expect(card("repo-4")).toHaveFocus();
+  });
+
+  it("keeps a single tab stop and moves focus with the arrow keys", () => {
+    setViewportWidth(1200);
+    render(
+      <RepositoryGrid
+        repositories={createRepositoryFixtures(9)}
+        onSelect={jest.fn()}
+      />
+    );
+
+    const tabStops = screen
+      .getAllByRole("button")
+      .filter((element) => element.tabIndex === 0);
+    expect(tabStops).toEqual([card("repo-1")]);
+
+    act(() => card("repo-1").focus());
+    fireEvent.keyDown(card("repo-1"), { key: "ArrowRight" });
+    expect(card("repo-2")).toHaveFocus();
+
+    fireEvent.keyDown(card("repo-2"), { key: "ArrowDown" });
+    expect(card("repo-5")).toHaveFocus();
+    expect(card("repo-5").tabIndex).toBe(0);
+
+    fireEvent.keyDown(card("repo-5"), { key: "End" });
+    expect(card("repo-9")).toHaveFocus();
+
+    fireEvent.keyDown(card("repo-9"), { key: "Home" });
+    expect(card("repo-1")).toHaveFocus();
+
+    // Already in the first row
+    fireEvent.keyDown(card("repo-1"), { key: "ArrowUp" });
+    expect(card("repo-1")).toHaveFocus();
+  });
+
+  it("scrolls far-away cards into view before focusing them", () => {
+    render(
+      <RepositoryGrid
+        repositories={createRepositoryFixtures(5000)}
+        onSelect={jest.fn()}
+      />
+    );
+
+    act(() => card("repo-1").focus());
+    fireEvent.keyDown(card("repo-1"), { key: "End" });
+
+    expect(window.scrollTo).toHaveBeenCalled();
+  });
+
+  it("re-measures its offset when content above it changes height", () => {
+    let onResize: () => void = () => {};
+    const originalResizeObserver = window.ResizeObserver;
+    window.ResizeObserver = jest.fn((callback: () => void) => {
+      onResize = callback;
+      return {
+        observe: jest.fn(),
+        unobserve: jest.fn(),
+        disconnect: jest.fn(),
+      };
+    }) as unknown as typeof ResizeObserver;
+    const rect = jest
+      .spyOn(HTMLElement.prototype, "getBoundingClientRect")
+      .mockReturnValue({ top: 0 } as DOMRect);
+
+    try {
+      render(
+        <RepositoryGrid
+          repositories={createRepositoryFixtures(5000)}
+          onSelect={jest.fn()}
+        />
+      );
+
+      // Scrolled past 20 rows as measured at mount...
+      act(() => {
+        Object.defineProperty(window, "scrollY", {
+          configurable: true,
+          value: 5000,
+        });
+        window.dispatchEvent(new Event("scroll"));
+      });
+      expect(
+        screen.queryByRole("button", { name: "Open repo-1 repository" })
+      ).not.toBeInTheDocument();
+
+      // ...until the content above grows by the same amount
+      act(() => onResize());
+      expect(card("repo-1")).toBeInTheDocument();
+    } finally {
+      rect.mockRestore();
+      window.ResizeObserver = originalResizeObserver;
+      Object.defineProperty(window, "scrollY", {
+        configurable: true,
+        value: 0,
+      });
+    }
+  });
+
+  it("opens a repository with click, Enter or Space", () => {
+    const onSelect = jest.fn();
+    const repositories = createRepositoryFixtures(3);
+    render(<RepositoryGrid repositories={repositories} onSelect={onSelect} />);
+
+    fireEvent.click(card("repo-1"));
+    fireEvent.keyDown(card("repo-2"), { key: "Enter" });
+    fireEvent.keyDown(card("repo-3"), { key: " " });
+
+    expect(onSelect.mock.calls).toEqual([
+      [repositories[0]],
+      [repositories[1]],
+      [repositories[2]],
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import React from "react";
+import {
+  act,
+  fireEvent,
+  render,
+  renderHook,
+  screen,
+} from "@testing-library/react";
+import { MemoryRouter, useLocation } from "react-router-dom";
+import { RepositoryToolbar } from "../RepositoryToolbar";
+import { useRepositoryFilters } from "../../hooks/useRepositoryFilters";
+import { DEFAULT_REPOSITORY_FILTERS } from "../../services/repositoryFilters";
+
+describe("RepositoryToolbar", () => {
+  const renderToolbar = (
+    props: Partial<React.ComponentProps<typeof RepositoryToolbar>> = {}
+  ) => {
+    const handlers = { onChange: jest.fn(), onReset: jest.fn() };
+    render(
+      <RepositoryToolbar
+        filters={DEFAULT_REPOSITORY_FILTERS}
+        languages={[
+          { value: "TypeScript", count: 7 },
+          { value: "Go", count: 2 },
+        ]}
+        topics={[{ value: "cli", count: 1 }]}
+        resultCount={3}
+        totalCount={10}
+        {...handlers}
+        {...props}
+      />
+    );
+    return handlers;
+  };
+
+  it("reports each control as a filter change", () => {
+    const { onChange } = renderToolbar();
+
+    fireEvent.change(screen.getByLabelText("Search repositories"), {
+      target: { value: "api" },
+    });
+    fireEvent.change(screen.getByLabelText("Sort repositories"), {
+      target: { value: "stars" },
+    });
+    fireEvent.change(screen.getByLabelText("Filter by language"), {
+      target: { value: "Go" },
+    });
+    fireEvent.change(screen.getByLabelText("Filter by type"), {
+      target: { value: "forks" },
+    });
+    fireEvent.change(screen.getByLabelText("Filter archived repositories"), {
+      target: { value: "exclude" },
+    });
+    fireEvent.change(screen.getByLabelText("Filter by topic"), {
+      target: { value: "cli" },
+    });
+
+    expect(onChange.mock.calls).toEqual([
+      [{ query: "api" }],
+      [{ sort: "stars" }],
+      [{ language: "Go" }],
+      [{ type: "forks" }],
+      [{ archived: "exclude" }],
+      [{ topic: "cli" }],
+    ]);
+  });
+
+  it("shows the result count and a clear button only when filtered", () => {
+    const { onReset } = renderToolbar({
+      filters: { ...DEFAULT_REPOSITORY_FILTERS, language: "Go" },
+    });
+
+    expect(
+      screen.getByText("Showing 3 of 10 repositories")
+    ).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Clear filters" }));
+    expect(onReset).toHaveBeenCalled();
+  });
+
+  it("hides the topic filter when no repository has topics", () => {
+    renderToolbar({ topics: [] });
+
+    expect(screen.queryByLabelText("Filter by topic")).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Clear filters" })
+    ).not.toBeInTheDocument();
+  });
+});
+
+describe("useRepositoryFilters", () => {
+  const renderFiltersHook = (url: string) =>
+    renderHook(() => ({ ...useRepositoryFilters(), location: useLocation() }), {
+      wrapper: ({ children }) => (
+        <MemoryRouter
+          initialEntries={[url]}
+          future={{ v7_startTransition: true, v7_relativeSplatPath: true }}
+        >
+          {children}
+        </MemoryRouter>
+      ),
+    });
+
+  it("reads the initial filters from the URL", () => {
+    const { result } = renderFiltersHook("/users/octocat?lang=Go&sort=stars");
+
+    expect(result.current.filters).toMatchObject({
+      language: "Go",
+      sort: "stars",
+    });
+  });
+
+  it("writes changes back to the URL and keeps other parameters", () => {
+    const { result } = renderFiltersHook("/users/octocat/repos?tab=repos");
+
+    act(() => result.current.updateFilters({ query: "api", topic: "cli" }));
+    expect(result.current.location.search).toBe("?tab=repos&q=api&topic=cli");
+    expect(result.current.location.pathname).toBe("/users/octocat/repos");
+
+    act(() => result.current.resetFilters());
+    expect(result.current.location.search).toBe("?tab=repos");
+    expect(result.current.filters).toEqual(DEFAULT_REPOSITORY_FILTERS);
+  });
+});
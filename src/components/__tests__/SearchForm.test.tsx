@@ -109,4 +109,123 @@ describe("SearchForm", () => {
     const input = screen.getByRole("textbox");
     expect(input).toHaveFocus();
   });
+
+  describe("advanced mode", () => {
+    it("builds qualifiers into the editable query", async () => {
+      const user = userEvent.setup();
+      render(<SearchForm onSearch={mockOnSearch} />);
+
+      await user.type(screen.getByPlaceholderText("Enter username"), "tom");
+      await user.click(screen.getByRole("switch", { name: "Advanced" }));
+
+      await user.selectOptions(screen.getByLabelText("Account type"), "user");
+      await user.type(screen.getByLabelText("Location"), "San Francisco");
+      await user.type(screen.getByLabelText("Followers"), ">100");
+      await user.click(screen.getByRole("checkbox", { name: "name" }));
+
+      const query = screen.getByPlaceholderText("Enter username");
+      expect(query).toHaveValue(
+        'tom type:user in:name location:"San Francisco" followers:>100'
+      );
+
+      // Editing the text updates the builder
+      await user.clear(query);
+      await user.type(query, "jane location:Berlin");
+      expect(screen.getByLabelText("Location")).toHaveValue("Berlin");
+      expect(screen.getByLabelText("Followers")).toHaveValue("");
+    });
+
+    it("turns join dates into a created range", async () => {
+      const user = userEvent.setup();
+      render(<SearchForm onSearch={mockOnSearch} />);
+
+      await user.click(screen.getByRole("switch", { name: "Advanced" }));
+      fireEvent.change(screen.getByLabelText("Joined after"), {
+        target: { value: "2019-01-01" },
+      });
+      expect(screen.getByPlaceholderText("Enter username")).toHaveValue(
+        "created:>=2019-01-01"
+      );
+
+      fireEvent.change(screen.getByLabelText("Joined before"), {
+        target: { value: "2020-12-31" },
+      });
+      expect(screen.getByPlaceholderText("Enter username")).toHaveValue(
+        "created:2019-01-01..2020-12-31"
+      );
+    });
+
+    it("submits the query with the chosen sort order", async () => {
+      const user = userEvent.setup();
+      render(<SearchForm onSearch={mockOnSearch} />);
+
+      await user.click(screen.getByRole("switch", { name: "Advanced" }));
+      await user.type(screen.getByLabelText("Language"), "Rust");
+      await user.selectOptions(
+        screen.getByLabelText("Sort by"),
+        "Fewest followers"
+      );
+      await user.click(screen.getByRole("button", { name: /search/i }));
+
+      expect(mockOnSearch).toHaveBeenCalledWith("language:Rust", {
+        sort: "followers",
+        order: "asc",
+      });
+    });
+
+    it("reports invalid qualifiers instead of searching", async () => {
+      const user = userEvent.setup();
+      render(<SearchForm onSearch={mockOnSearch} />);
+
+      await user.type(screen.getByRole("textbox"), "tom followers:many");
+      await user.keyboard("{Enter}");
+
+      expect(
+        screen.getByText(
+          "followers: expects a number or range like >100 or 10..50"
+        )
+      ).toBeInTheDocument();
+      expect(mockOnSearch).not.toHaveBeenCalled();
+    });
+
+    it("opens with the builder when the initial query has qualifiers", () => {
+      render(
+        <SearchForm
+          onSearch={mockOnSearch}
+          initialQuery="type:org location:Berlin"
+        />
+      );
+
+      expect(screen.getByRole("switch", { name: "Advanced" })).toBeChecked();
+      expect(screen.getByLabelText("Account type")).toHaveValue("org");
+    });
+
+    it("offers repository qualifiers and sort orders in repository mode", async () => {
+      const user = userEvent.setup();
+      render(
+        <SearchForm
+          mode="repositories"
+          onSearch={mockOnSearch}
+          placeholder="Enter keywords"
+        />
+      );
+
+      await user.type(screen.getByPlaceholderText("Enter keywords"), "cli");
+      await user.click(screen.getByRole("switch", { name: "Advanced" }));
+      expect(screen.queryByLabelText("Account type")).not.toBeInTheDocument();
+
+      await user.type(screen.getByLabelText("Topic"), "rust");
+      await user.type(screen.getByLabelText("Stars"), ">500");
+      fireEvent.change(screen.getByLabelText("Pushed after"), {
+        target: { value: "2024-01-01" },
+      });
+      await user.selectOptions(screen.getByLabelText("Sort by"), "Most stars");
+      await user.click(screen.getByRole("button", { name: /search/i }));
+
+      expect(mockOnSearch).toHaveBeenCalledWith(
+        "cli topic:rust stars:>500 pushed:>=2024-01-01",
+        { sort: "stars", order: "desc" }
+      );
+    });
+  });
 });
@@ -0,0 +1,129 @@
+import React from "react";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { TokenSettings } from "../TokenSettings";
+import { useAuthStore } from "../../store/useAuthStore";
+import { useRateLimitStore } from "../../store/useRateLimitStore";
+
+global.fetch = jest.fn();
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const renderWithClient = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: { mutations: { retry: false } },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <TokenSettings />
+    </QueryClientProvider>
+  );
+};
+
+const mockAuthenticatedUser = {
+  id: 42,
+  login: "octocat",
+  avatar_url: "https://avatar.com/octocat",
+  html_url: "https://github.com/octocat",
+  type: "User",
+};
+
+describe("TokenSettings", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    useAuthStore.getState().signOut();
+  });
+
+  it("keeps the token form collapsed by default", () => {
+    renderWithClient();
+
+    expect(
+      screen.getByRole("button", { name: /token settings/i })
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByLabelText("Personal access token")
+    ).not.toBeInTheDocument();
+  });
+
+  it("validates and stores a token", async () => {
+    const user = userEvent.setup();
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockAuthenticatedUser,
+    } as Response);
+
+    renderWithClient();
+
+    await user.click(screen.getByRole("button", { name: /token settings/i }));
+    await user.type(screen.getByLabelText("Personal access token"), "ghp_abc");
+    await user.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("octocat")).toBeInTheDocument();
+    });
+    expect(screen.getByText(/Signed in as/)).toBeInTheDocument();
+    expect(useAuthStore.getState().token).toBe("ghp_abc");
+  });
+
+  it("clears the anonymous quota once signed in", async () => {
+    const user = userEvent.setup();
+    useRateLimitStore.getState().updateQuota({
+      resource: "core",
+      limit: 60,
+      remaining: 0,
+      used: 60,
+      reset: Math.floor(Date.now() / 1000) + 60 * 60,
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockAuthenticatedUser,
+    } as Response);
+
+    renderWithClient();
+
+    await user.click(screen.getByRole("button", { name: /token settings/i }));
+    await user.type(screen.getByLabelText("Personal access token"), "ghp_abc");
+    await user.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => {
+      expect(useAuthStore.getState().token).toBe("ghp_abc");
+    });
+    expect(useRateLimitStore.getState().quotas).toEqual({});
+  });
+
+  it("shows an error for an invalid token", async () => {
+    const user = userEvent.setup();
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      json: async () => ({ message: "Bad credentials" }),
+    } as Response);
+
+    renderWithClient();
+
+    await user.click(screen.getByRole("button", { name: /token settings/i }));
+    await user.type(screen.getByLabelText("Personal access token"), "bad");
+    await user.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Invalid token. Please check the token and try again.")
+      ).toBeInTheDocument();
+    });
+    expect(useAuthStore.getState().token).toBeNull();
+  });
+
+  it("signs out", async () => {
+    const user = userEvent.setup();
+    useAuthStore.getState().signIn("ghp_abc", mockAuthenticatedUser);
+
+    renderWithClient();
+
+    await user.click(screen.getByRole("button", { name: /sign out/i }));
+
+    expect(useAuthStore.getState().token).toBeNull();
+    expect(
+      screen.getByRole("button", { name: /token settings/i })
+    ).toBeInTheDocument();
+  });
+});
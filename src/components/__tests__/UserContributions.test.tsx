@@ -1,7 +1,13 @@
 import React from "react";
-import { render, screen } from "@testing-library/react";
+import { fireEvent, render, screen } from "@testing-library/react";
 import { UserContributions } from "../UserContributions";
-import { GitHubContributionStats, GitHubEvent } from "../../types/github";
+import {
+  GitHubContributionStats,
+  GitHubEvent,
+  GitHubPullRequestEvent,
+  GitHubIssuesEvent,
+  GitHubPushEvent,
+} from "../../types/github";
 
 // Mock lucide-react icons
 jest.mock("lucide-react", () => ({
@@ -31,6 +37,49 @@ jest.mock("lucide-react", () => ({
   ),
 }));
 
+const pushPayload: GitHubPushEvent["payload"] = {
+  ref: "refs/heads/main",
+  head: "abc1234def5678",
+  before: "0123456789abcd",
+};
+
+const fixCommit = {
+  sha: "abc1234def5678",
+  message: "Fix the build\n\nThe lockfile was stale.",
+  author: { name: "Test User", email: "test@example.com" },
+  distinct: true,
+};
+
+// Just enough payload for each event type's summary
+const samplePayloads: Record<string, object> = {
+  PushEvent: pushPayload,
+  PullRequestEvent: {
+    action: "opened",
+    number: 7,
+    pull_request: {
+      number: 7,
+      title: "Add dark mode",
+      html_url: "https://github.com/user/another-repo/pull/7",
+    },
+  },
+  IssuesEvent: {
+    action: "opened",
+    issue: {
+      number: 3,
+      title: "Crash on start",
+      html_url: "https://github.com/user/test-repo/issues/3",
+    },
+  },
+  CreateEvent: { ref: null, ref_type: "repository" },
+  ForkEvent: {
+    forkee: {
+      full_name: "someone/test-repo",
+      html_url: "https://github.com/someone/test-repo",
+    },
+  },
+  WatchEvent: { action: "started" },
+};
+
 describe("UserContributions", () => {
   const mockStats: GitHubContributionStats = {
     totalCommits: 150,
@@ -47,7 +96,7 @@ describe("UserContributions", () => {
           name: "test-repo",
           url: "https://github.com/user/test-repo",
         },
-        payload: {},
+        payload: { ...pushPayload, size: 1, commits: [fixCommit] },
       },
       {
         id: "2",
@@ -60,7 +109,8 @@ describe("UserContributions", () => {
           name: "another-repo",
           url: "https://github.com/user/another-repo",
         },
-        payload: {},
+        payload:
+          samplePayloads.PullRequestEvent as GitHubPullRequestEvent["payload"],
       },
       {
         id: "3",
@@ -68,9 +118,12 @@ describe("UserContributions", () => {
         created_at: new Date(
           Date.now() - 10 * 24 * 60 * 60 * 1000
         ).toISOString(), // 10 days ago
-        payload: {},
+        payload: samplePayloads.IssuesEvent as GitHubIssuesEvent["payload"],
       },
     ],
+    source: "graphql",
+    coverageStart: "2023-01-01T00:00:00Z",
+    calendar: null,
   };
 
   const emptyStats: GitHubContributionStats = {
@@ -79,6 +132,9 @@ describe("UserContributions", () => {
     totalIssues: 0,
     totalRepositories: 0,
     recentActivity: [],
+    source: "graphql",
+    coverageStart: "2023-01-01T00:00:00Z",
+    calendar: null,
   };
 
   beforeEach(() => {
@@ -182,17 +238,19 @@ describe("UserContributions", () => {
       render(<UserContributions stats={mockStats} />);
 
       // Check PushEvent
-      expect(screen.getByText("Pushed commits")).toBeInTheDocument();
+      expect(screen.getByText("Pushed 1 commit to main")).toBeInTheDocument();
+      expect(screen.getByText("Fix the build")).toBeInTheDocument();
       expect(screen.getByText("in test-repo")).toBeInTheDocument();
       expect(screen.getByText("2h ago")).toBeInTheDocument();
 
       // Check PullRequestEvent
-      expect(screen.getByText("Pull request")).toBeInTheDocument();
+      expect(screen.getByText("Opened pull request #7")).toBeInTheDocument();
+      expect(screen.getByText("Add dark mode")).toBeInTheDocument();
       expect(screen.getByText("in another-repo")).toBeInTheDocument();
       expect(screen.getByText("2d ago")).toBeInTheDocument();
 
       // Check IssuesEvent (no repo)
-      expect(screen.getByText("Issue activity")).toBeInTheDocument();
+      expect(screen.getByText("Opened issue #3")).toBeInTheDocument();
     });
 
     it("displays correct icons for different event types", () => {
@@ -214,11 +272,11 @@ describe("UserContributions", () => {
   });
 
   describe("Formatting Functions", () => {
-    describe("formatEventType", () => {
+    describe("event summaries", () => {
       const eventTypeTests = [
-        { input: "PushEvent", expected: "Pushed commits" },
-        { input: "PullRequestEvent", expected: "Pull request" },
-        { input: "IssuesEvent", expected: "Issue activity" },
+        { input: "PushEvent", expected: "Pushed to main" },
+        { input: "PullRequestEvent", expected: "Opened pull request #7" },
+        { input: "IssuesEvent", expected: "Opened issue #3" },
         { input: "CreateEvent", expected: "Created repository" },
         { input: "ForkEvent", expected: "Forked repository" },
         { input: "WatchEvent", expected: "Starred repository" },
@@ -235,8 +293,8 @@ describe("UserContributions", () => {
                 id: "test",
                 type: input,
                 created_at: new Date().toISOString(),
-                payload: {},
-              },
+                payload: samplePayloads[input] ?? {},
+              } as GitHubEvent,
             ],
           };
 
@@ -256,7 +314,7 @@ describe("UserContributions", () => {
               id: "recent",
               type: "PushEvent",
               created_at: oneHourAgo,
-              payload: {},
+              payload: pushPayload,
             },
           ],
         };
@@ -276,7 +334,7 @@ describe("UserContributions", () => {
               id: "weekly",
               type: "PushEvent",
               created_at: threeDaysAgo,
-              payload: {},
+              payload: pushPayload,
             },
           ],
         };
@@ -294,7 +352,7 @@ describe("UserContributions", () => {
               id: "old",
               type: "PushEvent",
               created_at: oldDate.toISOString(),
-              payload: {},
+              payload: pushPayload,
             },
           ],
         };
@@ -330,8 +388,8 @@ describe("UserContributions", () => {
               id: "icon-test",
               type: eventType,
               created_at: new Date().toISOString(),
-              payload: {},
-            },
+              payload: samplePayloads[eventType] ?? {},
+            } as GitHubEvent,
           ],
         };
 
@@ -379,14 +437,14 @@ describe("UserContributions", () => {
             id: "no-repo",
             type: "PushEvent",
             created_at: new Date().toISOString(),
-            payload: {},
+            payload: pushPayload,
           },
         ],
       };
 
       render(<UserContributions stats={statsWithoutRepo} />);
 
-      expect(screen.getByText("Pushed commits")).toBeInTheDocument();
+      expect(screen.getByText("Pushed to main")).toBeInTheDocument();
       expect(screen.queryByText(/in test-repo/)).not.toBeInTheDocument();
       expect(screen.queryByText(/in another-repo/)).not.toBeInTheDocument();
     });
@@ -410,4 +468,169 @@ describe("UserContributions", () => {
       ).not.toBeInTheDocument();
     });
   });
+
+  describe("Load Older Activity", () => {
+    const manyEvents: GitHubEvent[] = Array.from({ length: 25 }, (_, i) => ({
+      id: `event-${i}`,
+      type: "PushEvent",
+      created_at: new Date(Date.now() - (i + 1) * 60 * 60 * 1000).toISOString(),
+      repo: {
+        id: i,
+        name: `repo-${i}`,
+        url: `https://github.com/user/repo-${i}`,
+      },
+      payload: pushPayload,
+    }));
+
+    it("shows ten activities at a time", () => {
+      render(
+        <UserContributions
+          stats={{ ...mockStats, recentActivity: manyEvents }}
+        />
+      );
+
+      expect(screen.getAllByText(/in repo-/)).toHaveLength(10);
+      expect(screen.queryByText("in repo-10")).not.toBeInTheDocument();
+
+      fireEvent.click(
+        screen.getByRole("button", { name: "Load older activity" })
+      );
+      expect(screen.getAllByText(/in repo-/)).toHaveLength(20);
+      expect(screen.getByText("in repo-10")).toBeInTheDocument();
+
+      fireEvent.click(
+        screen.getByRole("button", { name: "Load older activity" })
+      );
+      expect(screen.getAllByText(/in repo-/)).toHaveLength(25);
+      expect(
+        screen.queryByRole("button", { name: "Load older activity" })
+      ).not.toBeInTheDocument();
+    });
+
+    it("starts from the first page again when the day changes", () => {
+      const day = manyEvents[0].created_at.slice(0, 10);
+      render(
+        <UserContributions
+          stats={{ ...mockStats, recentActivity: manyEvents }}
+        />
+      );
+
+      fireEvent.click(
+        screen.getByRole("button", { name: "Load older activity" })
+      );
+      expect(screen.getAllByText(/in repo-/)).toHaveLength(20);
+
+      const cell = screen
+        .getAllByRole("gridcell")
+        .find((element) => element.getAttribute("data-date") === day);
+      fireEvent.click(cell as HTMLElement);
+      fireEvent.click(screen.getByRole("button", { name: "Show all" }));
+
+      expect(screen.getAllByText(/in repo-/)).toHaveLength(10);
+    });
+
+    it("hides the button when everything fits", () => {
+      render(<UserContributions stats={mockStats} />);
+
+      expect(
+        screen.queryByRole("button", { name: "Load older activity" })
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Contribution Calendar", () => {
+    it("renders a calendar from the GraphQL contribution days", () => {
+      render(
+        <UserContributions
+          stats={{
+            ...mockStats,
+            calendar: {
+              totalContributions: 7,
+              weeks: [
+                {
+                  contributionDays: [
+                    {
+                      date: "2024-08-04",
+                      contributionCount: 7,
+                      color: "#216e39",
+                      weekday: 0,
+                    },
+                  ],
+                },
+              ],
+            },
+          }}
+        />
+      );
+
+      expect(screen.getAllByRole("gridcell")).toHaveLength(1);
+      expect(
+        screen.getByRole("gridcell", { name: "7 contributions on Aug 4, 2024" })
+      ).toBeInTheDocument();
+    });
+
+    it("filters recent activity to the clicked day", () => {
+      const day = mockStats.recentActivity[1].created_at.slice(0, 10);
+      render(<UserContributions stats={mockStats} />);
+
+      const cell = screen
+        .getAllByRole("gridcell")
+        .find((element) => element.getAttribute("data-date") === day);
+      fireEvent.click(cell as HTMLElement);
+
+      expect(screen.getByText(/Showing activity for/)).toBeInTheDocument();
+      expect(screen.getByText("in another-repo")).toBeInTheDocument();
+      expect(screen.queryByText("in test-repo")).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole("button", { name: "Show all" }));
+      expect(screen.getByText("in test-repo")).toBeInTheDocument();
+    });
+  });
+
+  describe("Coverage Window", () => {
+    it("labels events-based stats with the oldest event seen", () => {
+      render(
+        <UserContributions
+          stats={{
+            ...mockStats,
+            source: "events",
+            coverageStart: "2024-08-03T12:00:00Z",
+          }}
+        />
+      );
+
+      expect(screen.getByText("Recent contributions")).toBeInTheDocument();
+      expect(
+        screen.queryByText("Contributions in the last year")
+      ).not.toBeInTheDocument();
+      expect(
+        screen.getByText(
+          "Based on public activity since Aug 3. Add a token for full-year totals."
+        )
+      ).toBeInTheDocument();
+    });
+
+    it("falls back to the events window when no events were seen", () => {
+      render(
+        <UserContributions
+          stats={{ ...emptyStats, source: "events", coverageStart: null }}
+        />
+      );
+
+      expect(
+        screen.getByText(
+          "Based on public activity from the last 90 days. Add a token for full-year totals."
+        )
+      ).toBeInTheDocument();
+      expect(
+        screen.getByText("No public activity found in the last 90 days.")
+      ).toBeInTheDocument();
+    });
+
+    it("omits the coverage note for full-year GraphQL stats", () => {
+      render(<UserContributions stats={mockStats} />);
+
+      expect(screen.queryByText(/Based on public activity/)).toBeNull();
+    });
+  });
 });
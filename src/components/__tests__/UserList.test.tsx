@@ -1,7 +1,7 @@
 import React from "react";
 import { render, screen, fireEvent } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
-import { UserList } from "../UserList";
+import { UserList, UserListPaging } from "../UserList";
 import { GitHubUser } from "../../types/github";
 
 const mockUsers: GitHubUser[] = [
@@ -129,6 +129,24 @@ describe("UserList", () => {
     expect(screen.getByText("noavatar")).toBeInTheDocument();
   });
 
+  it("shows a countdown instead of the raw message when rate limited", () => {
+    render(
+      <UserList
+        users={[]}
+        onUserSelect={mockOnUserSelect}
+        error="API rate limit exceeded"
+        rateLimitResetAt={new Date(Date.now() + 90 * 1000)}
+      />
+    );
+
+    expect(
+      screen.getByText(/Rate limit reached\. Try again in 1m 3\ds\./)
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByText("API rate limit exceeded")
+    ).not.toBeInTheDocument();
+  });
+
   it("shows correct header text", () => {
     render(<UserList users={mockUsers} onUserSelect={mockOnUserSelect} />);
 
@@ -145,4 +163,143 @@ describe("UserList", () => {
       expect(button).toHaveClass("hover:bg-accent");
     });
   });
+
+  describe("paging", () => {
+    const paging = (
+      overrides: Partial<UserListPaging> = {}
+    ): UserListPaging => ({
+      page: 2,
+      perPage: 5,
+      totalCount: 12,
+      incompleteResults: false,
+      onPageChange: jest.fn(),
+      onPerPageChange: jest.fn(),
+      ...overrides,
+    });
+
+    it("shows the range and total of the current page", () => {
+      render(
+        <UserList
+          users={mockUsers}
+          onUserSelect={mockOnUserSelect}
+          paging={paging()}
+        />
+      );
+
+      expect(screen.getByText("Showing 6–7 of 12 users")).toBeInTheDocument();
+      expect(screen.getByText("Page 2 of 3")).toBeInTheDocument();
+    });
+
+    it("moves between pages and changes the page size", async () => {
+      const user = userEvent.setup();
+      const handlers = paging();
+      render(
+        <UserList
+          users={mockUsers}
+          onUserSelect={mockOnUserSelect}
+          paging={handlers}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Next page" }));
+      expect(handlers.onPageChange).toHaveBeenCalledWith(3);
+
+      await user.click(screen.getByRole("button", { name: "Previous page" }));
+      expect(handlers.onPageChange).toHaveBeenCalledWith(1);
+
+      await user.selectOptions(screen.getByLabelText("Users per page"), "30");
+      expect(handlers.onPerPageChange).toHaveBeenCalledWith(30);
+    });
+
+    it("stops at the last page GitHub will serve", () => {
+      render(
+        <UserList
+          users={mockUsers}
+          onUserSelect={mockOnUserSelect}
+          paging={paging({ page: 200, totalCount: 45_000 })}
+        />
+      );
+
+      expect(
+        screen.getByText(
+          "Showing 996–997 of 45,000 users (GitHub only serves the first 1,000)"
+        )
+      ).toBeInTheDocument();
+      expect(screen.getByText("Page 200 of 200")).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Next page" })).toBeDisabled();
+    });
+
+    it("hides page buttons when everything fits on one page", () => {
+      render(
+        <UserList
+          users={mockUsers}
+          onUserSelect={mockOnUserSelect}
+          paging={paging({ page: 1, totalCount: 2 })}
+        />
+      );
+
+      expect(
+        screen.queryByRole("button", { name: "Next page" })
+      ).not.toBeInTheDocument();
+      expect(screen.getByLabelText("Users per page")).toHaveValue("5");
+    });
+
+    it("warns when GitHub reports incomplete results", () => {
+      render(
+        <UserList
+          users={mockUsers}
+          onUserSelect={mockOnUserSelect}
+          paging={paging({ incompleteResults: true })}
+        />
+      );
+
+      expect(screen.getByRole("status")).toHaveTextContent(
+        /some matching users may be missing/
+      );
+    });
+  });
+
+  describe("comparison", () => {
+    it("toggles users for comparison without opening them", async () => {
+      const user = userEvent.setup();
+      const onToggle = jest.fn();
+      render(
+        <UserList
+          users={mockUsers}
+          onUserSelect={mockOnUserSelect}
+          comparison={{ selected: [], onToggle, max: 4 }}
+        />
+      );
+
+      await user.click(
+        screen.getByRole("checkbox", { name: "Compare testuser2" })
+      );
+
+      expect(onToggle).toHaveBeenCalledWith(mockUsers[1]);
+      expect(mockOnUserSelect).not.toHaveBeenCalled();
+    });
+
+    it("stops at the maximum and skips organizations", () => {
+      render(
+        <UserList
+          users={[
+            ...mockUsers,
+            { ...mockUsers[0], id: 3, login: "acme", type: "Organization" },
+          ]}
+          onUserSelect={mockOnUserSelect}
+          comparison={{ selected: ["TestUser1"], onToggle: jest.fn(), max: 1 }}
+        />
+      );
+
+      expect(
+        screen.getByRole("checkbox", { name: "Compare testuser1" })
+      ).toBeChecked();
+      expect(
+        screen.getByRole("checkbox", { name: "Compare testuser2" })
+      ).toBeDisabled();
+      expect(
+        screen.getByRole("checkbox", { name: "Compare acme" })
+      ).toBeDisabled();
+    });
+  });
 });
@@ -0,0 +1,25 @@
+import * as React from "react";
+
+import { cn } from "../../lib/utils";
+
+export interface NativeSelectProps
+  extends React.SelectHTMLAttributes<HTMLSelectElement> {}
+
+// A native <select> styled to match the Input component
+const NativeSelect = React.forwardRef<HTMLSelectElement, NativeSelectProps>(
+  ({ className, ...props }, ref) => {
+    return (
+      <select
+        className={cn(
+          "h-10 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50",
+          className
+        )}
+        ref={ref}
+        {...props}
+      />
+    );
+  }
+);
+NativeSelect.displayName = "NativeSelect";
+
+export { NativeSelect };
@@ -1,19 +1,104 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { githubApi, GitHubApiError } from "../services/githubApi";
+import { useState } from "react";
+import {
+  useQueries,
+  useQuery,
+  useMutation,
+  QueryClient,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  githubApi,
+  GitHubApiError,
+  RateLimitError,
+} from "../services/githubApi";
+import { PaginationProgress } from "../services/pagination";
+import { GitHubRepository, GitHubRepositoryLanguages } from "../types/github";
+import { collectLanguageSample } from "../services/languageStats";
+import { getSpareRequests } from "../services/rateLimit";
+import { DEFAULT_SEARCH_PAGE_SIZE } from "../services/searchPaging";
+import {
+  DEFAULT_USER_SEARCH_SORTING,
+  UserSearchSorting,
+} from "../services/userSearchQuery";
+import {
+  DEFAULT_REPOSITORY_SEARCH_SORTING,
+  RepositorySearchSorting,
+} from "../services/repositorySearchQuery";
+import { useAuthStore } from "../store/useAuthStore";
+import { useRateLimitStore } from "../store/useRateLimitStore";
 
-export const useSearchUsers = (query: string, enabled: boolean = true) => {
+// Auth, rate limit and not found errors won't go away by retrying
+const retryUnlessFatal = (failureCount: number, error: Error) => {
+  if (
+    error instanceof RateLimitError ||
+    (error instanceof GitHubApiError &&
+      (error.status === 401 || error.status === 403 || error.status === 404))
+  ) {
+    return false;
+  }
+  return failureCount < 3;
+};
+
+export const useSearchUsers = (
+  query: string,
+  page: number = 1,
+  perPage: number = DEFAULT_SEARCH_PAGE_SIZE,
+  sorting: UserSearchSorting = DEFAULT_USER_SEARCH_SORTING,
+  enabled: boolean = true
+) => {
   return useQuery({
-    queryKey: ["users", "search", query],
-    queryFn: () => githubApi.searchUsers(query, 5),
+    queryKey: [
+      "users",
+      "search",
+      query,
+      page,
+      perPage,
+      sorting.sort,
+      sorting.order,
+    ],
+    queryFn: ({ signal }) =>
+      githubApi.searchUsersPage(query, page, perPage, { ...sorting, signal }),
     enabled: enabled && query.trim().length > 0,
+    // Keep the current page on screen while the next one loads, but not
+    // across different searches
+    placeholderData: (previousData, previousQuery) =>
+      previousQuery?.queryKey[2] === query ? previousData : undefined,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
-    retry: (failureCount, error) => {
-      if (error instanceof GitHubApiError && error.status === 403) {
-        return false; // Don't retry rate limit errors
-      }
-      return failureCount < 3;
-    },
+    retry: retryUnlessFatal,
+  });
+};
+
+export const useSearchRepositories = (
+  query: string,
+  page: number = 1,
+  perPage: number = DEFAULT_SEARCH_PAGE_SIZE,
+  sorting: RepositorySearchSorting = DEFAULT_REPOSITORY_SEARCH_SORTING,
+  enabled: boolean = true
+) => {
+  return useQuery({
+    queryKey: [
+      "repositories",
+      "search",
+      query,
+      page,
+      perPage,
+      sorting.sort,
+      sorting.order,
+    ],
+    queryFn: ({ signal }) =>
+      githubApi.searchRepositoriesPage(query, page, perPage, {
+        ...sorting,
+        signal,
+      }),
+    enabled: enabled && query.trim().length > 0,
+    // Keep the current page on screen while the next one loads, but not
+    // across different searches
+    placeholderData: (previousData, previousQuery) =>
+      previousQuery?.queryKey[2] === query ? previousData : undefined,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: retryUnlessFatal,
   });
 };
 
@@ -21,57 +106,388 @@ export const useUserRepositories = (
   username: string,
   enabled: boolean = true
 ) => {
-  return useQuery({
+  const [progress, setProgress] = useState<PaginationProgress | null>(null);
+
+  const query = useQuery({
     queryKey: ["repositories", username],
-    queryFn: () => githubApi.getUserRepositories(username),
+    queryFn: ({ signal }) => {
+      setProgress(null); // Don't show the previous user's progress
+      return githubApi.getUserRepositories(username, {
+        onProgress: setProgress,
+        signal,
+      });
+    },
     enabled: enabled && !!username && username.length > 0,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
-    retry: (failureCount, error) => {
-      if (error instanceof GitHubApiError && error.status === 403) {
-        return false; // Don't retry rate limit errors
-      }
-      return failureCount < 3;
+    retry: retryUnlessFatal,
+  });
+
+  return { ...query, progress };
+};
+
+export const useUserStarred = (username: string, enabled: boolean = true) => {
+  const [progress, setProgress] = useState<PaginationProgress | null>(null);
+
+  const query = useQuery({
+    queryKey: ["starred", username],
+    queryFn: ({ signal }) => {
+      setProgress(null); // Don't show the previous user's progress
+      return githubApi.getUserStarred(username, {
+        onProgress: setProgress,
+        signal,
+      });
+    },
+    enabled: enabled && !!username,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: retryUnlessFatal,
+  });
+
+  return { ...query, progress };
+};
+
+export const useOrganizationRepositories = (
+  org: string,
+  enabled: boolean = true
+) => {
+  const [progress, setProgress] = useState<PaginationProgress | null>(null);
+
+  const query = useQuery({
+    queryKey: ["organization", org, "repositories"],
+    queryFn: ({ signal }) => {
+      setProgress(null); // Don't show the previous organization's progress
+      return githubApi.getOrganizationRepositories(org, {
+        onProgress: setProgress,
+        signal,
+      });
     },
+    enabled: enabled && !!org,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: retryUnlessFatal,
+  });
+
+  return { ...query, progress };
+};
+
+export const useOrganization = (org: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: ["organization", org],
+    queryFn: ({ signal }) => githubApi.getOrganization(org, { signal }),
+    enabled: enabled && !!org,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: retryUnlessFatal,
+  });
+};
+
+export const useOrganizationMembers = (
+  org: string,
+  enabled: boolean = true
+) => {
+  return useQuery({
+    queryKey: ["organization", org, "members"],
+    queryFn: ({ signal }) => githubApi.getOrganizationMembers(org, { signal }),
+    enabled: enabled && !!org,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: retryUnlessFatal,
+  });
+};
+
+export const useUserFollowers = (username: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: ["followers", username],
+    queryFn: ({ signal }) => githubApi.getUserFollowers(username, { signal }),
+    enabled: enabled && !!username,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: retryUnlessFatal,
+  });
+};
+
+export const useUserFollowing = (username: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: ["following", username],
+    queryFn: ({ signal }) => githubApi.getUserFollowing(username, { signal }),
+    enabled: enabled && !!username,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: retryUnlessFatal,
   });
 };
 
 export const useUser = (username: string, enabled: boolean = true) => {
   return useQuery({
     queryKey: ["user", username],
-    queryFn: () => githubApi.getUser(username),
+    queryFn: ({ signal }) => githubApi.getUser(username, { signal }),
     enabled: enabled && !!username && username.length > 0,
     staleTime: 10 * 60 * 1000, // 10 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes
-    retry: (failureCount, error) => {
-      if (
-        error instanceof GitHubApiError &&
-        (error.status === 403 || error.status === 404)
-      ) {
-        return false; // Don't retry rate limit or not found errors
-      }
-      return failureCount < 3;
-    },
+    retry: retryUnlessFatal,
   });
 };
 
+const userOverviewQuery = (username: string, isAuthenticated: boolean) => ({
+  queryKey: ["overview", username, isAuthenticated],
+  queryFn: ({ signal }: { signal: AbortSignal }) =>
+    githubApi.getUserOverview(username, { signal }),
+  staleTime: 15 * 60 * 1000, // 15 minutes
+  gcTime: 30 * 60 * 1000, // 30 minutes
+});
+
+// Shared by every hook that reads contribution stats, so the cache entry is
+// produced the same way whichever of them fills it first
+const userContributionStatsQuery = (
+  queryClient: QueryClient,
+  username: string,
+  isAuthenticated: boolean
+) => ({
+  queryKey: ["contributions", username, isAuthenticated],
+  // With a token the overview query already carries the contributions
+  // collection; share it (and any request in flight)
+  queryFn: async ({ signal }: { signal: AbortSignal }) => {
+    const overview = isAuthenticated
+      ? await queryClient.fetchQuery(userOverviewQuery(username, true))
+      : undefined;
+    return githubApi.getUserContributionStats(username, { signal, overview });
+  },
+  staleTime: 15 * 60 * 1000, // 15 minutes (contributions don't change as frequently)
+  gcTime: 30 * 60 * 1000, // 30 minutes
+  retry: retryUnlessFatal,
+});
+
 export const useUserContributionStats = (
   username: string,
   enabled: boolean = true
 ) => {
+  // Full-year totals come from GraphQL only when a token is configured
+  const isAuthenticated = useAuthStore((state) => !!state.token);
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    ...userContributionStatsQuery(queryClient, username, isAuthenticated),
+    enabled: enabled && !!username && username.length > 0,
+  });
+};
+
+export const useUserOverview = (username: string, enabled: boolean = true) => {
+  // The overview comes from GraphQL only when a token is configured
+  const isAuthenticated = useAuthStore((state) => !!state.token);
+
   return useQuery({
-    queryKey: ["contributions", username],
-    queryFn: () => githubApi.getUserContributionStats(username),
+    ...userOverviewQuery(username, isAuthenticated),
     enabled: enabled && !!username && username.length > 0,
-    staleTime: 15 * 60 * 1000, // 15 minutes (contributions don't change as frequently)
+    retry: retryUnlessFatal,
+  });
+};
+
+export const useUserGists = (username: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: ["gists", username],
+    queryFn: ({ signal }) => githubApi.getUserGists(username, { signal }),
+    enabled: enabled && !!username,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: retryUnlessFatal,
+  });
+};
+
+// File contents only come with the single-gist endpoint, so the viewer loads
+// them when a file is first opened
+export const useGist = (id: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: ["gist", id],
+    queryFn: ({ signal }) => githubApi.getGist(id, { signal }),
+    enabled: enabled && !!id,
+    staleTime: 15 * 60 * 1000, // 15 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes
-    retry: (failureCount, error) => {
-      if (error instanceof GitHubApiError && error.status === 403) {
-        return false; // Don't retry rate limit errors
-      }
-      return failureCount < 3;
+    retry: retryUnlessFatal,
+  });
+};
+
+export const useRepository = (
+  owner: string,
+  repo: string,
+  enabled: boolean = true
+) => {
+  return useQuery({
+    queryKey: ["repository", owner, repo],
+    queryFn: ({ signal }) => githubApi.getRepository(owner, repo, { signal }),
+    enabled: enabled && !!owner && !!repo,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: retryUnlessFatal,
+  });
+};
+
+export const useRepositoryReadme = (
+  owner: string,
+  repo: string,
+  enabled: boolean = true
+) => {
+  return useQuery({
+    queryKey: ["repository", owner, repo, "readme"],
+    queryFn: ({ signal }) =>
+      githubApi.getRepositoryReadme(owner, repo, { signal }),
+    enabled: enabled && !!owner && !!repo,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: retryUnlessFatal,
+  });
+};
+
+const repositoryLanguagesQuery = (owner: string, repo: string) => ({
+  queryKey: ["repository", owner, repo, "languages"],
+  queryFn: ({ signal }: { signal: AbortSignal }) =>
+    githubApi.getRepositoryLanguages(owner, repo, { signal }),
+  staleTime: 30 * 60 * 1000, // 30 minutes (languages rarely change)
+  gcTime: 60 * 60 * 1000, // 1 hour
+});
+
+export const useRepositoryLanguages = (
+  owner: string,
+  repo: string,
+  enabled: boolean = true
+) => {
+  return useQuery({
+    ...repositoryLanguagesQuery(owner, repo),
+    enabled: enabled && !!owner && !!repo,
+    retry: retryUnlessFatal,
+  });
+};
+
+// Core requests byte weighting leaves for the rest of the app
+export const LANGUAGE_QUOTA_RESERVE = 10;
+
+// Byte counts for many repositories at once, sharing useRepositoryLanguages'
+// cache entries. Uncached repositories are only requested while the core
+// quota has requests to spare, so one click can't lock every other view
+// (anonymous users get 60 an hour).
+export const useRepositoriesLanguages = (
+  repositories: GitHubRepository[],
+  enabled: boolean = true
+) => {
+  const queryClient = useQueryClient();
+  const [settled, setSettled] = useState(0);
+
+  const query = useQuery({
+    queryKey: ["languages", repositories.map((repository) => repository.id)],
+    queryFn: ({ signal }) => {
+      setSettled(0);
+      // Re-checked per request for quotas reported while this runs
+      let budget = getSpareRequests("core", LANGUAGE_QUOTA_RESERVE);
+      return collectLanguageSample(
+        repositories,
+        async (repository) => {
+          const [owner] = repository.full_name.split("/");
+          const languagesQuery = repositoryLanguagesQuery(
+            owner,
+            repository.name
+          );
+          const cached = queryClient.getQueryData<GitHubRepositoryLanguages>(
+            languagesQuery.queryKey
+          );
+          if (cached) {
+            return cached;
+          }
+          if (
+            budget <= 0 ||
+            getSpareRequests("core", LANGUAGE_QUOTA_RESERVE) <= 0
+          ) {
+            return null;
+          }
+          budget--;
+          return queryClient.fetchQuery(languagesQuery);
+        },
+        { signal, onProgress: setSettled }
+      );
     },
+    enabled: enabled && repositories.length > 0,
+    // Cheap to re-run: loaded repositories come from their own cache
+    // entries, and skipped ones get another chance at the quota
+    staleTime: 0,
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: false,
   });
+
+  return { ...query, settled };
+};
+
+export const useRepositoryContributors = (
+  owner: string,
+  repo: string,
+  enabled: boolean = true
+) => {
+  return useQuery({
+    queryKey: ["repository", owner, repo, "contributors"],
+    queryFn: ({ signal }) =>
+      githubApi.getRepositoryContributors(owner, repo, 10, { signal }),
+    enabled: enabled && !!owner && !!repo,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: retryUnlessFatal,
+  });
+};
+
+export const useRepositoryReleases = (
+  owner: string,
+  repo: string,
+  enabled: boolean = true
+) => {
+  return useQuery({
+    queryKey: ["repository", owner, repo, "releases"],
+    queryFn: ({ signal }) =>
+      githubApi.getRepositoryReleases(owner, repo, 5, { signal }),
+    enabled: enabled && !!owner && !!repo,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: retryUnlessFatal,
+  });
+};
+
+// Profile, contribution stats and repositories for each compared user, under
+// the same keys as useUser, useUserContributionStats and useUserRepositories
+// so opening a compared user reuses the cache
+export const useUserComparison = (logins: string[]) => {
+  const isAuthenticated = useAuthStore((state) => !!state.token);
+  const queryClient = useQueryClient();
+
+  const users = useQueries({
+    queries: logins.map((login) => ({
+      queryKey: ["user", login],
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        githubApi.getUser(login, { signal }),
+      staleTime: 10 * 60 * 1000, // 10 minutes
+      gcTime: 30 * 60 * 1000, // 30 minutes
+      retry: retryUnlessFatal,
+    })),
+  });
+
+  const stats = useQueries({
+    queries: logins.map((login) =>
+      userContributionStatsQuery(queryClient, login, isAuthenticated)
+    ),
+  });
+
+  const repositories = useQueries({
+    queries: logins.map((login) => ({
+      queryKey: ["repositories", login],
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        githubApi.getUserRepositories(login, { signal }),
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      gcTime: 10 * 60 * 1000, // 10 minutes
+      retry: retryUnlessFatal,
+    })),
+  });
+
+  return logins.map((login, index) => ({
+    login,
+    user: users[index],
+    stats: stats[index],
+    repositories: repositories[index],
+  }));
 };
 
 export const useSearchUsersMutation = () => {
@@ -89,3 +505,38 @@ export const useSearchUsersMutation = () => {
     },
   });
 };
+
+// Quotas and cached results (rate-limit errors included) belong to whoever
+// made the requests, and query keys don't include the token, so both are
+// refreshed whenever the token changes
+const useResetForNewToken = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    useRateLimitStore.getState().resetRateLimits();
+    queryClient.invalidateQueries();
+  };
+};
+
+export const useValidateTokenMutation = () => {
+  const signIn = useAuthStore((state) => state.signIn);
+  const resetForNewToken = useResetForNewToken();
+
+  return useMutation({
+    mutationFn: ({ token }: { token: string }) =>
+      githubApi.getAuthenticatedUser(token),
+    onSuccess: (user, variables) => {
+      signIn(variables.token.trim(), user);
+      resetForNewToken();
+    },
+  });
+};
+
+export const useSignOut = () => {
+  const signOut = useAuthStore((state) => state.signOut);
+  const resetForNewToken = useResetForNewToken();
+
+  return () => {
+    signOut();
+    resetForNewToken();
+  };
+};
@@ -0,0 +1,18 @@
+import { useCallback } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+
+// Goes back through browser history when the app put an entry there, and to
+// `fallback` when the page was opened directly (e.g. from a shared link)
+export const useHistoryBack = (fallback: string) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const hasAppHistory = location.key !== "default";
+
+  return useCallback(() => {
+    if (hasAppHistory) {
+      navigate(-1);
+    } else {
+      navigate(fallback, { replace: true });
+    }
+  }, [fallback, hasAppHistory, navigate]);
+};
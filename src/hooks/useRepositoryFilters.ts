@@ -0,0 +1,48 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  DEFAULT_REPOSITORY_FILTERS,
+  parseRepositoryFilters,
+  RepositoryFilters,
+  serializeRepositoryFilters,
+} from "../services/repositoryFilters";
+
+// Keeps the repository toolbar in the query string so a filtered view can be
+// shared. Replacing the entry avoids a history entry per keystroke.
+export const useRepositoryFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(
+    () => parseRepositoryFilters(searchParams),
+    [searchParams]
+  );
+
+  const setFilters = useCallback(
+    (update: (current: RepositoryFilters) => RepositoryFilters) =>
+      setSearchParams(
+        (params) =>
+          serializeRepositoryFilters(
+            update(parseRepositoryFilters(params)),
+            params
+          ),
+        { replace: true }
+      ),
+    [setSearchParams]
+  );
+
+  const updateFilters = useCallback(
+    (changes: Partial<RepositoryFilters>) =>
+      setFilters((current) => ({ ...current, ...changes })),
+    [setFilters]
+  );
+
+  const resetFilters = useCallback(
+    () =>
+      setFilters((current) => ({
+        ...DEFAULT_REPOSITORY_FILTERS,
+        sort: current.sort,
+      })),
+    [setFilters]
+  );
+
+  return { filters, updateFilters, resetFilters };
+};
@@ -0,0 +1,14 @@
+import { useCallback } from "react";
+import { useHostStore } from "../store/useHostStore";
+import { resolveWebUrl } from "../services/hostConfig";
+
+// Resolves html_url / avatar_url values against the configured web host
+export const useWebUrl = () => {
+  const apiBaseUrl = useHostStore((state) => state.apiBaseUrl);
+  const webBaseUrl = useHostStore((state) => state.webBaseUrl);
+
+  return useCallback(
+    (url: string) => resolveWebUrl(url, { apiBaseUrl, webBaseUrl }),
+    [apiBaseUrl, webBaseUrl]
+  );
+};
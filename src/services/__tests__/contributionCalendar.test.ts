@@ -0,0 +1,140 @@
+import {
+  buildCalendarFromEvents,
+  CALENDAR_WEEKS,
+  fromGraphqlCalendar,
+  getContributionLevel,
+  toDateKey,
+} from "../contributionCalendar";
+import { GitHubEvent } from "../../types/github";
+
+const event = (id: string, createdAt: string): GitHubEvent => ({
+  id,
+  type: "WatchEvent",
+  created_at: createdAt,
+  payload: { action: "started" },
+});
+
+describe("contributionCalendar", () => {
+  describe("getContributionLevel", () => {
+    it("buckets counts into quartiles of the busiest day", () => {
+      expect(getContributionLevel(0, 8)).toBe(0);
+      expect(getContributionLevel(1, 8)).toBe(1);
+      expect(getContributionLevel(3, 8)).toBe(2);
+      expect(getContributionLevel(6, 8)).toBe(3);
+      expect(getContributionLevel(8, 8)).toBe(4);
+      expect(getContributionLevel(3, 0)).toBe(0);
+    });
+  });
+
+  describe("buildCalendarFromEvents", () => {
+    // A Wednesday
+    const today = new Date("2024-08-07T15:00:00Z");
+
+    it("covers 53 Sunday-first weeks ending with the current week", () => {
+      const weeks = buildCalendarFromEvents([], null, today);
+
+      expect(weeks).toHaveLength(CALENDAR_WEEKS);
+      expect(weeks.every((week) => week.length === 7)).toBe(true);
+      expect(weeks[0][0]?.date).toBe("2023-08-06");
+      expect(weeks[CALENDAR_WEEKS - 1][3]?.date).toBe("2024-08-07");
+      // Thursday to Saturday haven't happened yet
+      expect(weeks[CALENDAR_WEEKS - 1].slice(4)).toEqual([null, null, null]);
+    });
+
+    it("counts events per UTC day", () => {
+      const weeks = buildCalendarFromEvents(
+        [
+          event("1", "2024-08-07T01:00:00Z"),
+          event("2", "2024-08-07T23:00:00Z"),
+          event("3", "2024-08-05T12:00:00Z"),
+        ],
+        null,
+        today
+      );
+      const lastWeek = weeks[CALENDAR_WEEKS - 1];
+
+      expect(lastWeek[3]).toEqual({ date: "2024-08-07", count: 2, level: 4 });
+      expect(lastWeek[1]).toEqual({ date: "2024-08-05", count: 1, level: 2 });
+      expect(lastWeek[2]).toEqual({ date: "2024-08-06", count: 0, level: 0 });
+    });
+
+    it("ignores events outside the calendar", () => {
+      const weeks = buildCalendarFromEvents(
+        [event("1", "2020-01-01T00:00:00Z")],
+        null,
+        today
+      );
+
+      expect(
+        weeks.flat().reduce((total, day) => total + (day?.count ?? 0), 0)
+      ).toBe(0);
+    });
+
+    it("marks days before the covered window as having no data", () => {
+      const weeks = buildCalendarFromEvents(
+        [event("1", "2024-08-05T12:00:00Z")],
+        "2024-08-05T12:00:00Z",
+        today
+      );
+      const lastWeek = weeks[CALENDAR_WEEKS - 1];
+
+      expect(weeks[0][0]).toEqual({
+        date: "2023-08-06",
+        count: 0,
+        level: 0,
+        noData: true,
+      });
+      expect(lastWeek[0]?.noData).toBe(true);
+      expect(lastWeek[1]).toEqual({ date: "2024-08-05", count: 1, level: 4 });
+      expect(lastWeek[2]).toEqual({ date: "2024-08-06", count: 0, level: 0 });
+    });
+
+    it("has no data for any day when the feed is empty", () => {
+      const weeks = buildCalendarFromEvents([], null, today);
+
+      expect(
+        weeks.flat().every((day) => day === null || day.noData === true)
+      ).toBe(true);
+      expect(weeks[CALENDAR_WEEKS - 1][3]).toEqual({
+        date: "2024-08-07",
+        count: 0,
+        level: 0,
+        noData: true,
+      });
+    });
+  });
+
+  describe("fromGraphqlCalendar", () => {
+    it("slots partial weeks by weekday", () => {
+      const weeks = fromGraphqlCalendar({
+        totalContributions: 5,
+        weeks: [
+          {
+            contributionDays: [
+              {
+                date: "2024-08-02",
+                contributionCount: 1,
+                color: "#9be9a8",
+                weekday: 5,
+              },
+              {
+                date: "2024-08-03",
+                contributionCount: 4,
+                color: "#216e39",
+                weekday: 6,
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(weeks[0].slice(0, 5)).toEqual([null, null, null, null, null]);
+      expect(weeks[0][5]).toEqual({ date: "2024-08-02", count: 1, level: 1 });
+      expect(weeks[0][6]).toEqual({ date: "2024-08-03", count: 4, level: 4 });
+    });
+  });
+
+  it("formats date keys in UTC", () => {
+    expect(toDateKey("2024-08-07T23:30:00Z")).toBe("2024-08-07");
+  });
+});
@@ -0,0 +1,60 @@
+import { createEtagCache } from "../etagCache";
+
+describe("etagCache", () => {
+  it("stores and returns entries by URL", () => {
+    const cache = createEtagCache();
+    cache.set("https://api.github.com/users/a", '"etag-a"', { login: "a" });
+
+    expect(cache.get("https://api.github.com/users/a")).toMatchObject({
+      etag: '"etag-a"',
+      body: { login: "a" },
+    });
+    expect(cache.get("https://api.github.com/users/b")).toBeUndefined();
+  });
+
+  it("evicts the least recently used entries once over the size limit", () => {
+    // Each body below serializes to 10 characters
+    const cache = createEtagCache(25);
+    cache.set("a", '"1"', "12345678");
+    cache.set("b", '"2"', "12345678");
+
+    // Touch "a" so "b" becomes the least recently used entry
+    cache.get("a");
+    cache.set("c", '"3"', "12345678");
+
+    expect(cache.keys()).toEqual(["a", "c"]);
+    expect(cache.stats()).toMatchObject({ entries: 2, size: 20, maxSize: 25 });
+  });
+
+  it("skips bodies larger than the whole cache", () => {
+    const cache = createEtagCache(5);
+    cache.set("a", '"1"', "12345678");
+
+    expect(cache.has("a")).toBe(false);
+    expect(cache.stats().size).toBe(0);
+  });
+
+  it("replaces an existing entry without double counting its size", () => {
+    const cache = createEtagCache();
+    cache.set("a", '"1"', "12345678");
+    cache.set("a", '"2"', "12345678");
+
+    expect(cache.stats()).toMatchObject({ entries: 1, size: 10 });
+    expect(cache.get("a")?.etag).toBe('"2"');
+  });
+
+  it("clears entries and counters", () => {
+    const cache = createEtagCache();
+    cache.set("a", '"1"', {});
+    cache.recordHit();
+    cache.clear();
+
+    expect(cache.stats()).toEqual({
+      entries: 0,
+      size: 0,
+      maxSize: expect.any(Number),
+      hits: 0,
+      misses: 0,
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import { summarizeEvent } from "../eventSummary";
+import { GitHubEvent } from "../../types/github";
+
+const event = (fields: Pick<GitHubEvent, "type" | "payload">): GitHubEvent =>
+  ({
+    id: "1",
+    created_at: "2024-01-15T10:00:00Z",
+    repo: {
+      id: 1,
+      name: "octocat/hello-world",
+      url: "https://api.github.com/repos/octocat/hello-world",
+    },
+    ...fields,
+  } as GitHubEvent);
+
+const commit = (sha: string, message: string) => ({
+  sha,
+  message,
+  author: { name: "Octocat", email: "octocat@example.com" },
+  distinct: true,
+});
+
+const pullRequest = {
+  number: 42,
+  title: "Add dark mode",
+  html_url: "https://github.com/octocat/hello-world/pull/42",
+};
+
+describe("summarizeEvent", () => {
+  describe("PushEvent", () => {
+    it("links a single commit and lists its first line", () => {
+      expect(
+        summarizeEvent(
+          event({
+            type: "PushEvent",
+            payload: {
+              ref: "refs/heads/main",
+              head: "abcdef1234567",
+              before: "1234567abcdef",
+              size: 1,
+              commits: [commit("abcdef1234567", "Fix the build\n\nDetails")],
+            },
+          })
+        )
+      ).toEqual({
+        title: "Pushed 1 commit to main",
+        url: "/octocat/hello-world/commit/abcdef1234567",
+        details: ["Fix the build"],
+      });
+    });
+
+    it("links a comparison and caps the commit messages", () => {
+      const commits = ["One", "Two", "Three", "Four", "Five"].map(
+        (message, index) => commit(`sha${index}`, message)
+      );
+      const summary = summarizeEvent(
+        event({
+          type: "PushEvent",
+          payload: {
+            ref: "refs/heads/feature/x",
+            head: "abcdef1234567",
+            before: "1234567abcdef",
+            size: 5,
+            commits,
+          },
+        })
+      );
+
+      expect(summary.title).toBe("Pushed 5 commits to feature/x");
+      expect(summary.url).toBe(
+        "/octocat/hello-world/compare/1234567...abcdef1"
+      );
+      expect(summary.details).toEqual(["One", "Two", "Three", "and 2 more"]);
+    });
+
+    it("copes with pushes that leave out the commits", () => {
+      const summary = summarizeEvent(
+        event({
+          type: "PushEvent",
+          payload: {
+            ref: "refs/heads/main",
+            head: "abcdef1234567",
+            before: "1234567abcdef",
+          },
+        })
+      );
+
+      expect(summary.title).toBe("Pushed to main");
+      expect(summary.details).toEqual([]);
+    });
+  });
+
+  it.each([
+    ["opened", false, "Opened pull request #42"],
+    ["closed", true, "Merged pull request #42"],
+    ["closed", false, "Closed pull request #42"],
+    ["synchronize", false, "Updated pull request #42"],
+  ])("summarises a %s pull request (merged: %s)", (action, merged, title) => {
+    expect(
+      summarizeEvent(
+        event({
+          type: "PullRequestEvent",
+          payload: {
+            action,
+            number: 42,
+            pull_request: { ...pullRequest, merged },
+          },
+        })
+      )
+    ).toEqual({ title, url: pullRequest.html_url, details: ["Add dark mode"] });
+  });
+
+  it("summarises reviews by their state", () => {
+    expect(
+      summarizeEvent(
+        event({
+          type: "PullRequestReviewEvent",
+          payload: {
+            action: "created",
+            review: {
+              state: "changes_requested",
+              html_url: `${pullRequest.html_url}#pullrequestreview-1`,
+            },
+            pull_request: pullRequest,
+          },
+        })
+      )
+    ).toEqual({
+      title: "Requested changes on pull request #42",
+      url: `${pullRequest.html_url}#pullrequestreview-1`,
+      details: ["Add dark mode"],
+    });
+  });
+
+  it("tells issue comments and pull request comments apart", () => {
+    const comment = {
+      html_url: "https://github.com/octocat/hello-world/issues/7#comment-1",
+      body: "Thanks!",
+    };
+    const issue = {
+      number: 7,
+      title: "Crash on start",
+      html_url: "https://github.com/octocat/hello-world/issues/7",
+    };
+
+    expect(
+      summarizeEvent(
+        event({
+          type: "IssueCommentEvent",
+          payload: { action: "created", issue, comment },
+        })
+      ).title
+    ).toBe("Commented on issue #7");
+    expect(
+      summarizeEvent(
+        event({
+          type: "IssueCommentEvent",
+          payload: {
+            action: "created",
+            issue: { ...issue, pull_request: { html_url: issue.html_url } },
+            comment,
+          },
+        })
+      ).title
+    ).toBe("Commented on pull request #7");
+  });
+
+  it("links created branches and repositories on the web host", () => {
+    expect(
+      summarizeEvent(
+        event({
+          type: "CreateEvent",
+          payload: { ref: "feature/x", ref_type: "branch" },
+        })
+      )
+    ).toEqual({
+      title: "Created branch feature/x",
+      url: "/octocat/hello-world/tree/feature%2Fx",
+      details: [],
+    });
+    expect(
+      summarizeEvent(
+        event({
+          type: "CreateEvent",
+          payload: { ref: null, ref_type: "repository" },
+        })
+      )
+    ).toEqual({
+      title: "Created repository",
+      url: "/octocat/hello-world",
+      details: [],
+    });
+  });
+
+  it("names the release and marks pre-releases", () => {
+    expect(
+      summarizeEvent(
+        event({
+          type: "ReleaseEvent",
+          payload: {
+            action: "published",
+            release: {
+              tag_name: "v2.0.0-beta.1",
+              name: "Second beta",
+              html_url:
+                "https://github.com/octocat/hello-world/releases/tag/v2.0.0-beta.1",
+              prerelease: true,
+            },
+          },
+        })
+      )
+    ).toEqual({
+      title: "Published pre-release v2.0.0-beta.1",
+      url: "https://github.com/octocat/hello-world/releases/tag/v2.0.0-beta.1",
+      details: ["Second beta"],
+    });
+  });
+
+  it("summarises wiki edits one page at a time or in bulk", () => {
+    const page = (title: string) => ({
+      page_name: title,
+      title,
+      action: "edited" as const,
+      html_url: `https://github.com/octocat/hello-world/wiki/${title}`,
+    });
+
+    expect(
+      summarizeEvent(
+        event({ type: "GollumEvent", payload: { pages: [page("Home")] } })
+      ).title
+    ).toBe("Edited wiki page Home");
+    expect(
+      summarizeEvent(
+        event({
+          type: "GollumEvent",
+          payload: { pages: [page("Home"), page("Setup")] },
+        })
+      )
+    ).toEqual({
+      title: "Updated 2 wiki pages",
+      url: "/octocat/hello-world/wiki",
+      details: ["Home", "Setup"],
+    });
+  });
+
+  it.each<[Pick<GitHubEvent, "type" | "payload">, string]>([
+    [
+      { type: "DeleteEvent", payload: { ref: "old", ref_type: "branch" } },
+      "Deleted branch old",
+    ],
+    [{ type: "PublicEvent", payload: {} }, "Made repository public"],
+    [
+      { type: "WatchEvent", payload: { action: "started" } },
+      "Starred repository",
+    ],
+    [
+      { type: "SponsorshipEvent", payload: { action: "created" } },
+      "Created a sponsorship",
+    ],
+    [
+      {
+        type: "MemberEvent",
+        payload: {
+          action: "added",
+          member: { login: "hubot", html_url: "https://github.com/hubot" },
+        },
+      },
+      "Added hubot as a collaborator",
+    ],
+  ])("summarises %p", (fields, title) => {
+    expect(summarizeEvent(event(fields)).title).toBe(title);
+  });
+
+  it("falls back to the type name for unknown events", () => {
+    expect(
+      summarizeEvent(
+        event({ type: "DiscussionEvent", payload: {} } as unknown as Pick<
+          GitHubEvent,
+          "type" | "payload"
+        >)
+      )
+    ).toEqual({
+      title: "Discussion",
+      url: "/octocat/hello-world",
+      details: [],
+    });
+  });
+});
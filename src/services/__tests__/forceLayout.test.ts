@@ -0,0 +1,53 @@
+import { layoutForceGraph, Point } from "../forceLayout";
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe("layoutForceGraph", () => {
+  const nodes = [
+    { id: "center", fixed: true },
+    { id: "a" },
+    { id: "b" },
+    { id: "c" },
+    { id: "d" },
+  ];
+  const links = ["a", "b", "c", "d"].map((id) => ({
+    source: "center",
+    target: id,
+    distance: id === "a" ? 60 : 120,
+  }));
+
+  it("keeps fixed nodes at the origin", () => {
+    const positions = layoutForceGraph(nodes, links);
+    expect(positions.center).toEqual({ x: 0, y: 0 });
+  });
+
+  it("is deterministic", () => {
+    expect(layoutForceGraph(nodes, links)).toEqual(
+      layoutForceGraph(nodes, links)
+    );
+  });
+
+  it("settles shorter links closer to their source", () => {
+    const positions = layoutForceGraph(nodes, links);
+    const near = distance(positions.center, positions.a);
+    const far = distance(positions.center, positions.b);
+
+    expect(near).toBeLessThan(far);
+    expect(far).toBeGreaterThan(80);
+  });
+
+  it("pushes unlinked nodes apart", () => {
+    const positions = layoutForceGraph([{ id: "x" }, { id: "y" }], [], {
+      iterations: 50,
+    });
+    expect(distance(positions.x, positions.y)).toBeGreaterThan(200);
+  });
+
+  it("separates nodes that start on top of each other", () => {
+    const positions = layoutForceGraph(
+      [{ id: "p", fixed: true }, { id: "q", fixed: true }, { id: "r" }],
+      []
+    );
+    expect(distance(positions.p, positions.r)).toBeGreaterThan(0);
+  });
+});
@@ -1,4 +1,8 @@
 import { githubApi, GitHubApiError } from "../githubApi";
+import { useAuthStore } from "../../store/useAuthStore";
+import { useHostStore } from "../../store/useHostStore";
+import { etagCache } from "../etagCache";
+import { createRepositoryFixtures } from "../../__fixtures__/repositories";
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -8,6 +12,269 @@ const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
 describe("githubApi", () => {
   beforeEach(() => {
     mockFetch.mockClear();
+    etagCache.clear();
+  });
+
+  describe("authentication", () => {
+    const authenticatedUser = {
+      id: 42,
+      login: "octocat",
+      avatar_url: "https://avatar.com/octocat",
+      html_url: "https://github.com/octocat",
+      type: "User",
+    };
+
+    afterEach(() => {
+      useAuthStore.getState().signOut();
+    });
+
+    it("sends the stored token as an Authorization header", async () => {
+      useAuthStore.getState().signIn("ghp_stored", authenticatedUser);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => authenticatedUser,
+      } as Response);
+
+      await githubApi.getUser("octocat");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/users/octocat",
+        {
+          headers: {
+            Accept: "application/vnd.github.v3+json",
+            Authorization: "Bearer ghp_stored",
+          },
+        }
+      );
+    });
+
+    it("validates a token against /user", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => authenticatedUser,
+      } as Response);
+
+      const result = await githubApi.getAuthenticatedUser(" ghp_new ");
+
+      expect(mockFetch).toHaveBeenCalledWith("https://api.github.com/user", {
+        headers: {
+          Accept: "application/vnd.github.v3+json",
+          Authorization: "Bearer ghp_new",
+        },
+      });
+      expect(result).toEqual(authenticatedUser);
+    });
+
+    it("reports an invalid token", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ message: "Bad credentials" }),
+      } as Response);
+
+      await expect(githubApi.getAuthenticatedUser("ghp_bad")).rejects.toThrow(
+        "Invalid token. Please check the token and try again."
+      );
+    });
+
+    it("throws error for empty token", async () => {
+      await expect(githubApi.getAuthenticatedUser("  ")).rejects.toThrow(
+        "Token is required"
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Enterprise host", () => {
+    afterEach(() => {
+      useHostStore.getState().resetHost();
+    });
+
+    it("sends requests to the configured API base URL", async () => {
+      useHostStore.getState().setHost({
+        apiBaseUrl: "https://ghe.example.com/api/v3",
+        webBaseUrl: "https://ghe.example.com",
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ total_count: 0, items: [] }),
+      } as Response);
+
+      await githubApi.searchUsers("test");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://ghe.example.com/api/v3/search/users?q=test&per_page=5",
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe("conditional requests", () => {
+    const mockUser = {
+      id: 1,
+      login: "testuser",
+      avatar_url: "https://avatar.com",
+      html_url: "https://github.com/testuser",
+      type: "User",
+    };
+
+    it("revalidates with If-None-Match and serves the cached body on 304", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: 'W/"abc123"' }),
+          json: async () => mockUser,
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 304,
+          headers: new Headers({ ETag: 'W/"abc123"' }),
+          json: async () => {
+            throw new Error("304 responses have no body");
+          },
+        } as unknown as Response);
+
+      const first = await githubApi.getUser("testuser");
+      const second = await githubApi.getUser("testuser");
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        "https://api.github.com/users/testuser",
+        {
+          headers: {
+            Accept: "application/vnd.github.v3+json",
+            "If-None-Match": 'W/"abc123"',
+          },
+        }
+      );
+      expect(first).toEqual(mockUser);
+      expect(second).toEqual(mockUser);
+      expect(etagCache.stats()).toMatchObject({ entries: 1, hits: 1 });
+    });
+
+    it("replaces the cached body when the resource changed", async () => {
+      const updatedUser = { ...mockUser, name: "Renamed" };
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: '"v1"' }),
+          json: async () => mockUser,
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          headers: new Headers({ ETag: '"v2"' }),
+          json: async () => updatedUser,
+        } as Response);
+
+      await githubApi.getUser("testuser");
+      const result = await githubApi.getUser("testuser");
+
+      expect(result).toEqual(updatedUser);
+      expect(etagCache.get("https://api.github.com/users/testuser")?.etag).toBe(
+        '"v2"'
+      );
+    });
+
+    it("does not cache responses without an ETag", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockUser,
+      } as Response);
+
+      await githubApi.getUser("testuser");
+
+      expect(etagCache.stats().entries).toBe(0);
+    });
+  });
+
+  describe("cancellation", () => {
+    const abortError = () =>
+      new DOMException("The operation was aborted.", "AbortError");
+
+    it("passes the signal through to fetch", async () => {
+      const controller = new AbortController();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 1, login: "testuser" }),
+      } as Response);
+
+      await githubApi.getUser("testuser", { signal: controller.signal });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/users/testuser",
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
+    it("rethrows aborts instead of reporting a connection failure", async () => {
+      mockFetch.mockRejectedValueOnce(abortError());
+
+      const error = await githubApi
+        .searchUsers("test", 5, { signal: new AbortController().signal })
+        .catch((e) => e);
+
+      expect(error).not.toBeInstanceOf(GitHubApiError);
+      expect(error.name).toBe("AbortError");
+    });
+
+    it("stops paginating repositories once aborted", async () => {
+      const controller = new AbortController();
+
+      mockFetch.mockImplementationOnce(async () => {
+        // The user navigates away while the first page is in flight
+        controller.abort();
+        return {
+          ok: true,
+          headers: new Headers({
+            Link: '<https://api.github.com/user/1/repos?per_page=100&page=2>; rel="next"',
+          }),
+          json: async () => [{ id: 1 }],
+        } as Response;
+      });
+
+      const error = await githubApi
+        .getUserRepositories("testuser", { signal: controller.signal })
+        .catch((e) => e);
+
+      expect(error.name).toBe("AbortError");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops starting parallel pages once aborted", async () => {
+      const controller = new AbortController();
+      const pageUrl = (page: number) =>
+        `https://api.github.com/user/1/repos?per_page=100&page=${page}`;
+
+      mockFetch.mockImplementation(async (input) => {
+        if (input.toString().endsWith("page=2")) {
+          controller.abort();
+          throw abortError();
+        }
+        return {
+          ok: true,
+          headers: new Headers({
+            Link: `<${pageUrl(2)}>; rel="next", <${pageUrl(10)}>; rel="last"`,
+          }),
+          json: async () => [{ id: 1 }],
+        } as Response;
+      });
+
+      const error = await githubApi
+        .getUserRepositories("testuser", {
+          signal: controller.signal,
+          concurrency: 1,
+        })
+        .catch((e) => e);
+
+      expect(error.name).toBe("AbortError");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      mockFetch.mockReset();
+    });
   });
 
   describe("searchUsers", () => {
@@ -121,6 +388,138 @@ describe("githubApi", () => {
     });
   });
 
+  describe("searchUsersPage", () => {
+    const mockResponse = {
+      total_count: 4321,
+      incomplete_results: true,
+      items: [
+        {
+          id: 1,
+          login: "testuser",
+          avatar_url: "https://avatar.com",
+          html_url: "https://github.com/testuser",
+          type: "User",
+        },
+      ],
+    };
+
+    it("returns the requested page with the search totals", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockResponse,
+      } as Response);
+
+      const result = await githubApi.searchUsersPage("test", 3, 30);
+
+      expect(result).toEqual(mockResponse);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/search/users?q=test&per_page=30&page=3",
+        expect.any(Object)
+      );
+    });
+
+    it("passes the sort order", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockResponse,
+      } as Response);
+
+      await githubApi.searchUsersPage("type:org location:Berlin", 1, 10, {
+        sort: "joined",
+        order: "asc",
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/search/users?q=type%3Aorg%20location%3ABerlin&per_page=10&sort=joined&order=asc",
+        expect.any(Object)
+      );
+    });
+
+    it("leaves the first page implicit", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockResponse,
+      } as Response);
+
+      await githubApi.searchUsersPage("test");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/search/users?q=test&per_page=5",
+        expect.any(Object)
+      );
+    });
+
+    it("returns an empty page for a blank query", async () => {
+      await expect(githubApi.searchUsersPage("  ")).resolves.toEqual({
+        total_count: 0,
+        incomplete_results: false,
+        items: [],
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("searchRepositoriesPage", () => {
+    const mockResponse = {
+      total_count: 2,
+      incomplete_results: false,
+      items: [
+        {
+          id: 1,
+          name: "repo1",
+          full_name: "octocat/repo1",
+          description: null,
+          html_url: "https://github.com/octocat/repo1",
+          stargazers_count: 10,
+          forks_count: 5,
+          language: "Go",
+          updated_at: "2023-01-01T00:00:00Z",
+          topics: [],
+          private: false,
+          fork: false,
+          watchers_count: 10,
+        },
+      ],
+    };
+
+    it("searches repositories with paging and sort order", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockResponse,
+      } as Response);
+
+      const result = await githubApi.searchRepositoriesPage(
+        "cli language:Go",
+        2,
+        10,
+        { sort: "stars", order: "desc" }
+      );
+
+      expect(result).toEqual(mockResponse);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/search/repositories?q=cli%20language%3AGo&per_page=10&page=2&sort=stars&order=desc",
+        expect.any(Object)
+      );
+    });
+
+    it("returns an empty page for a blank query", async () => {
+      await expect(githubApi.searchRepositoriesPage("")).resolves.toEqual({
+        total_count: 0,
+        incomplete_results: false,
+        items: [],
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("reports network failures", async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+      await expect(githubApi.searchRepositoriesPage("react")).rejects.toThrow(
+        "Failed to search repositories. Please check your connection."
+      );
+    });
+  });
+
   describe("getUserRepositories", () => {
     it("fetches user repositories successfully", async () => {
       const mockRepos = [
@@ -192,15 +591,21 @@ describe("githubApi", () => {
         watchers_count: i,
       }));
 
-      // Mock first page (full 100 repos)
+      // Mock first page (Link header points at the next and last pages)
       mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: new Headers({
+          Link: '<https://api.github.com/users/testuser/repos?sort=updated&direction=desc&per_page=100&page=2>; rel="next", <https://api.github.com/users/testuser/repos?sort=updated&direction=desc&per_page=100&page=2>; rel="last"',
+        }),
         json: async () => firstPageRepos,
       } as Response);
 
-      // Mock second page (50 repos, indicating end of pagination)
+      // Mock second page (no rel="next", indicating end of pagination)
       mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: new Headers({
+          Link: '<https://api.github.com/users/testuser/repos?sort=updated&direction=desc&per_page=100&page=1>; rel="first", <https://api.github.com/users/testuser/repos?sort=updated&direction=desc&per_page=100&page=1>; rel="prev"',
+        }),
         json: async () => secondPageRepos,
       } as Response);
 
@@ -240,6 +645,9 @@ describe("githubApi", () => {
       // Mock first page
       mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: new Headers({
+          Link: '<https://api.github.com/users/testuser/repos?sort=updated&direction=desc&per_page=100&page=2>; rel="next"',
+        }),
         json: async () => firstPageRepos,
       } as Response);
 
@@ -255,6 +663,108 @@ describe("githubApi", () => {
       expect(result).toEqual(firstPageRepos);
     });
 
+    it("stops when there is no next link even if the page is full", async () => {
+      const fullPage = Array.from({ length: 100 }, (_, i) => ({
+        id: i + 1,
+        name: `repo${i + 1}`,
+      }));
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        json: async () => fullPage,
+      } as Response);
+
+      const result = await githubApi.getUserRepositories("testuser");
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result).toHaveLength(100);
+    });
+
+    it("reports progress using the last page from the Link header", async () => {
+      const linkFor = (page: number) =>
+        `<https://api.github.com/user/1/repos?per_page=100&page=${page}>`;
+      const onProgress = jest.fn();
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({
+            Link: `${linkFor(2)}; rel="next", ${linkFor(3)}; rel="last"`,
+          }),
+          json: async () => [{ id: 1 }],
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({
+            Link: `${linkFor(3)}; rel="next", ${linkFor(3)}; rel="last"`,
+          }),
+          json: async () => [{ id: 2 }],
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ Link: `${linkFor(2)}; rel="prev"` }),
+          json: async () => [{ id: 3 }],
+        } as Response);
+
+      await githubApi.getUserRepositories("testuser", { onProgress });
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        "https://api.github.com/user/1/repos?per_page=100&page=2",
+        expect.any(Object)
+      );
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { page: 1, totalPages: 3, itemsLoaded: 1 },
+        { page: 2, totalPages: 3, itemsLoaded: 2 },
+        { page: 3, totalPages: 3, itemsLoaded: 3 },
+      ]);
+    });
+
+    it("fetches remaining pages in parallel once the last page is known", async () => {
+      const repositories = createRepositoryFixtures(800);
+      const perPage = 100;
+      const lastPage = repositories.length / perPage;
+      const latencyMs = 40;
+      const pageUrl = (page: number) =>
+        `https://api.github.com/user/1/repos?sort=updated&direction=desc&per_page=${perPage}&page=${page}`;
+
+      // Simulates the network: every page takes latencyMs to arrive
+      mockFetch.mockImplementation(async (input) => {
+        const url = input.toString();
+        const page = Number(url.match(/[?&]page=(\d+)/)?.[1] ?? 1);
+        await new Promise((resolve) => setTimeout(resolve, latencyMs));
+        const links = [`<${pageUrl(lastPage)}>; rel="last"`];
+        if (page < lastPage) {
+          links.push(`<${pageUrl(page + 1)}>; rel="next"`);
+        }
+        return {
+          ok: true,
+          status: 200,
+          headers: new Headers({ Link: links.join(", ") }),
+          json: async () =>
+            repositories.slice((page - 1) * perPage, page * perPage),
+        } as Response;
+      });
+
+      const timeFetch = async (concurrency: number) => {
+        const started = Date.now();
+        const result = await githubApi.getUserRepositories("testuser", {
+          concurrency,
+        });
+        return { result, elapsed: Date.now() - started };
+      };
+
+      const sequential = await timeFetch(1);
+      const parallel = await timeFetch(4);
+
+      expect(sequential.result).toEqual(repositories);
+      expect(parallel.result).toEqual(repositories);
+      // 8 pages: ~8 round trips sequentially vs ~3 with 4 workers
+      expect(sequential.elapsed).toBeGreaterThanOrEqual(lastPage * latencyMs);
+      expect(parallel.elapsed).toBeLessThan(sequential.elapsed / 2);
+    });
+
     it("returns empty array for empty username", async () => {
       const result = await githubApi.getUserRepositories("");
       expect(result).toEqual([]);
@@ -274,6 +784,234 @@ describe("githubApi", () => {
     });
   });
 
+  describe("getUserStarred", () => {
+    const respond = (body: unknown, link?: string) =>
+      ({
+        ok: true,
+        headers: new Headers(link ? { Link: link } : {}),
+        json: async () => body,
+      } as Response);
+
+    it("follows every page of starred repositories", async () => {
+      const base =
+        "https://api.github.com/users/testuser/starred?sort=created&direction=desc&per_page=100";
+      mockFetch
+        .mockResolvedValueOnce(
+          respond(
+            [{ id: 1, full_name: "octo/one" }],
+            `<${base}&page=2>; rel="next", <${base}&page=2>; rel="last"`
+          )
+        )
+        .mockResolvedValueOnce(respond([{ id: 2, full_name: "octo/two" }]));
+
+      const result = await githubApi.getUserStarred("testuser");
+
+      expect(mockFetch).toHaveBeenNthCalledWith(1, `${base}&page=1`, {
+        headers: { Accept: "application/vnd.github.v3+json" },
+      });
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        `${base}&page=2`,
+        expect.anything()
+      );
+      expect(result.map((repo) => repo.full_name)).toEqual([
+        "octo/one",
+        "octo/two",
+      ]);
+    });
+
+    it("returns empty array for empty username", async () => {
+      const result = await githubApi.getUserStarred("");
+      expect(result).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("wraps network failures", async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+      await expect(githubApi.getUserStarred("testuser")).rejects.toThrow(
+        "Failed to fetch starred repositories. Please check your connection."
+      );
+    });
+  });
+
+  describe("gists", () => {
+    it("lists a user's gists", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        json: async () => [{ id: "abc", files: {} }],
+      } as Response);
+
+      const result = await githubApi.getUserGists("testuser");
+
+      expect(result.map((gist) => gist.id)).toEqual(["abc"]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/users/testuser/gists?per_page=100&page=1",
+        expect.any(Object)
+      );
+    });
+
+    it("fetches a single gist with its file contents", async () => {
+      const gist = {
+        id: "abc",
+        files: { "hello.py": { filename: "hello.py", content: "print(1)" } },
+      };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => gist,
+      } as Response);
+
+      await expect(githubApi.getGist("abc")).resolves.toEqual(gist);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/gists/abc",
+        expect.any(Object)
+      );
+    });
+
+    it("requires a gist ID", async () => {
+      await expect(githubApi.getGist("")).rejects.toThrow(
+        "Gist ID is required"
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("wraps network failures", async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+      await expect(githubApi.getUserGists("testuser")).rejects.toThrow(
+        "Failed to fetch gists. Please check your connection."
+      );
+    });
+  });
+
+  describe("organizations", () => {
+    const respond = (body: unknown, link?: string) =>
+      ({
+        ok: true,
+        headers: new Headers(link ? { Link: link } : {}),
+        json: async () => body,
+      } as Response);
+
+    it("fetches organization details", async () => {
+      const mockOrganization = {
+        id: 9919,
+        login: "github",
+        type: "Organization",
+        name: "GitHub",
+        blog: "https://github.com/about",
+        is_verified: true,
+      };
+      mockFetch.mockResolvedValueOnce(respond(mockOrganization));
+
+      await expect(githubApi.getOrganization("github")).resolves.toEqual(
+        mockOrganization
+      );
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/orgs/github",
+        expect.any(Object)
+      );
+    });
+
+    it("fetches every organization repository, forks and archived included", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          respond(
+            [{ id: 1, name: "docs" }],
+            '<https://api.github.com/orgs/github/repos?type=all&sort=updated&direction=desc&per_page=100&page=2>; rel="next", <https://api.github.com/orgs/github/repos?type=all&sort=updated&direction=desc&per_page=100&page=2>; rel="last"'
+          )
+        )
+        .mockResolvedValueOnce(respond([{ id: 2, name: "linguist" }]));
+
+      const result = await githubApi.getOrganizationRepositories("github");
+
+      expect(result.map((repo) => repo.name)).toEqual(["docs", "linguist"]);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        "https://api.github.com/orgs/github/repos?type=all&sort=updated&direction=desc&per_page=100&page=1",
+        expect.any(Object)
+      );
+    });
+
+    it("fetches public members", async () => {
+      mockFetch.mockResolvedValueOnce(
+        respond([{ id: 1, login: "octocat", type: "User" }])
+      );
+
+      const result = await githubApi.getOrganizationMembers("github");
+
+      expect(result).toHaveLength(1);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/orgs/github/public_members?per_page=100",
+        expect.any(Object)
+      );
+    });
+
+    it("reports network failures", async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+      await expect(githubApi.getOrganization("github")).rejects.toThrow(
+        "Failed to fetch organization details. Please check your connection."
+      );
+    });
+  });
+
+  describe("followers and following", () => {
+    const respond = (body: unknown, link?: string) =>
+      ({
+        ok: true,
+        headers: new Headers(link ? { Link: link } : {}),
+        json: async () => body,
+      } as Response);
+
+    it("fetches followers", async () => {
+      mockFetch.mockResolvedValueOnce(
+        respond([{ id: 1, login: "octocat", type: "User" }])
+      );
+
+      const result = await githubApi.getUserFollowers("testuser");
+
+      expect(result.map((user) => user.login)).toEqual(["octocat"]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/users/testuser/followers?per_page=100",
+        expect.any(Object)
+      );
+    });
+
+    it("stops following pages after 500 users", async () => {
+      mockFetch.mockImplementation(async (url) => {
+        const page = Number(new URL(url.toString()).searchParams.get("page"));
+        const next = page ? page + 1 : 2;
+        return respond(
+          Array.from({ length: 100 }, (_, i) => ({
+            id: next * 1000 + i,
+            login: `user${next}-${i}`,
+            type: "User",
+          })),
+          `<https://api.github.com/user/1/following?per_page=100&page=${next}>; rel="next"`
+        );
+      });
+
+      const result = await githubApi.getUserFollowing("testuser");
+
+      expect(result).toHaveLength(500);
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        "https://api.github.com/users/testuser/following?per_page=100",
+        expect.any(Object)
+      );
+    });
+
+    it("reports network failures", async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+      await expect(githubApi.getUserFollowing("testuser")).rejects.toThrow(
+        "Failed to fetch followed users. Please check your connection."
+      );
+    });
+  });
+
   describe("getUser", () => {
     it("fetches user details successfully", async () => {
       const mockUser = {
@@ -417,6 +1155,48 @@ describe("githubApi", () => {
         );
       }
     });
+
+    it("pages through the whole public feed and drops duplicate events", async () => {
+      const event = (id: string) => ({
+        id,
+        type: "WatchEvent",
+        created_at: "2024-01-01T00:00:00Z",
+        payload: {},
+      });
+      const pageUrl = (page: number) =>
+        `https://api.github.com/user/1/events/public?per_page=100&page=${page}`;
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({
+            Link: `<${pageUrl(2)}>; rel="next", <${pageUrl(3)}>; rel="last"`,
+          }),
+          json: async () => [event("3"), event("2")],
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({
+            Link: `<${pageUrl(3)}>; rel="next", <${pageUrl(3)}>; rel="last"`,
+          }),
+          // A new event pushed "2" onto the second page
+          json: async () => [event("2"), event("1")],
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers(),
+          json: async () => [event("0")],
+        } as Response);
+
+      const result = await githubApi.getUserEvents("testuser");
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        pageUrl(3),
+        expect.any(Object)
+      );
+      expect(result.map(({ id }) => id)).toEqual(["3", "2", "1", "0"]);
+    });
   });
 
   describe("getUserContributionStats", () => {
@@ -515,7 +1295,10 @@ describe("githubApi", () => {
         totalPullRequests: 1,
         totalIssues: 1,
         totalRepositories: 2,
-        recentActivity: mockEvents.slice(0, 3), // Only events from the last year, limited to 10
+        recentActivity: mockEvents.slice(0, 3), // Only events from the last year
+        source: "events",
+        coverageStart: mockEvents[2].created_at, // Oldest event within the last year
+        calendar: null,
       });
     });
 
@@ -540,6 +1323,9 @@ describe("githubApi", () => {
         totalIssues: 0,
         totalRepositories: 0,
         recentActivity: [],
+        source: "events",
+        coverageStart: null,
+        calendar: null,
       });
     });
 
@@ -620,7 +1406,7 @@ describe("githubApi", () => {
       expect(result.totalCommits).toBe(1); // Should count as 1 when no commits array
     });
 
-    it("limits recent activity to 10 items", async () => {
+    it("returns all recent activity for incremental display", async () => {
       const manyEvents = Array.from({ length: 15 }, (_, i) => ({
         id: `event${i}`,
         type: "PushEvent",
@@ -644,8 +1430,9 @@ describe("githubApi", () => {
 
       const result = await githubApi.getUserContributionStats("testuser");
 
-      expect(result.recentActivity).toHaveLength(10);
-      expect(result.recentActivity).toEqual(manyEvents.slice(0, 10));
+      // The UI reveals older activity on demand, so nothing is cut off here
+      expect(result.recentActivity).toHaveLength(15);
+      expect(result.recentActivity).toEqual(manyEvents);
     });
 
     it("throws error for empty username", async () => {
@@ -709,4 +1496,100 @@ describe("githubApi", () => {
       }
     });
   });
+
+  describe("repository details", () => {
+    it("fetches a repository", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 1, full_name: "octocat/Hello-World" }),
+      } as Response);
+
+      const repository = await githubApi.getRepository(
+        "octocat",
+        "Hello-World"
+      );
+
+      expect(repository.full_name).toBe("octocat/Hello-World");
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/repos/octocat/Hello-World",
+        { headers: { Accept: "application/vnd.github.v3+json" } }
+      );
+    });
+
+    it("requires an owner and a name", async () => {
+      await expect(githubApi.getRepository("octocat", "")).rejects.toThrow(
+        "Repository owner and name are required"
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("requests the README as rendered HTML", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => "<h1>Hello World</h1>",
+      } as Response);
+
+      const readme = await githubApi.getRepositoryReadme(
+        "octocat",
+        "Hello-World"
+      );
+
+      expect(readme).toBe("<h1>Hello World</h1>");
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/repos/octocat/Hello-World/readme",
+        { headers: { Accept: "application/vnd.github.html+json" } }
+      );
+    });
+
+    it("resolves to null when there is no README", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: async () => ({ message: "Not Found" }),
+      } as Response);
+
+      await expect(
+        githubApi.getRepositoryReadme("octocat", "Hello-World")
+      ).resolves.toBeNull();
+    });
+
+    it("returns no contributors for an empty repository", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 204,
+      } as Response);
+
+      await expect(
+        githubApi.getRepositoryContributors("octocat", "empty")
+      ).resolves.toEqual([]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/repos/octocat/empty/contributors?per_page=10",
+        expect.anything()
+      );
+    });
+
+    it("limits the number of releases", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      } as Response);
+
+      await githubApi.getRepositoryReleases("octocat", "Hello-World", 3);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/repos/octocat/Hello-World/releases?per_page=3",
+        expect.anything()
+      );
+    });
+
+    it("handles network errors", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      await expect(
+        githubApi.getRepositoryLanguages("octocat", "Hello-World")
+      ).rejects.toThrow(
+        "Failed to fetch repository languages. Please check your connection."
+      );
+    });
+  });
 });
@@ -0,0 +1,289 @@
+import { githubGraphql, toRestRepository, toRestUser } from "../githubGraphql";
+import { githubApi, RateLimitError } from "../githubApi";
+import { useAuthStore } from "../../store/useAuthStore";
+import { useHostStore } from "../../store/useHostStore";
+import { GitHubGraphQLRepository, GitHubGraphQLUser } from "../../types/github";
+
+global.fetch = jest.fn();
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const graphqlRepository: GitHubGraphQLRepository = {
+  databaseId: 10,
+  name: "hello-world",
+  nameWithOwner: "octocat/hello-world",
+  description: "My first repository",
+  url: "https://github.com/octocat/hello-world",
+  stargazerCount: 42,
+  forkCount: 7,
+  isFork: false,
+  isPrivate: false,
+  isArchived: false,
+  updatedAt: "2024-01-01T00:00:00Z",
+  primaryLanguage: { name: "TypeScript", color: "#3178c6" },
+  repositoryTopics: { nodes: [{ topic: { name: "demo" } }] },
+};
+
+const graphqlUser: GitHubGraphQLUser = {
+  databaseId: 1,
+  login: "octocat",
+  name: "The Octocat",
+  avatarUrl: "https://avatars.githubusercontent.com/u/1",
+  url: "https://github.com/octocat",
+  bio: null,
+  createdAt: "2011-01-25T18:44:36Z",
+  updatedAt: "2024-01-01T00:00:00Z",
+  followers: { totalCount: 100 },
+  following: { totalCount: 5 },
+  pinnedItems: { nodes: [graphqlRepository] },
+  repositories: {
+    totalCount: 8,
+    nodes: [graphqlRepository],
+    pageInfo: { hasNextPage: false, endCursor: null },
+  },
+  contributionsCollection: {
+    startedAt: "2023-01-01T00:00:00Z",
+    endedAt: "2024-01-01T00:00:00Z",
+    totalCommitContributions: 321,
+    totalPullRequestContributions: 12,
+    totalIssueContributions: 4,
+    totalPullRequestReviewContributions: 9,
+    restrictedContributionsCount: 0,
+    contributionCalendar: { totalContributions: 346, weeks: [] },
+  },
+};
+
+const signIn = () =>
+  useAuthStore.getState().signIn("ghp_abc", {
+    id: 1,
+    login: "octocat",
+    avatar_url: "https://avatars.githubusercontent.com/u/1",
+    html_url: "https://github.com/octocat",
+    type: "User",
+  });
+
+const graphqlResponse = (body: unknown) =>
+  ({
+    ok: true,
+    status: 200,
+    json: async () => body,
+  } as Response);
+
+describe("githubGraphql", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    useAuthStore.getState().signOut();
+    useHostStore.getState().resetHost();
+  });
+
+  it("requires a token", async () => {
+    expect(githubGraphql.isAvailable()).toBe(false);
+    await expect(
+      githubGraphql.query("{ viewer { login } }", {})
+    ).rejects.toThrow(
+      "A personal access token is required for the GraphQL API"
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("posts the query with the stored token", async () => {
+    signIn();
+    mockFetch.mockResolvedValueOnce(
+      graphqlResponse({ data: { viewer: { login: "octocat" } } })
+    );
+
+    const data = await githubGraphql.query("{ viewer { login } }", {});
+
+    expect(data).toEqual({ viewer: { login: "octocat" } });
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://api.github.com/graphql",
+      expect.objectContaining({
+        method: "POST",
+        headers: {
+          Authorization: "Bearer ghp_abc",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ query: "{ viewer { login } }", variables: {} }),
+      })
+    );
+  });
+
+  it("uses /api/graphql on Enterprise hosts", async () => {
+    signIn();
+    useHostStore.getState().setHost({
+      apiBaseUrl: "https://ghe.example.com/api/v3",
+      webBaseUrl: "https://ghe.example.com",
+    });
+    mockFetch.mockResolvedValueOnce(graphqlResponse({ data: {} }));
+
+    await githubGraphql.query("{ viewer { login } }", {});
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://ghe.example.com/api/graphql",
+      expect.any(Object)
+    );
+  });
+
+  it("turns GraphQL errors into typed errors", async () => {
+    signIn();
+    mockFetch
+      .mockResolvedValueOnce(
+        graphqlResponse({
+          errors: [{ type: "NOT_FOUND", message: "Could not resolve" }],
+        })
+      )
+      .mockResolvedValueOnce(
+        graphqlResponse({
+          errors: [
+            { type: "RATE_LIMITED", message: "API rate limit exceeded" },
+          ],
+        })
+      );
+
+    await expect(githubGraphql.query("{}", {})).rejects.toMatchObject({
+      name: "GitHubApiError",
+      status: 404,
+    });
+    await expect(githubGraphql.query("{}", {})).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+  });
+
+  it("maps GraphQL repositories onto the REST shape", () => {
+    expect(toRestRepository(graphqlRepository)).toEqual({
+      id: 10,
+      name: "hello-world",
+      full_name: "octocat/hello-world",
+      description: "My first repository",
+      html_url: "https://github.com/octocat/hello-world",
+      stargazers_count: 42,
+      watchers_count: 42,
+      forks_count: 7,
+      language: "TypeScript",
+      updated_at: "2024-01-01T00:00:00Z",
+      topics: ["demo"],
+      private: false,
+      fork: false,
+      archived: false,
+    });
+  });
+
+  describe("githubApi.getUserOverview", () => {
+    it("fetches everything in one GraphQL query when authenticated", async () => {
+      signIn();
+      mockFetch.mockResolvedValueOnce(
+        graphqlResponse({ data: { user: graphqlUser } })
+      );
+
+      const overview = await githubApi.getUserOverview("octocat");
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(overview.source).toBe("graphql");
+      expect(overview.user).toMatchObject({
+        login: "octocat",
+        followers: 100,
+        public_repos: 8,
+      });
+      expect(overview.pinnedRepositories).toHaveLength(1);
+      expect(overview.contributions?.totalCommitContributions).toBe(321);
+    });
+
+    it("falls back to REST without a token", async () => {
+      mockFetch.mockImplementation(async (input) => {
+        const url = input.toString();
+        return {
+          ok: true,
+          status: 200,
+          json: async () =>
+            url.includes("/repos")
+              ? [{ id: 1, name: "repo" }]
+              : { id: 1, login: "octocat", public_repos: 12 },
+        } as Response;
+      });
+
+      const overview = await githubApi.getUserOverview("octocat");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/users/octocat",
+        expect.any(Object)
+      );
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/users/octocat/repos?sort=updated&direction=desc&per_page=30",
+        expect.any(Object)
+      );
+      expect(overview).toMatchObject({
+        source: "rest",
+        pinnedRepositories: [],
+        totalRepositories: 12,
+        contributions: null,
+      });
+    });
+  });
+
+  describe("githubApi.getUserContributionStats", () => {
+    it("uses full-year GraphQL totals when authenticated", async () => {
+      signIn();
+      mockFetch.mockImplementation(async (input) => {
+        const url = input.toString();
+        return (
+          url.endsWith("/graphql")
+            ? graphqlResponse({
+                data: {
+                  user: {
+                    repositories: graphqlUser.repositories,
+                    contributionsCollection:
+                      graphqlUser.contributionsCollection,
+                  },
+                },
+              })
+            : graphqlResponse([])
+        ) as Response;
+      });
+
+      const stats = await githubApi.getUserContributionStats("octocat");
+
+      expect(stats).toEqual({
+        totalCommits: 321,
+        totalPullRequests: 12,
+        totalIssues: 4,
+        totalRepositories: 8,
+        recentActivity: [],
+        source: "graphql",
+        coverageStart: "2023-01-01T00:00:00Z",
+        calendar: graphqlUser.contributionsCollection.contributionCalendar,
+      });
+      // Repositories are counted by GraphQL, so the REST list isn't fetched
+      expect(mockFetch).not.toHaveBeenCalledWith(
+        expect.stringContaining("/repos"),
+        expect.any(Object)
+      );
+    });
+
+    it("builds the stats from an overview without querying GraphQL again", async () => {
+      signIn();
+      mockFetch.mockResolvedValue(graphqlResponse([]));
+
+      const stats = await githubApi.getUserContributionStats("octocat", {
+        overview: {
+          source: "graphql",
+          user: toRestUser(graphqlUser),
+          pinnedRepositories: [],
+          repositories: [],
+          totalRepositories: 8,
+          contributions: graphqlUser.contributionsCollection,
+        },
+      });
+
+      expect(stats).toMatchObject({
+        totalCommits: 321,
+        totalRepositories: 8,
+        source: "graphql",
+        calendar: graphqlUser.contributionsCollection.contributionCalendar,
+      });
+      // Only the events feed is requested
+      expect(mockFetch).not.toHaveBeenCalledWith(
+        expect.stringContaining("/graphql"),
+        expect.any(Object)
+      );
+    });
+  });
+});
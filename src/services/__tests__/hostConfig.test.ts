@@ -0,0 +1,92 @@
+import {
+  apiUrlToWebUrl,
+  getBuildTimeHostConfig,
+  getHostLabel,
+  GITHUB_DOT_COM,
+  resolveHostConfig,
+  resolveWebUrl,
+} from "../hostConfig";
+
+const enterprise = {
+  apiBaseUrl: "https://ghe.example.com/api/v3",
+  webBaseUrl: "https://ghe.example.com",
+};
+
+describe("hostConfig", () => {
+  describe("resolveHostConfig", () => {
+    it("maps github.com in any form to the public API", () => {
+      expect(resolveHostConfig("github.com")).toEqual(GITHUB_DOT_COM);
+      expect(resolveHostConfig("https://api.github.com/")).toEqual(
+        GITHUB_DOT_COM
+      );
+    });
+
+    it("adds the /api/v3 prefix for an Enterprise host", () => {
+      expect(resolveHostConfig("ghe.example.com")).toEqual(enterprise);
+      expect(resolveHostConfig("https://ghe.example.com/")).toEqual(enterprise);
+    });
+
+    it("accepts an Enterprise API URL", () => {
+      expect(resolveHostConfig("https://ghe.example.com/api/v3")).toEqual(
+        enterprise
+      );
+    });
+
+    it("rejects empty and invalid input", () => {
+      expect(() => resolveHostConfig("  ")).toThrow("Host is required");
+      expect(() => resolveHostConfig("not a host")).toThrow(
+        "Enter a valid host, e.g. github.example.com"
+      );
+    });
+  });
+
+  describe("getBuildTimeHostConfig", () => {
+    it("defaults to github.com", () => {
+      expect(getBuildTimeHostConfig({})).toEqual(GITHUB_DOT_COM);
+    });
+
+    it("derives the web URL from REACT_APP_GITHUB_API_URL", () => {
+      expect(
+        getBuildTimeHostConfig({
+          REACT_APP_GITHUB_API_URL: "https://ghe.example.com/api/v3",
+        })
+      ).toEqual(enterprise);
+    });
+
+    it("lets REACT_APP_GITHUB_WEB_URL override the derived web URL", () => {
+      expect(
+        getBuildTimeHostConfig({
+          REACT_APP_GITHUB_API_URL: "https://api.ghe.example.com/api/v3",
+          REACT_APP_GITHUB_WEB_URL: "https://ghe.example.com/",
+        })
+      ).toEqual({
+        apiBaseUrl: "https://api.ghe.example.com/api/v3",
+        webBaseUrl: "https://ghe.example.com",
+      });
+    });
+  });
+
+  describe("URL helpers", () => {
+    it("labels a host by its web hostname", () => {
+      expect(getHostLabel(enterprise)).toBe("ghe.example.com");
+    });
+
+    it("resolves host-relative web URLs and leaves absolute ones alone", () => {
+      expect(resolveWebUrl("/avatars/u/1", enterprise)).toBe(
+        "https://ghe.example.com/avatars/u/1"
+      );
+      expect(resolveWebUrl("https://avatar.com", enterprise)).toBe(
+        "https://avatar.com"
+      );
+    });
+
+    it("maps API resource URLs to web pages", () => {
+      expect(
+        apiUrlToWebUrl("https://ghe.example.com/api/v3/repos/a/b", enterprise)
+      ).toBe("https://ghe.example.com/a/b");
+      expect(
+        apiUrlToWebUrl("https://api.github.com/users/octocat", GITHUB_DOT_COM)
+      ).toBe("https://github.com/octocat");
+    });
+  });
+});
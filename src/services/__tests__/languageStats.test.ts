@@ -0,0 +1,107 @@
+import {
+  collectLanguageSample,
+  countPrimaryLanguages,
+  formatBytes,
+  getLanguageColor,
+  sumLanguageBytes,
+  toLanguageShares,
+} from "../languageStats";
+import { GitHubRepository } from "../../types/github";
+
+describe("languageStats", () => {
+  it("turns totals into shares sorted largest first", () => {
+    expect(toLanguageShares({ CSS: 250, TypeScript: 750 })).toEqual([
+      {
+        name: "TypeScript",
+        value: 750,
+        percent: 75,
+        color: getLanguageColor("TypeScript"),
+      },
+      { name: "CSS", value: 250, percent: 25, color: getLanguageColor("CSS") },
+    ]);
+  });
+
+  it("breaks ties by name and drops empty languages", () => {
+    expect(
+      toLanguageShares({ Ruby: 1, Go: 1, Shell: 0 }).map(({ name }) => name)
+    ).toEqual(["Go", "Ruby"]);
+  });
+
+  it("returns no shares when there is nothing to count", () => {
+    expect(toLanguageShares({})).toEqual([]);
+    expect(toLanguageShares({ Shell: 0 })).toEqual([]);
+  });
+
+  it("gives unknown languages a stable color", () => {
+    expect(getLanguageColor("TypeScript")).toBe("#3178c6");
+    expect(getLanguageColor("Zig")).toBe(getLanguageColor("Zig"));
+    expect(getLanguageColor("Zig")).toMatch(/^hsl\(\d+, 55%, 55%\)$/);
+  });
+
+  it("counts primary languages across repositories", () => {
+    const repositories = ["Go", null, "Go", "Rust"].map(
+      (language) => ({ language } as GitHubRepository)
+    );
+
+    expect(countPrimaryLanguages(repositories)).toEqual({ Go: 2, Rust: 1 });
+  });
+
+  it("adds up byte counts from several repositories", () => {
+    expect(
+      sumLanguageBytes([{ Go: 1000, Shell: 20 }, { Go: 500, Rust: 300 }, {}])
+    ).toEqual({ Go: 1500, Shell: 20, Rust: 300 });
+  });
+
+  it("formats byte counts", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 KB");
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+
+  describe("collectLanguageSample", () => {
+    const repositories = ["a", "b", "c", "d", "e", "f"].map(
+      (name, index) => ({ id: index, name } as GitHubRepository)
+    );
+
+    it("keeps at most four requests in flight and preserves order", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const progress: number[] = [];
+
+      const sample = await collectLanguageSample(
+        repositories,
+        async (repository) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          inFlight--;
+          return { [repository.name]: repository.id };
+        },
+        { onProgress: (settled) => progress.push(settled) }
+      );
+
+      expect(maxInFlight).toBe(4);
+      expect(sample.languages).toEqual(
+        repositories.map((repository) => ({ [repository.name]: repository.id }))
+      );
+      expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it("counts skipped and failed repositories", async () => {
+      const sample = await collectLanguageSample(
+        repositories,
+        async (repository) => {
+          if (repository.name === "b") throw new Error("Not Found");
+          return repository.id < 3 ? { Go: 1 } : null;
+        },
+        { concurrency: 2 }
+      );
+
+      expect(sample).toEqual({
+        languages: [{ Go: 1 }, { Go: 1 }],
+        failed: 1,
+        skipped: 3,
+      });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  collectPages,
+  collectPagesConcurrently,
+  getPageNumber,
+  paginate,
+  parseLinkHeader,
+  withPageNumber,
+  FetchedPage,
+} from "../pagination";
+
+const pageUrl = (page: number) =>
+  `https://api.github.com/user/1/repos?per_page=2&page=${page}`;
+
+// Serves `pages` as if from the API, with next/last links on all but the last
+const createFetcher = (pages: number[][]) =>
+  jest.fn(async (url: string): Promise<FetchedPage<number>> => {
+    const page = getPageNumber(url) ?? 1;
+    const links = [];
+    if (page < pages.length) {
+      links.push(`<${pageUrl(page + 1)}>; rel="next"`);
+      links.push(`<${pageUrl(pages.length)}>; rel="last"`);
+    }
+    return { items: pages[page - 1] ?? [], link: links.join(", ") || null };
+  });
+
+describe("pagination", () => {
+  describe("parseLinkHeader", () => {
+    it("parses every rel in the header", () => {
+      const header =
+        '<https://api.github.com/search/users?q=a&page=2>; rel="next", ' +
+        '<https://api.github.com/search/users?q=a&page=34>; rel="last"';
+
+      expect(parseLinkHeader(header)).toEqual({
+        next: "https://api.github.com/search/users?q=a&page=2",
+        last: "https://api.github.com/search/users?q=a&page=34",
+      });
+    });
+
+    it("returns an empty map for a missing header", () => {
+      expect(parseLinkHeader(null)).toEqual({});
+      expect(parseLinkHeader("")).toEqual({});
+    });
+  });
+
+  describe("getPageNumber", () => {
+    it("reads the page query parameter", () => {
+      expect(getPageNumber(pageUrl(7))).toBe(7);
+      expect(getPageNumber("https://api.github.com/users/a/repos")).toBeNull();
+    });
+  });
+
+  describe("withPageNumber", () => {
+    it("replaces the page query parameter", () => {
+      expect(withPageNumber(pageUrl(9), 4)).toBe(pageUrl(4));
+    });
+  });
+
+  describe("collectPages", () => {
+    it("follows next links until the last page", async () => {
+      const fetchPage = createFetcher([[1, 2], [3, 4], [5]]);
+
+      const items = await collectPages(pageUrl(1), fetchPage);
+
+      expect(items).toEqual([1, 2, 3, 4, 5]);
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+    });
+
+    it("stops once the item cap is reached", async () => {
+      const fetchPage = createFetcher([[1, 2], [3, 4], [5]]);
+
+      const items = await collectPages(pageUrl(1), fetchPage, {
+        maxItems: 3,
+      });
+
+      expect(items).toEqual([1, 2, 3]);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it("reports page n of total as pages arrive", async () => {
+      const onProgress = jest.fn();
+
+      await collectPages(pageUrl(1), createFetcher([[1, 2], [3]]), {
+        onProgress,
+      });
+
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        page: 1,
+        totalPages: 2,
+        itemsLoaded: 2,
+      });
+      expect(onProgress).toHaveBeenNthCalledWith(2, {
+        page: 2,
+        totalPages: 2,
+        itemsLoaded: 3,
+      });
+    });
+  });
+
+  describe("paginate", () => {
+    it("yields pages incrementally", async () => {
+      const fetchPage = createFetcher([[1, 2], [3, 4], [5]]);
+      const iterator = paginate(pageUrl(1), fetchPage);
+
+      const first = await iterator.next();
+      expect(first.value).toEqual({ items: [1, 2], page: 1, totalPages: 3 });
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+
+      await iterator.return(undefined);
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("collectPagesConcurrently", () => {
+    it("merges pages in page order even when they finish out of order", async () => {
+      const pages = [[1, 2], [3, 4], [5, 6], [7]];
+      const fetchPage = jest.fn(async (url: string) => {
+        const page = getPageNumber(url) ?? 1;
+        // Later pages respond faster
+        await new Promise((resolve) => setTimeout(resolve, (5 - page) * 5));
+        return createFetcher(pages)(url);
+      });
+
+      const items = await collectPagesConcurrently(pageUrl(1), fetchPage, {
+        concurrency: 3,
+      });
+
+      expect(items).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(fetchPage).toHaveBeenCalledTimes(4);
+    });
+
+    it("never runs more than the concurrency limit at once", async () => {
+      const pages = Array.from({ length: 10 }, (_, i) => [i]);
+      const fetcher = createFetcher(pages);
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      await collectPagesConcurrently(
+        pageUrl(1),
+        async (url) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          inFlight--;
+          return fetcher(url);
+        },
+        { concurrency: 3 }
+      );
+
+      expect(maxInFlight).toBe(3);
+    });
+
+    it("only requests the pages the item cap needs", async () => {
+      const fetchPage = createFetcher([[1, 2], [3, 4], [5, 6], [7]]);
+
+      const items = await collectPagesConcurrently(pageUrl(1), fetchPage, {
+        maxItems: 3,
+      });
+
+      expect(items).toEqual([1, 2, 3]);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it("falls back to next links without requesting the first page twice", async () => {
+      const fetchPage = jest.fn(async (url: string) => {
+        const page = getPageNumber(url) ?? 1;
+        return {
+          items: [page],
+          link: page < 3 ? `<${pageUrl(page + 1)}>; rel="next"` : null,
+        };
+      });
+
+      const items = await collectPagesConcurrently(pageUrl(1), fetchPage);
+
+      expect(items).toEqual([1, 2, 3]);
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { githubApi, GitHubApiError, RateLimitError } from "../githubApi";
+import { getBlockedUntil, parseRateLimitHeaders } from "../rateLimit";
+import { useRateLimitStore } from "../../store/useRateLimitStore";
+
+global.fetch = jest.fn();
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const mockHeaders = (values: Record<string, string>) => {
+  const lowerCased = Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key.toLowerCase(), value])
+  );
+  return {
+    get: (name: string) => lowerCased[name.toLowerCase()] ?? null,
+  } as Headers;
+};
+
+const inOneHour = Math.floor(Date.now() / 1000) + 60 * 60;
+
+describe("rate limit tracking", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    useRateLimitStore.getState().resetRateLimits();
+  });
+
+  it("parses quota headers", () => {
+    const response = {
+      headers: mockHeaders({
+        "X-RateLimit-Limit": "60",
+        "X-RateLimit-Remaining": "57",
+        "X-RateLimit-Used": "3",
+        "X-RateLimit-Reset": String(inOneHour),
+        "X-RateLimit-Resource": "core",
+      }),
+    } as Response;
+
+    expect(parseRateLimitHeaders(response, "core")).toEqual({
+      resource: "core",
+      limit: 60,
+      remaining: 57,
+      used: 3,
+      reset: inOneHour,
+    });
+  });
+
+  it("returns null when quota headers are missing", () => {
+    expect(parseRateLimitHeaders({} as Response, "core")).toBeNull();
+  });
+
+  it("records the quota from every response", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: mockHeaders({
+        "X-RateLimit-Limit": "5000",
+        "X-RateLimit-Remaining": "4999",
+        "X-RateLimit-Reset": String(inOneHour),
+      }),
+      json: async () => ({ id: 1, login: "testuser" }),
+    } as Response);
+
+    await githubApi.getUser("testuser");
+
+    expect(useRateLimitStore.getState().quotas.core).toMatchObject({
+      limit: 5000,
+      remaining: 4999,
+      used: 1,
+    });
+  });
+
+  it("blocks requests once the quota is exhausted until reset", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 403,
+      headers: mockHeaders({
+        "X-RateLimit-Limit": "60",
+        "X-RateLimit-Remaining": "0",
+        "X-RateLimit-Reset": String(inOneHour),
+      }),
+      json: async () => ({ message: "API rate limit exceeded" }),
+    } as Response);
+
+    const firstError = await githubApi
+      .getUser("testuser")
+      .catch((error) => error);
+    expect(firstError).toBeInstanceOf(RateLimitError);
+    expect(firstError.resetAt).toEqual(new Date(inOneHour * 1000));
+
+    const secondError = await githubApi
+      .getUser("testuser")
+      .catch((error) => error);
+    expect(secondError).toBeInstanceOf(RateLimitError);
+    expect(secondError).toBeInstanceOf(GitHubApiError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("still validates a new token once the anonymous quota is exhausted", async () => {
+    useRateLimitStore.getState().updateQuota({
+      resource: "core",
+      limit: 60,
+      remaining: 0,
+      used: 60,
+      reset: inOneHour,
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: mockHeaders({
+        "X-RateLimit-Limit": "5000",
+        "X-RateLimit-Remaining": "4999",
+        "X-RateLimit-Reset": String(inOneHour),
+      }),
+      json: async () => ({ id: 1, login: "testuser" }),
+    } as Response);
+
+    await expect(
+      githubApi.getAuthenticatedUser("ghp_new")
+    ).resolves.toMatchObject({ login: "testuser" });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not block search when only the core quota is exhausted", async () => {
+    useRateLimitStore.getState().updateQuota({
+      resource: "core",
+      limit: 60,
+      remaining: 0,
+      used: 60,
+      reset: inOneHour,
+    });
+
+    expect(getBlockedUntil("core")).toEqual(new Date(inOneHour * 1000));
+    expect(getBlockedUntil("search")).toBeNull();
+  });
+
+  it("turns secondary rate limits into a RateLimitError using Retry-After", async () => {
+    const now = Date.now();
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 429,
+      headers: mockHeaders({ "Retry-After": "30" }),
+      json: async () => ({
+        message: "You have exceeded a secondary rate limit.",
+      }),
+    } as Response);
+
+    const error = await githubApi.searchUsers("test").catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.status).toBe(429);
+    expect(error.resetAt.getTime()).toBeGreaterThanOrEqual(now + 30 * 1000);
+    expect(getBlockedUntil("search")).not.toBeNull();
+  });
+
+  it("stops blocking once the reset time has passed", () => {
+    useRateLimitStore.getState().updateQuota({
+      resource: "core",
+      limit: 60,
+      remaining: 0,
+      used: 60,
+      reset: Math.floor(Date.now() / 1000) - 1,
+    });
+
+    expect(getBlockedUntil("core")).toBeNull();
+  });
+});
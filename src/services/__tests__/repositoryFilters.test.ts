@@ -0,0 +1,194 @@
+import {
+  applyRepositoryFilters,
+  DEFAULT_REPOSITORY_FILTERS,
+  getFilterOptions,
+  hasActiveFilters,
+  parseRepositoryFilters,
+  RepositoryFilters,
+  serializeRepositoryFilters,
+} from "../repositoryFilters";
+import { GitHubRepository } from "../../types/github";
+
+const repository = (
+  overrides: Partial<GitHubRepository> & { name: string }
+): GitHubRepository => ({
+  id: overrides.name.length,
+  full_name: `octocat/${overrides.name}`,
+  description: null,
+  html_url: `https://github.com/octocat/${overrides.name}`,
+  stargazers_count: 0,
+  watchers_count: 0,
+  forks_count: 0,
+  language: null,
+  updated_at: "2024-01-01T00:00:00Z",
+  topics: [],
+  private: false,
+  fork: false,
+  ...overrides,
+});
+
+const repositories = [
+  repository({
+    name: "hello-world",
+    description: "My first repository",
+    stargazers_count: 5,
+    forks_count: 9,
+    language: "TypeScript",
+    updated_at: "2024-03-01T00:00:00Z",
+    topics: ["demo"],
+  }),
+  repository({
+    name: "Spoon-Knife",
+    stargazers_count: 50,
+    forks_count: 1,
+    language: "HTML",
+    updated_at: "2024-01-01T00:00:00Z",
+    fork: true,
+  }),
+  repository({
+    name: "linguist",
+    description: "Language savant",
+    stargazers_count: 20,
+    forks_count: 3,
+    language: "TypeScript",
+    updated_at: "2024-02-01T00:00:00Z",
+    topics: ["languages", "demo"],
+    archived: true,
+  }),
+];
+
+const names = (filters: Partial<RepositoryFilters>) =>
+  applyRepositoryFilters(repositories, {
+    ...DEFAULT_REPOSITORY_FILTERS,
+    ...filters,
+  }).map(({ name }) => name);
+
+describe("repositoryFilters", () => {
+  describe("applyRepositoryFilters", () => {
+    it("searches names, descriptions and topics case-insensitively", () => {
+      expect(names({ query: "HELLO" })).toEqual(["hello-world"]);
+      expect(names({ query: "savant" })).toEqual(["linguist"]);
+      expect(names({ query: "languages" })).toEqual(["linguist"]);
+      expect(names({ query: "  " })).toHaveLength(3);
+    });
+
+    it("sorts by updated date, stars, forks or name", () => {
+      expect(names({ sort: "updated" })).toEqual([
+        "hello-world",
+        "linguist",
+        "Spoon-Knife",
+      ]);
+      expect(names({ sort: "stars" })).toEqual([
+        "Spoon-Knife",
+        "linguist",
+        "hello-world",
+      ]);
+      expect(names({ sort: "forks" })).toEqual([
+        "hello-world",
+        "linguist",
+        "Spoon-Knife",
+      ]);
+      expect(names({ sort: "name" })).toEqual([
+        "hello-world",
+        "linguist",
+        "Spoon-Knife",
+      ]);
+    });
+
+    it("filters by language, fork flag, archived state and topic", () => {
+      expect(names({ language: "TypeScript" })).toEqual([
+        "hello-world",
+        "linguist",
+      ]);
+      expect(names({ type: "sources" })).toEqual(["hello-world", "linguist"]);
+      expect(names({ type: "forks" })).toEqual(["Spoon-Knife"]);
+      expect(names({ archived: "exclude" })).toEqual([
+        "hello-world",
+        "Spoon-Knife",
+      ]);
+      expect(names({ archived: "only" })).toEqual(["linguist"]);
+      expect(names({ topic: "demo", archived: "exclude" })).toEqual([
+        "hello-world",
+      ]);
+    });
+
+    it("does not reorder the input array", () => {
+      const before = repositories.map(({ name }) => name);
+      names({ sort: "stars" });
+      expect(repositories.map(({ name }) => name)).toEqual(before);
+    });
+  });
+
+  describe("URL state", () => {
+    it("round-trips filters and omits defaults", () => {
+      const filters: RepositoryFilters = {
+        query: "hello world",
+        sort: "stars",
+        language: "C++",
+        type: "sources",
+        archived: "exclude",
+        topic: "demo",
+      };
+
+      const params = serializeRepositoryFilters(filters);
+
+      expect(params.toString()).toBe(
+        "q=hello+world&sort=stars&lang=C%2B%2B&type=sources&archived=exclude&topic=demo"
+      );
+      expect(parseRepositoryFilters(params)).toEqual(filters);
+      expect(
+        serializeRepositoryFilters(DEFAULT_REPOSITORY_FILTERS).toString()
+      ).toBe("");
+    });
+
+    it("keeps unrelated parameters", () => {
+      const params = serializeRepositoryFilters(
+        { ...DEFAULT_REPOSITORY_FILTERS, language: "Go" },
+        new URLSearchParams("tab=repositories&lang=Rust")
+      );
+
+      expect(params.toString()).toBe("tab=repositories&lang=Go");
+    });
+
+    it("falls back to defaults for unknown values", () => {
+      expect(
+        parseRepositoryFilters(
+          new URLSearchParams("sort=random&type=mirrors&archived=maybe")
+        )
+      ).toEqual(DEFAULT_REPOSITORY_FILTERS);
+    });
+  });
+
+  it("treats sorting alone as unfiltered", () => {
+    expect(
+      hasActiveFilters({ ...DEFAULT_REPOSITORY_FILTERS, sort: "name" })
+    ).toBe(false);
+    expect(
+      hasActiveFilters({ ...DEFAULT_REPOSITORY_FILTERS, topic: "demo" })
+    ).toBe(true);
+  });
+
+  it("lists languages and topics by frequency", () => {
+    expect(getFilterOptions(repositories)).toEqual({
+      languages: [
+        { value: "TypeScript", count: 2 },
+        { value: "HTML", count: 1 },
+      ],
+      topics: [
+        { value: "demo", count: 2 },
+        { value: "languages", count: 1 },
+      ],
+    });
+  });
+
+  it("keeps the selected language and topic listed", () => {
+    const options = getFilterOptions(repositories, {
+      ...DEFAULT_REPOSITORY_FILTERS,
+      language: "Rust",
+      topic: "cli",
+    });
+
+    expect(options.languages).toContainEqual({ value: "Rust", count: 0 });
+    expect(options.topics).toContainEqual({ value: "cli", count: 0 });
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  buildRepositorySearchQuery,
+  EMPTY_REPOSITORY_SEARCH_QUALIFIERS,
+  hasRepositoryQualifiers,
+  parseRepositorySearchQuery,
+  parseRepositorySearchSorting,
+  validateRepositorySearchQuery,
+} from "../repositorySearchQuery";
+
+describe("repositorySearchQuery", () => {
+  describe("parse and build", () => {
+    it("builds qualifiers in a stable order", () => {
+      expect(
+        buildRepositorySearchQuery({
+          ...EMPTY_REPOSITORY_SEARCH_QUALIFIERS,
+          text: "http client",
+          pushed: ">2024-01-01",
+          stars: ">500",
+          topic: "cli",
+          language: "Go",
+        })
+      ).toBe("http client language:Go topic:cli stars:>500 pushed:>2024-01-01");
+      expect(
+        buildRepositorySearchQuery(EMPTY_REPOSITORY_SEARCH_QUALIFIERS)
+      ).toBe("");
+    });
+
+    it("round-trips a built query and keeps other qualifiers as text", () => {
+      const query =
+        'parser user:octocat language:"Visual Basic" stars:10..100 pushed:2023-01-01..2023-12-31';
+
+      expect(
+        buildRepositorySearchQuery(parseRepositorySearchQuery(query))
+      ).toBe(query);
+      expect(parseRepositorySearchQuery(query)).toMatchObject({
+        text: "parser user:octocat",
+        language: "Visual Basic",
+        stars: "10..100",
+        pushed: "2023-01-01..2023-12-31",
+      });
+    });
+
+    it("detects builder qualifiers", () => {
+      expect(hasRepositoryQualifiers("react")).toBe(false);
+      expect(hasRepositoryQualifiers("react user:facebook")).toBe(false);
+      expect(hasRepositoryQualifiers("react stars:>10")).toBe(true);
+    });
+  });
+
+  describe("validateRepositorySearchQuery", () => {
+    it.each([
+      "react",
+      "stars:>1000",
+      "cli topic:rust pushed:>=2024-06-01",
+      "org:github archived:false license:mit",
+    ])("accepts %p", (query) => {
+      expect(validateRepositorySearchQuery(query)).toBeNull();
+    });
+
+    it.each([
+      ["", "Enter a search term or qualifier"],
+      ["react followerz:>10", 'Unknown qualifier "followerz:"'],
+      ["react topic:", 'Add a value after "topic:"'],
+    ])("rejects %p", (query, message) => {
+      expect(validateRepositorySearchQuery(query)).toBe(message);
+    });
+
+    it("checks star and pushed ranges", () => {
+      expect(validateRepositorySearchQuery("stars:lots")).toMatch(/stars/);
+      expect(validateRepositorySearchQuery("pushed:yesterday")).toMatch(
+        /pushed/
+      );
+    });
+  });
+
+  it("reads repository sort orders from the URL", () => {
+    expect(
+      parseRepositorySearchSorting(
+        new URLSearchParams("sort=help-wanted-issues&order=asc")
+      )
+    ).toEqual({ sort: "help-wanted-issues", order: "asc" });
+    expect(
+      parseRepositorySearchSorting(new URLSearchParams("sort=followers"))
+    ).toEqual({ sort: "", order: "desc" });
+  });
+});
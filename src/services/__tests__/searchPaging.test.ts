@@ -0,0 +1,38 @@
+import {
+  DEFAULT_SEARCH_PAGING,
+  getSearchPageCount,
+  parseSearchPaging,
+  serializeSearchPaging,
+} from "../searchPaging";
+
+describe("searchPaging", () => {
+  it("counts pages up to the 1,000-result cap", () => {
+    expect(getSearchPageCount(0, 5)).toBe(0);
+    expect(getSearchPageCount(12, 5)).toBe(3);
+    expect(getSearchPageCount(250_000, 30)).toBe(34);
+    expect(getSearchPageCount(250_000, 100)).toBe(10);
+  });
+
+  it("round-trips paging and omits defaults", () => {
+    const params = serializeSearchPaging(
+      { page: 3, perPage: 30 },
+      new URLSearchParams("q=octo")
+    );
+
+    expect(params.toString()).toBe("q=octo&per_page=30&page=3");
+    expect(parseSearchPaging(params)).toEqual({ page: 3, perPage: 30 });
+    expect(serializeSearchPaging(DEFAULT_SEARCH_PAGING).toString()).toBe("");
+  });
+
+  it("ignores page sizes and pages GitHub would reject", () => {
+    expect(
+      parseSearchPaging(new URLSearchParams("per_page=7&page=-2"))
+    ).toEqual(DEFAULT_SEARCH_PAGING);
+    expect(
+      parseSearchPaging(new URLSearchParams("per_page=100&page=11"))
+    ).toEqual({ page: 10, perPage: 100 });
+    expect(parseSearchPaging(new URLSearchParams("page=1.5"))).toEqual(
+      DEFAULT_SEARCH_PAGING
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  formatDateRange,
+  parseDateRange,
+  tokenizeSearchQuery,
+  validateQueryShape,
+} from "../searchQuery";
+
+describe("searchQuery", () => {
+  it("splits qualifiers from terms and keeps quoted values together", () => {
+    expect(
+      tokenizeSearchQuery(
+        'react topic:ui location:"San Francisco" good-first-issues:>1'
+      )
+    ).toEqual([
+      { key: null, value: "react", raw: "react" },
+      { key: "topic", value: "ui", raw: "topic:ui" },
+      {
+        key: "location",
+        value: "San Francisco",
+        raw: 'location:"San Francisco"',
+      },
+      {
+        key: "good-first-issues",
+        value: ">1",
+        raw: "good-first-issues:>1",
+      },
+    ]);
+  });
+
+  it("checks length and quoting", () => {
+    expect(validateQueryShape('"open')).toBe("Close the quote in your search");
+    expect(validateQueryShape("x".repeat(257))).toBe(
+      "Search must be 256 characters or less"
+    );
+    expect(validateQueryShape('"closed" quotes')).toBeNull();
+  });
+
+  describe("date ranges", () => {
+    it.each([
+      ["2019-01-01..2020-12-31", { from: "2019-01-01", to: "2020-12-31" }],
+      ["*..2020-12-31", { from: "", to: "2020-12-31" }],
+      [">=2019-01-01", { from: "2019-01-01", to: "" }],
+      ["<2020-12-31", { from: "", to: "2020-12-31" }],
+      ["2020-05-05", { from: "2020-05-05", to: "2020-05-05" }],
+    ])("parses %s", (value, range) => {
+      expect(parseDateRange(value)).toEqual(range);
+    });
+
+    it("formats open and closed ranges", () => {
+      expect(formatDateRange({ from: "2019-01-01", to: "2020-12-31" })).toBe(
+        "2019-01-01..2020-12-31"
+      );
+      expect(formatDateRange({ from: "2019-01-01", to: "" })).toBe(
+        ">=2019-01-01"
+      );
+      expect(formatDateRange({ from: "", to: "2020-12-31" })).toBe(
+        "<=2020-12-31"
+      );
+      expect(formatDateRange({ from: "", to: "" })).toBe("");
+    });
+  });
+});
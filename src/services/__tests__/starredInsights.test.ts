@@ -0,0 +1,75 @@
+import { countTopics, summarizeStarred } from "../starredInsights";
+import { GitHubRepository } from "../../types/github";
+
+const repo = (
+  fullName: string,
+  language: string | null,
+  topics: string[] = []
+): GitHubRepository => ({
+  id: fullName.length,
+  name: fullName.split("/")[1],
+  full_name: fullName,
+  description: null,
+  html_url: `https://github.com/${fullName}`,
+  stargazers_count: 0,
+  watchers_count: 0,
+  forks_count: 0,
+  language,
+  updated_at: "2024-01-01T00:00:00Z",
+  topics,
+  private: false,
+  fork: false,
+});
+
+describe("starredInsights", () => {
+  const starred = [
+    repo("facebook/react", "JavaScript", ["react", "ui", "frontend"]),
+    repo("vuejs/core", "TypeScript", ["vue", "frontend"]),
+    repo("microsoft/TypeScript", "TypeScript", ["typescript"]),
+    repo("golang/go", "Go", ["go"]),
+    repo("torvalds/linux", null),
+  ];
+
+  describe("countTopics", () => {
+    it("counts topics across repositories, most common first", () => {
+      expect(countTopics(starred)).toEqual([
+        { name: "frontend", count: 2 },
+        { name: "go", count: 1 },
+        { name: "react", count: 1 },
+        { name: "typescript", count: 1 },
+        { name: "ui", count: 1 },
+        { name: "vue", count: 1 },
+      ]);
+    });
+
+    it("tolerates repositories without topics", () => {
+      const untagged = { ...repo("a/b", null), topics: undefined };
+      expect(countTopics([untagged as unknown as GitHubRepository])).toEqual(
+        []
+      );
+    });
+  });
+
+  describe("summarizeStarred", () => {
+    it("ranks languages and topics, up to the limit", () => {
+      const insights = summarizeStarred(starred, 2);
+
+      expect(
+        insights.topLanguages.map(({ name, value }) => [name, value])
+      ).toEqual([
+        ["TypeScript", 2],
+        ["Go", 1],
+      ]);
+      // Percentages are of the repositories that have a language
+      expect(insights.topLanguages[0].percent).toBe(50);
+      expect(insights.topTopics).toEqual([
+        { name: "frontend", count: 2 },
+        { name: "go", count: 1 },
+      ]);
+    });
+
+    it("is empty for no starred repositories", () => {
+      expect(summarizeStarred([])).toEqual({ topLanguages: [], topTopics: [] });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { getSyntax, highlightCode, Token } from "../syntaxHighlight";
+
+const ofType = (tokens: Token[], type: Token["type"]) =>
+  tokens.filter((token) => token.type === type).map((token) => token.text);
+
+describe("syntaxHighlight", () => {
+  it("resolves GitHub language names and their dialects", () => {
+    expect(getSyntax("TypeScript")).toBe(getSyntax("JavaScript"));
+    expect(getSyntax("Java")).toBe(getSyntax("C"));
+    expect(getSyntax("Markdown")).toBeNull();
+    expect(getSyntax(null)).toBeNull();
+  });
+
+  it("highlights keywords, strings, numbers and comments", () => {
+    const tokens = highlightCode(
+      'const answer = 42; // the "answer"\nreturn `hi\nthere`;',
+      "TypeScript"
+    );
+
+    expect(ofType(tokens, "keyword")).toEqual(["const", "return"]);
+    expect(ofType(tokens, "number")).toEqual(["42"]);
+    expect(ofType(tokens, "comment")).toEqual(['// the "answer"']);
+    expect(ofType(tokens, "string")).toEqual(["`hi\nthere`"]);
+  });
+
+  it("keeps the source text intact", () => {
+    const code =
+      'def greet(name):\n    """Says hi"""\n    print(f"hi {name}")  # done\n';
+    const tokens = highlightCode(code, "Python");
+
+    expect(tokens.map((token) => token.text).join("")).toBe(code);
+    expect(ofType(tokens, "keyword")).toEqual(["def"]);
+    expect(ofType(tokens, "comment")).toEqual(["# done"]);
+  });
+
+  it("handles escapes and unterminated strings and comments", () => {
+    expect(ofType(highlightCode('x = "a\\"b"', "Ruby"), "string")).toEqual([
+      '"a\\"b"',
+    ]);
+    expect(ofType(highlightCode('s = "open\nnext', "Ruby"), "string")).toEqual([
+      '"open',
+    ]);
+    expect(
+      ofType(highlightCode("int x; /* never closed\nint y;", "C"), "comment")
+    ).toEqual(["/* never closed\nint y;"]);
+  });
+
+  it("matches SQL keywords regardless of case", () => {
+    const tokens = highlightCode("SELECT id FROM users -- all", "SQL");
+    expect(ofType(tokens, "keyword")).toEqual(["SELECT", "FROM"]);
+    expect(ofType(tokens, "comment")).toEqual(["-- all"]);
+  });
+
+  it("leaves unknown languages as plain text", () => {
+    expect(highlightCode("# Title\n\nSome *text*", "Markdown")).toEqual([
+      { type: "plain", text: "# Title\n\nSome *text*" },
+    ]);
+    expect(highlightCode("", null)).toEqual([]);
+  });
+
+  it("doesn't treat digits inside identifiers as numbers", () => {
+    expect(ofType(highlightCode("let x2 = h1;", "Rust"), "number")).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  normalizeComparedUsers,
+  parseComparedUsers,
+  summarizeRepositories,
+} from "../userComparison";
+import { GitHubRepository } from "../../types/github";
+
+const repo = (
+  name: string,
+  stars: number,
+  language: string | null,
+  fork = false
+): GitHubRepository => ({
+  id: name.length * 1000 + stars,
+  name,
+  full_name: `octocat/${name}`,
+  description: null,
+  html_url: `https://github.com/octocat/${name}`,
+  stargazers_count: stars,
+  watchers_count: stars,
+  forks_count: 0,
+  language,
+  updated_at: "2024-01-01T00:00:00Z",
+  topics: [],
+  private: false,
+  fork,
+});
+
+describe("userComparison", () => {
+  describe("compared users in the URL", () => {
+    it("parses, dedupes and caps the logins", () => {
+      expect(
+        parseComparedUsers(
+          new URLSearchParams(
+            "users=octocat,,Defunkt,OCTOCAT,mojombo,pjhyett,wycats"
+          )
+        )
+      ).toEqual(["octocat", "Defunkt", "mojombo", "pjhyett"]);
+      expect(parseComparedUsers(new URLSearchParams())).toEqual([]);
+    });
+
+    it("keeps the first spelling of a login", () => {
+      expect(normalizeComparedUsers(["Octocat", "octocat"])).toEqual([
+        "Octocat",
+      ]);
+    });
+  });
+
+  describe("summarizeRepositories", () => {
+    const repositories = [
+      repo("alpha", 10, "Go"),
+      repo("beta", 50, "TypeScript"),
+      repo("gamma", 5, "Go"),
+      repo("delta", 500, "C", true),
+      repo("epsilon", 50, null),
+    ];
+
+    it("totals stars and ranks repositories without forks", () => {
+      const summary = summarizeRepositories(repositories);
+
+      expect(summary.totalStars).toBe(115);
+      expect(summary.mostStarred.map((r) => r.name)).toEqual([
+        "beta",
+        "epsilon",
+        "alpha",
+      ]);
+    });
+
+    it("ranks languages by repository count", () => {
+      const summary = summarizeRepositories(repositories);
+
+      expect(
+        summary.topLanguages.map(({ name, value }) => [name, value])
+      ).toEqual([
+        ["Go", 2],
+        ["TypeScript", 1],
+      ]);
+    });
+
+    it("handles users without repositories", () => {
+      expect(summarizeRepositories([])).toEqual({
+        totalStars: 0,
+        topLanguages: [],
+        mostStarred: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  buildNetworkGraph,
+  findMutualFollows,
+  MAX_GRAPH_CONNECTIONS,
+} from "../userNetwork";
+import { GitHubUser } from "../../types/github";
+
+const user = (login: string): GitHubUser => ({
+  id: login.length,
+  login,
+  avatar_url: `https://avatars.githubusercontent.com/${login}`,
+  html_url: `https://github.com/${login}`,
+  type: "User",
+});
+
+const users = (...logins: string[]) => logins.map(user);
+
+describe("userNetwork", () => {
+  describe("findMutualFollows", () => {
+    it("finds users in both lists, ignoring case", () => {
+      expect(
+        findMutualFollows(
+          users("alice", "Bob", "carol"),
+          users("bob", "dave", "Carol")
+        )
+      ).toEqual(new Set(["bob", "carol"]));
+    });
+
+    it("is empty when either list is", () => {
+      expect(findMutualFollows(users("alice"), []).size).toBe(0);
+    });
+  });
+
+  describe("buildNetworkGraph", () => {
+    const center = user("octocat");
+
+    it("centres the user and links every connection back to them", () => {
+      const graph = buildNetworkGraph(
+        center,
+        users("alice", "bob"),
+        users("bob", "carol")
+      );
+
+      expect(
+        graph.nodes.map((node) => [node.user.login, node.relation])
+      ).toEqual([
+        ["octocat", null],
+        ["bob", "mutual"],
+        ["alice", "follower"],
+        ["carol", "following"],
+      ]);
+      expect(graph.nodes[0].position).toEqual({ x: 0, y: 0 });
+      expect(
+        graph.links.map(({ source, target }) => [
+          source.user.login,
+          target.user.login,
+        ])
+      ).toEqual([
+        ["octocat", "bob"],
+        ["octocat", "alice"],
+        ["octocat", "carol"],
+      ]);
+      expect(graph.omitted).toBe(0);
+    });
+
+    it("caps the connections, keeping mutual follows", () => {
+      const followers = users("m1", "m2", "f1", "f2", "f3");
+      const following = users("m1", "m2", "g1", "g2");
+
+      const graph = buildNetworkGraph(center, followers, following, 4);
+
+      expect(graph.nodes.slice(1).map((node) => node.user.login)).toEqual([
+        "m1",
+        "m2",
+        "f1",
+        "g1",
+      ]);
+      expect(graph.omitted).toBe(3);
+    });
+
+    it("defaults to a readable number of nodes", () => {
+      const many = Array.from({ length: 100 }, (_, i) => user(`user${i}`));
+      const graph = buildNetworkGraph(center, many, []);
+
+      expect(graph.nodes).toHaveLength(MAX_GRAPH_CONNECTIONS + 1);
+      expect(graph.omitted).toBe(100 - MAX_GRAPH_CONNECTIONS);
+    });
+  });
+});
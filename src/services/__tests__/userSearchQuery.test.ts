@@ -0,0 +1,108 @@
+import {
+  buildUserSearchQuery,
+  EMPTY_USER_SEARCH_QUALIFIERS,
+  hasUserQualifiers,
+  parseUserSearchQuery,
+  parseUserSearchSorting,
+  validateUserSearchQuery,
+} from "../userSearchQuery";
+import { serializeSearchSorting } from "../searchQuery";
+
+describe("userSearchQuery", () => {
+  describe("parse and build", () => {
+    it("builds qualifiers in a stable order and quotes values with spaces", () => {
+      expect(
+        buildUserSearchQuery({
+          ...EMPTY_USER_SEARCH_QUALIFIERS,
+          text: "tom",
+          followers: ">100",
+          location: "San Francisco",
+          type: "user",
+          in: ["login", "name"],
+          created: "2019-01-01..2020-12-31",
+        })
+      ).toBe(
+        'tom type:user in:login,name location:"San Francisco" followers:>100 created:2019-01-01..2020-12-31'
+      );
+      expect(buildUserSearchQuery(EMPTY_USER_SEARCH_QUALIFIERS)).toBe("");
+    });
+
+    it("round-trips a built query", () => {
+      const query =
+        'jane type:org in:email location:"New York" language:Go repos:10..50';
+
+      expect(buildUserSearchQuery(parseUserSearchQuery(query))).toBe(query);
+      expect(parseUserSearchQuery(query)).toMatchObject({
+        text: "jane",
+        type: "org",
+        location: "New York",
+        language: "Go",
+        repos: "10..50",
+        in: ["email"],
+      });
+    });
+
+    it("keeps unknown qualifiers and free text", () => {
+      expect(parseUserSearchQuery("tom is:sponsorable fullname").text).toBe(
+        "tom is:sponsorable fullname"
+      );
+    });
+
+    it("detects qualifiers", () => {
+      expect(hasUserQualifiers("tom")).toBe(false);
+      expect(hasUserQualifiers("tom followers:>10")).toBe(true);
+    });
+  });
+
+  describe("validateUserSearchQuery", () => {
+    it.each([
+      ["", "Username is required"],
+      ["a".repeat(40), "Username must be less than 40 characters"],
+      ['location:"San Francisco', "Close the quote in your search"],
+      ["tom stars:>10", 'Unknown qualifier "stars:"'],
+      ["tom location:", 'Add a value after "location:"'],
+      ["type:bot", 'type: must be "user" or "org"'],
+      ["in:bio", "in: accepts login, name or email"],
+      [
+        "followers:lots",
+        "followers: expects a number or range like >100 or 10..50",
+      ],
+      ["repos:*..*", "repos: expects a number or range like >100 or 10..50"],
+      [
+        "created:2020",
+        "created: expects a date or range like >2020-01-01 or 2019-01-01..2020-12-31",
+      ],
+      ["x".repeat(257), "Search must be 256 characters or less"],
+    ])("rejects %j", (query, message) => {
+      expect(validateUserSearchQuery(query)).toBe(message);
+    });
+
+    it.each([
+      "octocat",
+      "type:org location:Berlin",
+      "followers:>=100 repos:10..*",
+      "created:<2015-01-01",
+      'in:name "Mona Lisa Octocat the Magnificent of GitHub"',
+      'fullname:"Mona Lisa" is:sponsorable',
+      "org:github type:user",
+    ])("accepts %j", (query) => {
+      expect(validateUserSearchQuery(query)).toBeNull();
+    });
+  });
+
+  it("round-trips sorting through the URL and omits best match", () => {
+    const params = serializeSearchSorting(
+      { sort: "followers", order: "asc" },
+      new URLSearchParams("q=tom")
+    );
+
+    expect(params.toString()).toBe("q=tom&sort=followers&order=asc");
+    expect(parseUserSearchSorting(params)).toEqual({
+      sort: "followers",
+      order: "asc",
+    });
+    expect(
+      parseUserSearchSorting(new URLSearchParams("sort=stars&order=asc"))
+    ).toEqual({ sort: "", order: "desc" });
+  });
+});
@@ -0,0 +1,12 @@
+// jsdom and older browsers lack AbortSignal.throwIfAborted and signal.reason,
+// so cancellation is normalised to a DOMException named "AbortError" like
+// the one fetch rejects with
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined) {
+  if (signal?.aborted) {
+    throw new DOMException("The operation was aborted.", "AbortError");
+  }
+}
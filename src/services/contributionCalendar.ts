@@ -0,0 +1,109 @@
+import { GitHubContributionCalendar, GitHubEvent } from "../types/github";
+
+export type ContributionLevel = 0 | 1 | 2 | 3 | 4;
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  count: number;
+  level: ContributionLevel;
+  // Before the data reaches back to, so the count is unknown rather than 0
+  noData?: boolean;
+}
+
+// Seven slots, Sunday first; null where the day is outside the calendar
+export type CalendarWeek = (CalendarDay | null)[];
+
+export const CALENDAR_WEEKS = 53;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Event timestamps are UTC, so days are bucketed by their UTC date
+export function toDateKey(date: Date | string): string {
+  return (typeof date === "string" ? new Date(date) : date)
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Quartiles of the busiest day, like the GitHub profile graph
+export function getContributionLevel(
+  count: number,
+  maxCount: number
+): ContributionLevel {
+  if (count <= 0 || maxCount <= 0) {
+    return 0;
+  }
+  return Math.min(4, Math.ceil((count / maxCount) * 4)) as ContributionLevel;
+}
+
+function withLevels(weeks: CalendarWeek[]): CalendarWeek[] {
+  const maxCount = Math.max(
+    0,
+    ...weeks.flatMap((week) => week.map((day) => day?.count ?? 0))
+  );
+  return weeks.map((week) =>
+    week.map((day) =>
+      day ? { ...day, level: getContributionLevel(day.count, maxCount) } : null
+    )
+  );
+}
+
+// Builds the last 53 weeks ending with the week that contains `today`,
+// counting one contribution per event. The events feed only reaches back to
+// coverageStart, so earlier days are marked as having no data; an empty feed
+// gives no coverage at all
+export function buildCalendarFromEvents(
+  events: GitHubEvent[],
+  coverageStart: string | null = null,
+  today: Date = new Date()
+): CalendarWeek[] {
+  const counts = new Map<string, number>();
+  events.forEach((event) => {
+    const key = toDateKey(event.created_at);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const coverageKey = coverageStart ? toDateKey(coverageStart) : null;
+  const todayKey = toDateKey(today);
+  const todayUtc = Date.parse(todayKey);
+  const start =
+    todayUtc -
+    (new Date(todayUtc).getUTCDay() + (CALENDAR_WEEKS - 1) * 7) * DAY_MS;
+
+  const weeks: CalendarWeek[] = [];
+  for (let week = 0; week < CALENDAR_WEEKS; week++) {
+    const days: CalendarWeek = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const time = start + (week * 7 + weekday) * DAY_MS;
+      const date = toDateKey(new Date(time));
+      if (time > todayUtc) {
+        days.push(null);
+      } else if (
+        events.length === 0 ||
+        (coverageKey !== null && date < coverageKey)
+      ) {
+        days.push({ date, count: 0, level: 0, noData: true });
+      } else {
+        days.push({ date, count: counts.get(date) ?? 0, level: 0 });
+      }
+    }
+    weeks.push(days);
+  }
+  return withLevels(weeks);
+}
+
+// GraphQL weeks may start or end mid-week; slot each day by its weekday
+export function fromGraphqlCalendar(
+  calendar: GitHubContributionCalendar
+): CalendarWeek[] {
+  const weeks = calendar.weeks.map(({ contributionDays }) => {
+    const days: CalendarWeek = Array(7).fill(null);
+    contributionDays.forEach((day) => {
+      days[day.weekday] = {
+        date: day.date,
+        count: day.contributionCount,
+        level: 0,
+      };
+    });
+    return days;
+  });
+  return withLevels(weeks);
+}
@@ -0,0 +1,54 @@
+import { GitHubApiError as GitHubApiErrorType } from "../types/github";
+import { getRateLimitResetTime } from "./rateLimit";
+
+export class GitHubApiError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
+
+export class RateLimitError extends GitHubApiError {
+  constructor(message: string, public resetAt: Date | null, status?: number) {
+    super(message, status);
+    this.name = "RateLimitError";
+  }
+}
+
+export const getRateLimitResetAt = (error: Error | null) =>
+  error instanceof RateLimitError ? error.resetAt : null;
+
+function isRateLimitResponse(response: Response, message: string): boolean {
+  if (response.status === 429) {
+    return true;
+  }
+  return (
+    response.status === 403 &&
+    (getRateLimitResetTime(response) !== null || /rate limit/i.test(message))
+  );
+}
+
+export async function handleResponse<T>(
+  response: Response,
+  parseAs: "json" | "text" = "json"
+): Promise<T> {
+  if (!response.ok) {
+    const errorData: GitHubApiErrorType = await response.json().catch(() => ({
+      message: `HTTP ${response.status}: ${response.statusText}`,
+    }));
+    if (isRateLimitResponse(response, errorData.message)) {
+      const resetTime = getRateLimitResetTime(response);
+      throw new RateLimitError(
+        errorData.message,
+        resetTime !== null ? new Date(resetTime) : null,
+        response.status
+      );
+    }
+    throw new GitHubApiError(errorData.message, response.status);
+  }
+  // e.g. the contributors of an empty repository
+  if (response.status === 204) {
+    return null as T;
+  }
+  return parseAs === "text" ? response.text() : response.json();
+}
@@ -0,0 +1,100 @@
+export interface EtagCacheEntry {
+  etag: string;
+  body: unknown;
+  link: string | null; // 304s may omit the Link header, so keep the original
+  size: number;
+}
+
+export interface EtagCacheStats {
+  entries: number;
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+}
+
+const DEFAULT_MAX_SIZE = 5 * 1024 * 1024; // ~5 MB of serialized JSON
+
+// Keeps ETag + body pairs so unchanged resources can be revalidated with a
+// 304, which GitHub doesn't count against the rate limit. Entries are evicted
+// least recently used first once the serialized size exceeds maxSize.
+export function createEtagCache(maxSize: number = DEFAULT_MAX_SIZE) {
+  // Map iteration order is insertion order, so re-inserting on access keeps
+  // the least recently used entry first
+  const entries = new Map<string, EtagCacheEntry>();
+  let size = 0;
+  let hits = 0;
+  let misses = 0;
+
+  const remove = (url: string) => {
+    const entry = entries.get(url);
+    if (entry) {
+      size -= entry.size;
+      entries.delete(url);
+    }
+  };
+
+  return {
+    get(url: string): EtagCacheEntry | undefined {
+      const entry = entries.get(url);
+      if (entry) {
+        entries.delete(url);
+        entries.set(url, entry);
+      }
+      return entry;
+    },
+
+    set(url: string, etag: string, body: unknown, link: string | null = null) {
+      remove(url);
+
+      const entrySize = JSON.stringify(body)?.length ?? 0;
+      if (entrySize > maxSize) {
+        return;
+      }
+
+      entries.set(url, { etag, body, link, size: entrySize });
+      size += entrySize;
+
+      while (size > maxSize) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        remove(oldest);
+      }
+    },
+
+    recordHit() {
+      hits++;
+    },
+
+    recordMiss() {
+      misses++;
+    },
+
+    delete(url: string) {
+      remove(url);
+    },
+
+    has(url: string) {
+      return entries.has(url);
+    },
+
+    keys(): string[] {
+      return Array.from(entries.keys());
+    },
+
+    stats(): EtagCacheStats {
+      return { entries: entries.size, size, maxSize, hits, misses };
+    },
+
+    clear() {
+      entries.clear();
+      size = 0;
+      hits = 0;
+      misses = 0;
+    },
+  };
+}
+
+export type EtagCache = ReturnType<typeof createEtagCache>;
+
+export const etagCache = createEtagCache();
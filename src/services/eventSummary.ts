@@ -0,0 +1,216 @@
+import { GitHubEvent } from "../types/github";
+
+// Commit messages, titles and the like shown under an event's summary
+export const MAX_EVENT_DETAILS = 3;
+
+export interface EventSummary {
+  title: string;
+  // Web page of whatever the event is about: absolute when the payload has an
+  // html_url, otherwise a path on the configured web host
+  url: string | null;
+  details: string[];
+}
+
+const firstLine = (text: string) => text.split("\n")[0].trim();
+
+const shortSha = (sha: string) => sha.slice(0, 7);
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// refs/heads/main -> main, refs/tags/v1 -> v1
+const refName = (ref: string) => ref.replace(/^refs\/(heads|tags)\//, "");
+
+// Opened / closed / reopened read naturally; other actions (edited, labeled,
+// synchronize, ...) are summarised as updates
+const describeAction = (action: string) =>
+  ({ opened: "Opened", closed: "Closed", reopened: "Reopened" }[action] ??
+  "Updated");
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+// Lists up to MAX_EVENT_DETAILS lines, noting how many were left out
+const limitDetails = (lines: string[], total: number = lines.length) =>
+  total > MAX_EVENT_DETAILS
+    ? [
+        ...lines.slice(0, MAX_EVENT_DETAILS),
+        `and ${total - MAX_EVENT_DETAILS} more`,
+      ]
+    : lines;
+
+export function summarizeEvent(event: GitHubEvent): EventSummary {
+  const repoPath = event.repo ? `/${event.repo.name}` : null;
+  const inRepo = (path: string) => (repoPath ? `${repoPath}${path}` : null);
+
+  switch (event.type) {
+    case "PushEvent": {
+      const { ref, head, before, commits = [], size } = event.payload;
+      const count = size ?? commits.length;
+      const branch = refName(ref);
+      return {
+        title:
+          count > 0
+            ? `Pushed ${plural(count, "commit")} to ${branch}`
+            : `Pushed to ${branch}`,
+        url:
+          count === 1
+            ? inRepo(`/commit/${head}`)
+            : inRepo(`/compare/${shortSha(before)}...${shortSha(head)}`),
+        details: limitDetails(
+          commits.map((commit) => firstLine(commit.message)),
+          count
+        ),
+      };
+    }
+    case "PullRequestEvent": {
+      const { action, pull_request } = event.payload;
+      const verb =
+        action === "closed" && pull_request.merged
+          ? "Merged"
+          : describeAction(action);
+      return {
+        title: `${verb} pull request #${pull_request.number}`,
+        url: pull_request.html_url,
+        details: [pull_request.title],
+      };
+    }
+    case "PullRequestReviewEvent": {
+      const { review, pull_request } = event.payload;
+      const verb =
+        review.state === "approved"
+          ? "Approved"
+          : review.state === "changes_requested"
+          ? "Requested changes on"
+          : "Reviewed";
+      return {
+        title: `${verb} pull request #${pull_request.number}`,
+        url: review.html_url,
+        details: [pull_request.title],
+      };
+    }
+    case "PullRequestReviewCommentEvent": {
+      const { comment, pull_request } = event.payload;
+      return {
+        title: `Commented on the changes in pull request #${pull_request.number}`,
+        url: comment.html_url,
+        details: [pull_request.title],
+      };
+    }
+    case "PullRequestReviewThreadEvent": {
+      const { action, pull_request } = event.payload;
+      return {
+        title: `${
+          action === "resolved" ? "Resolved" : "Reopened"
+        } a review thread in pull request #${pull_request.number}`,
+        url: pull_request.html_url,
+        details: [pull_request.title],
+      };
+    }
+    case "IssuesEvent": {
+      const { action, issue } = event.payload;
+      return {
+        title: `${describeAction(action)} issue #${issue.number}`,
+        url: issue.html_url,
+        details: [issue.title],
+      };
+    }
+    case "IssueCommentEvent": {
+      const { issue, comment } = event.payload;
+      return {
+        title: `Commented on ${
+          issue.pull_request ? "pull request" : "issue"
+        } #${issue.number}`,
+        url: comment.html_url,
+        details: [issue.title],
+      };
+    }
+    case "CommitCommentEvent": {
+      const { comment } = event.payload;
+      return {
+        title: `Commented on commit ${shortSha(comment.commit_id)}`,
+        url: comment.html_url,
+        details: [firstLine(comment.body)],
+      };
+    }
+    case "CreateEvent": {
+      const { ref, ref_type } = event.payload;
+      if (ref_type === "repository" || !ref) {
+        return { title: "Created repository", url: repoPath, details: [] };
+      }
+      return {
+        title: `Created ${ref_type} ${ref}`,
+        url: inRepo(`/tree/${encodeURIComponent(ref)}`),
+        details: [],
+      };
+    }
+    case "DeleteEvent": {
+      const { ref, ref_type } = event.payload;
+      // The ref is gone, so the repository is the closest thing to link to
+      return {
+        title: `Deleted ${ref_type} ${ref}`,
+        url: repoPath,
+        details: [],
+      };
+    }
+    case "ForkEvent": {
+      const { forkee } = event.payload;
+      return {
+        title: "Forked repository",
+        url: forkee.html_url,
+        details: [`Fork: ${forkee.full_name}`],
+      };
+    }
+    case "GollumEvent": {
+      const { pages } = event.payload;
+      if (pages.length === 1) {
+        return {
+          title: `${capitalize(pages[0].action)} wiki page ${pages[0].title}`,
+          url: pages[0].html_url,
+          details: [],
+        };
+      }
+      return {
+        title: `Updated ${plural(pages.length, "wiki page")}`,
+        url: inRepo("/wiki"),
+        details: limitDetails(pages.map((page) => page.title)),
+      };
+    }
+    case "MemberEvent": {
+      const { member } = event.payload;
+      return {
+        title: `Added ${member.login} as a collaborator`,
+        url: member.html_url,
+        details: [],
+      };
+    }
+    case "PublicEvent":
+      return { title: "Made repository public", url: repoPath, details: [] };
+    case "ReleaseEvent": {
+      const { action, release } = event.payload;
+      return {
+        title: `${capitalize(action)} ${
+          release.prerelease ? "pre-release" : "release"
+        } ${release.tag_name}`,
+        url: release.html_url,
+        details:
+          release.name && release.name !== release.tag_name
+            ? [release.name]
+            : [],
+      };
+    }
+    case "SponsorshipEvent":
+      return {
+        title: `${capitalize(event.payload.action)} a sponsorship`,
+        url: null,
+        details: [],
+      };
+    case "WatchEvent":
+      return { title: "Starred repository", url: repoPath, details: [] };
+    default: {
+      // Event types GitHub adds later still get a readable name
+      const { type } = event as { type: string };
+      return { title: type.replace("Event", ""), url: repoPath, details: [] };
+    }
+  }
+}
@@ -0,0 +1,106 @@
+export interface LayoutNode {
+  id: string;
+  // Pinned to the origin, e.g. the user a network is centred on
+  fixed?: boolean;
+}
+
+export interface LayoutLink {
+  source: string;
+  target: string;
+  // Length the link's spring rests at
+  distance: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface ForceLayoutOptions {
+  iterations?: number;
+  repulsion?: number;
+  springStrength?: number;
+}
+
+const MAX_STEP = 10;
+
+// A small spring-embedder: every pair of nodes repels, links pull their ends
+// towards their rest distance and the steps shrink as it cools. Nodes start on
+// a circle rather than at random, so the same graph always lays out the same.
+export function layoutForceGraph(
+  nodes: LayoutNode[],
+  links: LayoutLink[],
+  {
+    iterations = 300,
+    repulsion = 2000,
+    springStrength = 0.1,
+  }: ForceLayoutOptions = {}
+): Record<string, Point> {
+  const free = nodes.filter((node) => !node.fixed);
+  const positions: Record<string, Point> = {};
+  nodes.forEach((node) => {
+    positions[node.id] = { x: 0, y: 0 };
+  });
+  free.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / free.length;
+    positions[node.id] = { x: 100 * Math.cos(angle), y: 100 * Math.sin(angle) };
+  });
+
+  for (let step = 0; step < iterations; step++) {
+    const cooling = 1 - step / iterations;
+    const forces: Record<string, Point> = {};
+    nodes.forEach((node) => {
+      forces[node.id] = { x: 0, y: 0 };
+    });
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = positions[nodes[i].id];
+        const b = positions[nodes[j].id];
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        if (dx === 0 && dy === 0) {
+          // Coincident nodes would never separate
+          dx = 0.01 * (j - i);
+          dy = 0.01;
+        }
+        const distanceSquared = dx * dx + dy * dy;
+        const distance = Math.sqrt(distanceSquared);
+        const force = repulsion / distanceSquared;
+        forces[nodes[i].id].x += (dx / distance) * force;
+        forces[nodes[i].id].y += (dy / distance) * force;
+        forces[nodes[j].id].x -= (dx / distance) * force;
+        forces[nodes[j].id].y -= (dy / distance) * force;
+      }
+    }
+
+    links.forEach((link) => {
+      const a = positions[link.source];
+      const b = positions[link.target];
+      if (!a || !b) {
+        return;
+      }
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const force = (distance - link.distance) * springStrength;
+      forces[link.source].x += (dx / distance) * force;
+      forces[link.source].y += (dy / distance) * force;
+      forces[link.target].x -= (dx / distance) * force;
+      forces[link.target].y -= (dy / distance) * force;
+    });
+
+    free.forEach((node) => {
+      const force = forces[node.id];
+      const magnitude = Math.sqrt(force.x * force.x + force.y * force.y);
+      if (magnitude === 0) {
+        return;
+      }
+      const length = Math.min(magnitude, MAX_STEP) * cooling;
+      positions[node.id].x += (force.x / magnitude) * length;
+      positions[node.id].y += (force.y / magnitude) * length;
+    });
+  }
+
+  return positions;
+}
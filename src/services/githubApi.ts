@@ -2,51 +2,251 @@ import {
   GitHubUser,
   GitHubRepository,
   GitHubSearchUsersResponse,
-  GitHubApiError as GitHubApiErrorType,
+  GitHubSearchRepositoriesResponse,
   GitHubEvent,
   GitHubContributionStats,
+  GitHubContributionsCollection,
+  GitHubUserOverview,
+  GitHubRepositoryDetails,
+  GitHubRepositoryLanguages,
+  GitHubContributor,
+  GitHubRelease,
+  GitHubOrganization,
+  GitHubGist,
 } from "../types/github";
+import { useAuthStore } from "../store/useAuthStore";
+import { useHostStore } from "../store/useHostStore";
+import {
+  getBlockedUntil,
+  getRateLimitResource,
+  recordRateLimit,
+} from "./rateLimit";
+import { GitHubApiError, RateLimitError, handleResponse } from "./errors";
+import { etagCache } from "./etagCache";
+import { isAbortError } from "./abort";
+import { DEFAULT_SEARCH_PAGE_SIZE } from "./searchPaging";
+import { UserSearchSorting } from "./userSearchQuery";
+import { RepositorySearchSorting } from "./repositorySearchQuery";
+import { githubGraphql, toRestRepository, toRestUser } from "./githubGraphql";
+import {
+  collectPages,
+  collectPagesConcurrently,
+  ConcurrentPaginationOptions,
+  PageFetcher,
+} from "./pagination";
+
+const MAX_PER_PAGE = 100; // GitHub's maximum per_page value
+const MAX_PUBLIC_EVENTS = 300; // The public events feed stops after 3 pages
+const MAX_PUBLIC_MEMBERS = 500; // Enough for a members panel; GitHub links the rest
+const MAX_CONNECTIONS = 500; // Followers or following per user, for lists and the graph
+
+const JSON_MEDIA_TYPE = "application/vnd.github.v3+json";
+// Asks GitHub to render (and sanitize) Markdown server-side
+const HTML_MEDIA_TYPE = "application/vnd.github.html+json";
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface ContributionStatsOptions extends RequestOptions {
+  // A user page already has the contributions collection from its overview,
+  // so it isn't queried a second time
+  overview?: GitHubUserOverview;
+}
 
-const GITHUB_API_BASE_URL = "https://api.github.com";
+interface GitHubRequestOptions extends RequestOptions {
+  // Overrides the stored token, e.g. to validate a token before saving it
+  token?: string | null;
+  // Non-JSON media types are returned as text
+  accept?: string;
+}
 
-class GitHubApiError extends Error {
-  constructor(message: string, public status?: number) {
-    super(message);
-    this.name = "GitHubApiError";
+function buildHeaders(
+  token: string | null | undefined,
+  etag?: string,
+  accept: string = JSON_MEDIA_TYPE
+): HeadersInit {
+  const headers: Record<string, string> = {
+    Accept: accept,
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (etag) {
+    headers["If-None-Match"] = etag;
   }
+  return headers;
 }
 
-async function handleResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    const errorData: GitHubApiErrorType = await response.json().catch(() => ({
-      message: `HTTP ${response.status}: ${response.statusText}`,
-    }));
-    throw new GitHubApiError(errorData.message, response.status);
+interface GitHubResponse<T> {
+  data: T;
+  link: string | null;
+}
+
+// Accepts either an API path or an absolute URL taken from a Link header
+function resolveUrl(pathOrUrl: string): { url: string; path: string } {
+  const { apiBaseUrl } = useHostStore.getState();
+  if (pathOrUrl.startsWith(apiBaseUrl)) {
+    return {
+      url: pathOrUrl,
+      path: pathOrUrl.slice(apiBaseUrl.length),
+    };
   }
-  return response.json();
+  return { url: `${apiBaseUrl}${pathOrUrl}`, path: pathOrUrl };
 }
 
+// Every REST call goes through here so authentication is applied uniformly
+async function githubFetch<T>(
+  pathOrUrl: string,
+  options: GitHubRequestOptions = {}
+): Promise<GitHubResponse<T>> {
+  const token =
+    options.token !== undefined ? options.token : useAuthStore.getState().token;
+
+  const { url, path } = resolveUrl(pathOrUrl);
+
+  // Don't spend a request we already know will be rejected. The recorded
+  // quota belongs to the stored token, so a request made with another one
+  // (validating a new token) goes ahead regardless
+  const resource = getRateLimitResource(path);
+  const blockedUntil =
+    options.token === undefined ? getBlockedUntil(resource) : null;
+  if (blockedUntil) {
+    throw new RateLimitError(
+      `API rate limit exceeded. Requests resume at ${blockedUntil.toLocaleTimeString()}.`,
+      blockedUntil
+    );
+  }
+
+  const cached = etagCache.get(url);
+
+  const response = await fetch(url, {
+    headers: buildHeaders(token, cached?.etag, options.accept),
+    signal: options.signal,
+  });
+
+  recordRateLimit(response, resource);
+
+  // 304s are free; serve the body we already have
+  if (response.status === 304 && cached) {
+    etagCache.recordHit();
+    return { data: cached.body as T, link: cached.link };
+  }
+
+  const data = await handleResponse<T>(
+    response,
+    !options.accept || options.accept === JSON_MEDIA_TYPE ? "json" : "text"
+  );
+  const link = response.headers?.get("Link") ?? null;
+
+  const etag = response.headers?.get("ETag");
+  if (etag) {
+    etagCache.recordMiss();
+    etagCache.set(url, etag, data, link);
+  }
+
+  return { data, link };
+}
+
+async function githubRequest<T>(
+  pathOrUrl: string,
+  options: GitHubRequestOptions = {}
+): Promise<T> {
+  const { data } = await githubFetch<T>(pathOrUrl, options);
+  return data;
+}
+
+// Page fetcher for endpoints that return a bare JSON array
+function fetchListPage<T>(signal?: AbortSignal): PageFetcher<T> {
+  return async (url) => {
+    const { data, link } = await githubFetch<T[]>(url, { signal });
+    return { items: data, link };
+  };
+}
+
+function toGraphqlStats(
+  contributions: GitHubContributionsCollection,
+  totalRepositories: number,
+  recentActivity: GitHubEvent[]
+): GitHubContributionStats {
+  return {
+    totalCommits: contributions.totalCommitContributions,
+    totalPullRequests: contributions.totalPullRequestContributions,
+    totalIssues: contributions.totalIssueContributions,
+    totalRepositories,
+    recentActivity,
+    source: "graphql",
+    coverageStart: contributions.startedAt,
+    calendar: contributions.contributionCalendar,
+  };
+}
+
+const repositoryPath = (owner: string, repo: string) =>
+  `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
 export const githubApi = {
-  async searchUsers(query: string, limit: number = 5): Promise<GitHubUser[]> {
+  async searchUsers(
+    query: string,
+    limit: number = 5,
+    options: RequestOptions = {}
+  ): Promise<GitHubUser[]> {
     if (!query.trim()) {
       return [];
     }
 
-    const url = `${GITHUB_API_BASE_URL}/search/users?q=${encodeURIComponent(
+    const path = `/search/users?q=${encodeURIComponent(
       query
-    )}&per_page=${limit}`;
+    )}&per_page=${Math.min(limit, MAX_PER_PAGE)}`;
 
     try {
-      const response = await fetch(url, {
-        headers: {
-          Accept: "application/vnd.github.v3+json",
+      return await collectPages<GitHubUser>(
+        path,
+        async (url) => {
+          const { data, link } = await githubFetch<GitHubSearchUsersResponse>(
+            url,
+            { signal: options.signal }
+          );
+          return { items: data.items, link };
         },
-      });
+        { maxItems: limit, signal: options.signal }
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to search users. Please check your connection."
+      );
+    }
+  },
+
+  // One page of results along with GitHub's total_count and
+  // incomplete_results flags
+  async searchUsersPage(
+    query: string,
+    page: number = 1,
+    perPage: number = DEFAULT_SEARCH_PAGE_SIZE,
+    options: RequestOptions & Partial<UserSearchSorting> = {}
+  ): Promise<GitHubSearchUsersResponse> {
+    if (!query.trim()) {
+      return { total_count: 0, incomplete_results: false, items: [] };
+    }
+
+    const sorting = options.sort
+      ? `&sort=${options.sort}&order=${options.order ?? "desc"}`
+      : "";
+    const path = `/search/users?q=${encodeURIComponent(
+      query
+    )}&per_page=${Math.min(perPage, MAX_PER_PAGE)}${
+      page > 1 ? `&page=${page}` : ""
+    }${sorting}`;
 
-      const data = await handleResponse<GitHubSearchUsersResponse>(response);
-      return data.items;
+    try {
+      return await githubRequest<GitHubSearchUsersResponse>(path, {
+        signal: options.signal,
+      });
     } catch (error) {
-      if (error instanceof GitHubApiError) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
         throw error;
       }
       throw new GitHubApiError(
@@ -55,47 +255,190 @@ export const githubApi = {
     }
   },
 
-  async getUserRepositories(username: string): Promise<GitHubRepository[]> {
+  async searchRepositoriesPage(
+    query: string,
+    page: number = 1,
+    perPage: number = DEFAULT_SEARCH_PAGE_SIZE,
+    options: RequestOptions & Partial<RepositorySearchSorting> = {}
+  ): Promise<GitHubSearchRepositoriesResponse> {
+    if (!query.trim()) {
+      return { total_count: 0, incomplete_results: false, items: [] };
+    }
+
+    const sorting = options.sort
+      ? `&sort=${options.sort}&order=${options.order ?? "desc"}`
+      : "";
+    const path = `/search/repositories?q=${encodeURIComponent(
+      query
+    )}&per_page=${Math.min(perPage, MAX_PER_PAGE)}${
+      page > 1 ? `&page=${page}` : ""
+    }${sorting}`;
+
+    try {
+      return await githubRequest<GitHubSearchRepositoriesResponse>(path, {
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to search repositories. Please check your connection."
+      );
+    }
+  },
+
+  async getUserRepositories(
+    username: string,
+    options: ConcurrentPaginationOptions & RequestOptions = {}
+  ): Promise<GitHubRepository[]> {
     if (!username) {
       return [];
     }
 
-    const allRepositories: GitHubRepository[] = [];
-    let page = 1;
-    const perPage = 100; // GitHub's maximum per_page value
+    const path = `/users/${encodeURIComponent(
+      username
+    )}/repos?sort=updated&direction=desc&per_page=${MAX_PER_PAGE}&page=1`;
 
     try {
-      while (true) {
-        const url = `${GITHUB_API_BASE_URL}/users/${encodeURIComponent(
-          username
-        )}/repos?sort=updated&direction=desc&per_page=${perPage}&page=${page}`;
+      return await collectPagesConcurrently(
+        path,
+        fetchListPage<GitHubRepository>(options.signal),
+        options
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch repositories. Please check your connection."
+      );
+    }
+  },
 
-        const response = await fetch(url, {
-          headers: {
-            Accept: "application/vnd.github.v3+json",
-          },
-        });
+  // Most recently starred first
+  async getUserStarred(
+    username: string,
+    options: ConcurrentPaginationOptions & RequestOptions = {}
+  ): Promise<GitHubRepository[]> {
+    if (!username) {
+      return [];
+    }
 
-        const repositories = await handleResponse<GitHubRepository[]>(response);
+    const path = `/users/${encodeURIComponent(
+      username
+    )}/starred?sort=created&direction=desc&per_page=${MAX_PER_PAGE}&page=1`;
 
-        // If we get fewer repositories than per_page, we've reached the end
-        if (repositories.length === 0) {
-          break;
-        }
+    try {
+      return await collectPagesConcurrently(
+        path,
+        fetchListPage<GitHubRepository>(options.signal),
+        options
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch starred repositories. Please check your connection."
+      );
+    }
+  },
 
-        allRepositories.push(...repositories);
+  // Public gists, most recently updated first
+  async getUserGists(
+    username: string,
+    options: ConcurrentPaginationOptions & RequestOptions = {}
+  ): Promise<GitHubGist[]> {
+    if (!username) {
+      return [];
+    }
 
-        // If we got less than the full page, we're done
-        if (repositories.length < perPage) {
-          break;
-        }
+    const path = `/users/${encodeURIComponent(
+      username
+    )}/gists?per_page=${MAX_PER_PAGE}&page=1`;
 
-        page++;
+    try {
+      return await collectPagesConcurrently(
+        path,
+        fetchListPage<GitHubGist>(options.signal),
+        options
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
       }
+      throw new GitHubApiError(
+        "Failed to fetch gists. Please check your connection."
+      );
+    }
+  },
 
-      return allRepositories;
+  // Unlike the listing, includes each file's content
+  async getGist(id: string, options: RequestOptions = {}): Promise<GitHubGist> {
+    if (!id) {
+      throw new GitHubApiError("Gist ID is required");
+    }
+
+    try {
+      return await githubRequest<GitHubGist>(
+        `/gists/${encodeURIComponent(id)}`,
+        options
+      );
     } catch (error) {
-      if (error instanceof GitHubApiError) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch gist. Please check your connection."
+      );
+    }
+  },
+
+  async getOrganization(
+    org: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubOrganization> {
+    if (!org) {
+      throw new GitHubApiError("Organization is required");
+    }
+
+    const path = `/orgs/${encodeURIComponent(org)}`;
+
+    try {
+      return await githubRequest<GitHubOrganization>(path, options);
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch organization details. Please check your connection."
+      );
+    }
+  },
+
+  // type=all includes forks and archived repositories; the repository toolbar
+  // narrows them down to sources, forks or archived without refetching
+  async getOrganizationRepositories(
+    org: string,
+    options: ConcurrentPaginationOptions & RequestOptions = {}
+  ): Promise<GitHubRepository[]> {
+    if (!org) {
+      return [];
+    }
+
+    const path = `/orgs/${encodeURIComponent(
+      org
+    )}/repos?type=all&sort=updated&direction=desc&per_page=${MAX_PER_PAGE}&page=1`;
+
+    try {
+      return await collectPagesConcurrently(
+        path,
+        fetchListPage<GitHubRepository>(options.signal),
+        options
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
         throw error;
       }
       throw new GitHubApiError(
@@ -104,23 +447,104 @@ export const githubApi = {
     }
   },
 
-  async getUser(username: string): Promise<GitHubUser> {
+  async getOrganizationMembers(
+    org: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubUser[]> {
+    if (!org) {
+      return [];
+    }
+
+    const path = `/orgs/${encodeURIComponent(
+      org
+    )}/public_members?per_page=${MAX_PER_PAGE}`;
+
+    try {
+      return await collectPages(
+        path,
+        fetchListPage<GitHubUser>(options.signal),
+        { maxItems: MAX_PUBLIC_MEMBERS, signal: options.signal }
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch members. Please check your connection."
+      );
+    }
+  },
+
+  async getUserFollowers(
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubUser[]> {
     if (!username) {
-      throw new GitHubApiError("Username is required");
+      return [];
     }
 
-    const url = `${GITHUB_API_BASE_URL}/users/${encodeURIComponent(username)}`;
+    const path = `/users/${encodeURIComponent(
+      username
+    )}/followers?per_page=${MAX_PER_PAGE}`;
 
     try {
-      const response = await fetch(url, {
-        headers: {
-          Accept: "application/vnd.github.v3+json",
-        },
-      });
+      return await collectPages(
+        path,
+        fetchListPage<GitHubUser>(options.signal),
+        { maxItems: MAX_CONNECTIONS, signal: options.signal }
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch followers. Please check your connection."
+      );
+    }
+  },
 
-      return handleResponse<GitHubUser>(response);
+  async getUserFollowing(
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubUser[]> {
+    if (!username) {
+      return [];
+    }
+
+    const path = `/users/${encodeURIComponent(
+      username
+    )}/following?per_page=${MAX_PER_PAGE}`;
+
+    try {
+      return await collectPages(
+        path,
+        fetchListPage<GitHubUser>(options.signal),
+        { maxItems: MAX_CONNECTIONS, signal: options.signal }
+      );
     } catch (error) {
-      if (error instanceof GitHubApiError) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch followed users. Please check your connection."
+      );
+    }
+  },
+
+  async getUser(
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubUser> {
+    if (!username) {
+      throw new GitHubApiError("Username is required");
+    }
+
+    const path = `/users/${encodeURIComponent(username)}`;
+
+    try {
+      return await githubRequest<GitHubUser>(path, options);
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
         throw error;
       }
       throw new GitHubApiError(
@@ -129,48 +553,150 @@ export const githubApi = {
     }
   },
 
-  async getUserEvents(username: string): Promise<GitHubEvent[]> {
+  async getUserEvents(
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubEvent[]> {
     if (!username) {
       return [];
     }
 
-    const url = `${GITHUB_API_BASE_URL}/users/${encodeURIComponent(
+    const path = `/users/${encodeURIComponent(
       username
-    )}/events/public?per_page=100`;
+    )}/events/public?per_page=${MAX_PER_PAGE}`;
 
     try {
-      const response = await fetch(url, {
-        headers: {
-          Accept: "application/vnd.github.v3+json",
-        },
+      const events = await collectPages(
+        path,
+        fetchListPage<GitHubEvent>(options.signal),
+        {
+          maxItems: MAX_PUBLIC_EVENTS,
+          signal: options.signal,
+        }
+      );
+
+      // New events shift the feed while we page through it, so the same
+      // event can show up at the end of one page and the start of the next
+      const seen = new Set<string>();
+      return events.filter((event) => {
+        if (seen.has(event.id)) {
+          return false;
+        }
+        seen.add(event.id);
+        return true;
       });
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch user events. Please check your connection."
+      );
+    }
+  },
+
+  async getUserOverview(
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubUserOverview> {
+    if (!username) {
+      throw new GitHubApiError("Username is required");
+    }
+
+    const repositoryCount = 30;
+
+    if (githubGraphql.isAvailable()) {
+      try {
+        const user = await githubGraphql.getUserOverview(
+          username,
+          repositoryCount,
+          options
+        );
+        return {
+          source: "graphql",
+          user: toRestUser(user),
+          pinnedRepositories: user.pinnedItems.nodes.map(toRestRepository),
+          repositories: user.repositories.nodes.map(toRestRepository),
+          totalRepositories: user.repositories.totalCount,
+          contributions: user.contributionsCollection,
+        };
+      } catch (error) {
+        // Organizations aren't Users in GraphQL; REST handles both
+        if (!(error instanceof GitHubApiError && error.status === 404)) {
+          throw error;
+        }
+      }
+    }
+
+    const path = `/users/${encodeURIComponent(
+      username
+    )}/repos?sort=updated&direction=desc&per_page=${repositoryCount}`;
 
-      return handleResponse<GitHubEvent[]>(response);
+    try {
+      const [user, repositories] = await Promise.all([
+        this.getUser(username, options),
+        githubRequest<GitHubRepository[]>(path, options),
+      ]);
+      return {
+        source: "rest",
+        user,
+        pinnedRepositories: [],
+        repositories,
+        totalRepositories: user.public_repos ?? repositories.length,
+        contributions: null,
+      };
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch user overview. Please check your connection."
+      );
+    }
+  },
+
+  async getAuthenticatedUser(
+    token: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubUser> {
+    if (!token.trim()) {
+      throw new GitHubApiError("Token is required");
+    }
+
+    try {
+      return await githubRequest<GitHubUser>("/user", {
+        ...options,
+        token: token.trim(),
+      });
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       if (error instanceof GitHubApiError) {
+        if (error.status === 401) {
+          throw new GitHubApiError(
+            "Invalid token. Please check the token and try again.",
+            401
+          );
+        }
         throw error;
       }
       throw new GitHubApiError(
-        "Failed to fetch user events. Please check your connection."
+        "Failed to validate token. Please check your connection."
       );
     }
   },
 
   async getUserContributionStats(
-    username: string
+    username: string,
+    { overview, ...options }: ContributionStatsOptions = {}
   ): Promise<GitHubContributionStats> {
     if (!username) {
       throw new GitHubApiError("Username is required");
     }
 
     try {
-      const events = await this.getUserEvents(username);
-      const repositories = await this.getUserRepositories(username);
-
-      // Count different types of contributions from events
-      let totalCommits = 0;
-      let totalPullRequests = 0;
-      let totalIssues = 0;
+      const events = await this.getUserEvents(username, options);
 
       // Get events from the last year
       const oneYearAgo = new Date();
@@ -180,6 +706,39 @@ export const githubApi = {
         (event) => new Date(event.created_at) >= oneYearAgo
       );
 
+      // The contributions collection covers the full year, so prefer it when
+      // a token is available
+      if (overview?.contributions) {
+        return toGraphqlStats(
+          overview.contributions,
+          overview.totalRepositories,
+          recentEvents
+        );
+      }
+      if (githubGraphql.isAvailable()) {
+        try {
+          const { repositories, contributionsCollection } =
+            await githubGraphql.getContributions(username, options);
+          return toGraphqlStats(
+            contributionsCollection,
+            repositories.totalCount,
+            recentEvents
+          );
+        } catch (error) {
+          // Organizations aren't Users in GraphQL; fall back to events
+          if (!(error instanceof GitHubApiError && error.status === 404)) {
+            throw error;
+          }
+        }
+      }
+
+      const repositories = await this.getUserRepositories(username, options);
+
+      // Count different types of contributions from events
+      let totalCommits = 0;
+      let totalPullRequests = 0;
+      let totalIssues = 0;
+
       recentEvents.forEach((event) => {
         switch (event.type) {
           case "PushEvent":
@@ -200,15 +759,28 @@ export const githubApi = {
         }
       });
 
+      // The public events feed stops at 300 events / 90 days, so the counts
+      // only cover the window back to the oldest event we actually saw
+      const coverageStart = recentEvents.reduce<string | null>(
+        (oldest, event) =>
+          !oldest || new Date(event.created_at) < new Date(oldest)
+            ? event.created_at
+            : oldest,
+        null
+      );
+
       return {
         totalCommits,
         totalPullRequests,
         totalIssues,
         totalRepositories: repositories.length,
-        recentActivity: recentEvents.slice(0, 10), // Last 10 activities
+        recentActivity: recentEvents,
+        source: "events",
+        coverageStart,
+        calendar: null,
       };
     } catch (error) {
-      if (error instanceof GitHubApiError) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
         throw error;
       }
       throw new GitHubApiError(
@@ -216,6 +788,123 @@ export const githubApi = {
       );
     }
   },
+
+  async getRepository(
+    owner: string,
+    repo: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubRepositoryDetails> {
+    if (!owner || !repo) {
+      throw new GitHubApiError("Repository owner and name are required");
+    }
+
+    try {
+      return await githubRequest<GitHubRepositoryDetails>(
+        repositoryPath(owner, repo),
+        options
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch repository details. Please check your connection."
+      );
+    }
+  },
+
+  // Resolves to null when the repository has no README
+  async getRepositoryReadme(
+    owner: string,
+    repo: string,
+    options: RequestOptions = {}
+  ): Promise<string | null> {
+    try {
+      return await githubRequest<string>(
+        `${repositoryPath(owner, repo)}/readme`,
+        { ...options, accept: HTML_MEDIA_TYPE }
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return null;
+      }
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch the README. Please check your connection."
+      );
+    }
+  },
+
+  async getRepositoryLanguages(
+    owner: string,
+    repo: string,
+    options: RequestOptions = {}
+  ): Promise<GitHubRepositoryLanguages> {
+    try {
+      return await githubRequest<GitHubRepositoryLanguages>(
+        `${repositoryPath(owner, repo)}/languages`,
+        options
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch repository languages. Please check your connection."
+      );
+    }
+  },
+
+  async getRepositoryContributors(
+    owner: string,
+    repo: string,
+    limit: number = 10,
+    options: RequestOptions = {}
+  ): Promise<GitHubContributor[]> {
+    const path = `${repositoryPath(
+      owner,
+      repo
+    )}/contributors?per_page=${Math.min(limit, MAX_PER_PAGE)}`;
+
+    try {
+      // Empty repositories answer 204 No Content
+      return (
+        (await githubRequest<GitHubContributor[] | null>(path, options)) ?? []
+      );
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch contributors. Please check your connection."
+      );
+    }
+  },
+
+  async getRepositoryReleases(
+    owner: string,
+    repo: string,
+    limit: number = 5,
+    options: RequestOptions = {}
+  ): Promise<GitHubRelease[]> {
+    const path = `${repositoryPath(owner, repo)}/releases?per_page=${Math.min(
+      limit,
+      MAX_PER_PAGE
+    )}`;
+
+    try {
+      return await githubRequest<GitHubRelease[]>(path, options);
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to fetch releases. Please check your connection."
+      );
+    }
+  },
 };
 
-export { GitHubApiError };
+export { GitHubApiError, RateLimitError };
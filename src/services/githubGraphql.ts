@@ -0,0 +1,285 @@
+import {
+  GitHubContributionsCollection,
+  GitHubGraphQLRepository,
+  GitHubGraphQLResponse,
+  GitHubGraphQLUser,
+  GitHubRepository,
+  GitHubUser,
+} from "../types/github";
+import { useAuthStore } from "../store/useAuthStore";
+import { useHostStore } from "../store/useHostStore";
+import { getGraphqlUrl } from "./hostConfig";
+import { getBlockedUntil, recordRateLimit } from "./rateLimit";
+import { GitHubApiError, RateLimitError, handleResponse } from "./errors";
+import { isAbortError } from "./abort";
+
+export interface GraphqlRequestOptions {
+  signal?: AbortSignal;
+}
+
+const REPOSITORY_FIELDS = `
+  fragment RepositoryFields on Repository {
+    databaseId
+    name
+    nameWithOwner
+    description
+    url
+    stargazerCount
+    forkCount
+    isFork
+    isPrivate
+    isArchived
+    updatedAt
+    primaryLanguage {
+      name
+      color
+    }
+    repositoryTopics(first: 10) {
+      nodes {
+        topic {
+          name
+        }
+      }
+    }
+  }
+`;
+
+const USER_OVERVIEW_QUERY = `
+  query UserOverview($login: String!, $repositoryCount: Int!) {
+    user(login: $login) {
+      databaseId
+      login
+      name
+      avatarUrl
+      url
+      bio
+      createdAt
+      updatedAt
+      followers {
+        totalCount
+      }
+      following {
+        totalCount
+      }
+      pinnedItems(first: 6, types: REPOSITORY) {
+        nodes {
+          ...RepositoryFields
+        }
+      }
+      repositories(
+        first: $repositoryCount
+        ownerAffiliations: OWNER
+        privacy: PUBLIC
+        orderBy: { field: UPDATED_AT, direction: DESC }
+      ) {
+        totalCount
+        nodes {
+          ...RepositoryFields
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+      contributionsCollection {
+        startedAt
+        endedAt
+        totalCommitContributions
+        totalPullRequestContributions
+        totalIssueContributions
+        totalPullRequestReviewContributions
+        restrictedContributionsCount
+        contributionCalendar {
+          totalContributions
+          weeks {
+            contributionDays {
+              date
+              contributionCount
+              color
+              weekday
+            }
+          }
+        }
+      }
+    }
+  }
+  ${REPOSITORY_FIELDS}
+`;
+
+const CONTRIBUTIONS_QUERY = `
+  query UserContributions($login: String!) {
+    user(login: $login) {
+      repositories(ownerAffiliations: OWNER, privacy: PUBLIC) {
+        totalCount
+      }
+      contributionsCollection {
+        startedAt
+        endedAt
+        totalCommitContributions
+        totalPullRequestContributions
+        totalIssueContributions
+        totalPullRequestReviewContributions
+        restrictedContributionsCount
+        contributionCalendar {
+          totalContributions
+          weeks {
+            contributionDays {
+              date
+              contributionCount
+              color
+              weekday
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export interface GitHubGraphQLContributions {
+  repositories: { totalCount: number };
+  contributionsCollection: GitHubContributionsCollection;
+}
+
+// Maps a GraphQL repository onto the REST shape the UI already renders
+export function toRestRepository(
+  repository: GitHubGraphQLRepository
+): GitHubRepository {
+  return {
+    id: repository.databaseId,
+    name: repository.name,
+    full_name: repository.nameWithOwner,
+    description: repository.description,
+    html_url: repository.url,
+    stargazers_count: repository.stargazerCount,
+    watchers_count: repository.stargazerCount,
+    forks_count: repository.forkCount,
+    language: repository.primaryLanguage?.name ?? null,
+    updated_at: repository.updatedAt,
+    topics: repository.repositoryTopics.nodes.map(({ topic }) => topic.name),
+    private: repository.isPrivate,
+    fork: repository.isFork,
+    archived: repository.isArchived,
+  };
+}
+
+export function toRestUser(user: GitHubGraphQLUser): GitHubUser {
+  return {
+    id: user.databaseId,
+    login: user.login,
+    avatar_url: user.avatarUrl,
+    html_url: user.url,
+    type: "User",
+    name: user.name ?? undefined,
+    bio: user.bio ?? undefined,
+    public_repos: user.repositories.totalCount,
+    followers: user.followers.totalCount,
+    following: user.following.totalCount,
+    created_at: user.createdAt,
+    updated_at: user.updatedAt,
+  };
+}
+
+export const githubGraphql = {
+  // GraphQL rejects anonymous requests, so callers fall back to REST without a token
+  isAvailable(): boolean {
+    return !!useAuthStore.getState().token;
+  },
+
+  async query<T>(
+    query: string,
+    variables: Record<string, unknown>,
+    options: GraphqlRequestOptions = {}
+  ): Promise<T> {
+    const token = useAuthStore.getState().token;
+    if (!token) {
+      throw new GitHubApiError(
+        "A personal access token is required for the GraphQL API",
+        401
+      );
+    }
+
+    const blockedUntil = getBlockedUntil("graphql");
+    if (blockedUntil) {
+      throw new RateLimitError(
+        `GraphQL rate limit exceeded. Requests resume at ${blockedUntil.toLocaleTimeString()}.`,
+        blockedUntil
+      );
+    }
+
+    try {
+      const response = await fetch(getGraphqlUrl(useHostStore.getState()), {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ query, variables }),
+        signal: options.signal,
+      });
+
+      recordRateLimit(response, "graphql");
+
+      const result = await handleResponse<GitHubGraphQLResponse<T>>(response);
+
+      // GraphQL reports most failures with a 200 and an errors array
+      if (result.errors && result.errors.length > 0) {
+        const [firstError] = result.errors;
+        if (firstError.type === "RATE_LIMITED") {
+          throw new RateLimitError(firstError.message, null);
+        }
+        throw new GitHubApiError(
+          firstError.message,
+          firstError.type === "NOT_FOUND" ? 404 : undefined
+        );
+      }
+      if (!result.data) {
+        throw new GitHubApiError("GraphQL response contained no data");
+      }
+
+      return result.data;
+    } catch (error) {
+      if (error instanceof GitHubApiError || isAbortError(error)) {
+        throw error;
+      }
+      throw new GitHubApiError(
+        "Failed to query the GraphQL API. Please check your connection."
+      );
+    }
+  },
+
+  async getUserOverview(
+    login: string,
+    repositoryCount: number = 30,
+    options: GraphqlRequestOptions = {}
+  ): Promise<GitHubGraphQLUser> {
+    const data = await this.query<{ user: GitHubGraphQLUser | null }>(
+      USER_OVERVIEW_QUERY,
+      { login, repositoryCount },
+      options
+    );
+
+    if (!data.user) {
+      throw new GitHubApiError(`Could not resolve to a User "${login}"`, 404);
+    }
+    return data.user;
+  },
+
+  // Defaults to the last year, which is what contributionsCollection covers
+  // when no from/to range is given
+  async getContributions(
+    login: string,
+    options: GraphqlRequestOptions = {}
+  ): Promise<GitHubGraphQLContributions> {
+    const data = await this.query<{ user: GitHubGraphQLContributions | null }>(
+      CONTRIBUTIONS_QUERY,
+      { login },
+      options
+    );
+
+    if (!data.user) {
+      throw new GitHubApiError(`Could not resolve to a User "${login}"`, 404);
+    }
+    return data.user;
+  },
+};
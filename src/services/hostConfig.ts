@@ -0,0 +1,116 @@
+export interface GitHubHostConfig {
+  apiBaseUrl: string;
+  webBaseUrl: string;
+}
+
+export const GITHUB_DOT_COM: GitHubHostConfig = {
+  apiBaseUrl: "https://api.github.com",
+  webBaseUrl: "https://github.com",
+};
+
+// GitHub Enterprise Server serves the REST API under /api/v3 on the web host
+const ENTERPRISE_API_PATH = "/api/v3";
+
+const stripTrailingSlashes = (value: string) => value.replace(/\/+$/, "");
+
+// Turns whatever the user typed ("ghe.example.com", a web URL or an API URL)
+// into matching API and web base URLs
+export function resolveHostConfig(input: string): GitHubHostConfig {
+  const trimmed = stripTrailingSlashes(input.trim());
+  if (!trimmed) {
+    throw new Error("Host is required");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(
+      /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+    );
+  } catch {
+    throw new Error("Enter a valid host, e.g. github.example.com");
+  }
+
+  if (url.hostname === "github.com" || url.hostname === "api.github.com") {
+    return GITHUB_DOT_COM;
+  }
+
+  const path = stripTrailingSlashes(url.pathname);
+  if (path.endsWith(ENTERPRISE_API_PATH)) {
+    return {
+      apiBaseUrl: `${url.origin}${path}`,
+      webBaseUrl: `${url.origin}${path.slice(0, -ENTERPRISE_API_PATH.length)}`,
+    };
+  }
+
+  return {
+    apiBaseUrl: `${url.origin}${path}${ENTERPRISE_API_PATH}`,
+    webBaseUrl: `${url.origin}${path}`,
+  };
+}
+
+// Build-time configuration, e.g. REACT_APP_GITHUB_API_URL=https://ghe.example.com/api/v3
+export function getBuildTimeHostConfig(
+  env: Record<string, string | undefined> = process.env
+): GitHubHostConfig {
+  const apiUrl = env.REACT_APP_GITHUB_API_URL;
+  const webUrl = env.REACT_APP_GITHUB_WEB_URL;
+
+  if (!apiUrl && !webUrl) {
+    return GITHUB_DOT_COM;
+  }
+
+  const resolved = resolveHostConfig((apiUrl || webUrl) as string);
+  return {
+    apiBaseUrl: apiUrl ? stripTrailingSlashes(apiUrl) : resolved.apiBaseUrl,
+    webBaseUrl: webUrl ? stripTrailingSlashes(webUrl) : resolved.webBaseUrl,
+  };
+}
+
+export function getHostLabel(config: GitHubHostConfig): string {
+  try {
+    return new URL(config.webBaseUrl).host;
+  } catch {
+    return config.webBaseUrl;
+  }
+}
+
+// Resolves html_url / avatar_url values against the web host so host-relative
+// paths still point at the right server. Absolute URLs pass through.
+export function resolveWebUrl(url: string, config: GitHubHostConfig): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(url)) {
+    return url;
+  }
+  try {
+    return new URL(url, `${config.webBaseUrl}/`).toString();
+  } catch {
+    return url;
+  }
+}
+
+// Maps an API resource URL (as found in event payloads) to its web page,
+// e.g. https://ghe.example.com/api/v3/repos/a/b -> https://ghe.example.com/a/b
+export function apiUrlToWebUrl(
+  apiUrl: string,
+  config: GitHubHostConfig
+): string {
+  if (!apiUrl.startsWith(config.apiBaseUrl)) {
+    return apiUrl;
+  }
+  const path = apiUrl
+    .slice(config.apiBaseUrl.length)
+    .replace(/^\/repos\//, "/")
+    .replace(/^\/users\//, "/");
+  return `${config.webBaseUrl}${path}`;
+}
+
+// github.com serves GraphQL at api.github.com/graphql, Enterprise Server at
+// /api/graphql next to /api/v3
+export function getGraphqlUrl(config: GitHubHostConfig): string {
+  if (config.apiBaseUrl.endsWith(ENTERPRISE_API_PATH)) {
+    return `${config.apiBaseUrl.slice(
+      0,
+      -ENTERPRISE_API_PATH.length
+    )}/api/graphql`;
+  }
+  return `${config.apiBaseUrl}/graphql`;
+}
@@ -0,0 +1,173 @@
+import { GitHubRepository, GitHubRepositoryLanguages } from "../types/github";
+import { isAbortError, throwIfAborted } from "./abort";
+
+// A few of GitHub's linguist colors; anything else gets a stable generated hue
+const LANGUAGE_COLORS: Record<string, string> = {
+  C: "#555555",
+  "C#": "#178600",
+  "C++": "#f34b7d",
+  CSS: "#563d7c",
+  Dart: "#00b4ab",
+  Elixir: "#6e4a7e",
+  Go: "#00add8",
+  HTML: "#e34c26",
+  Java: "#b07219",
+  JavaScript: "#f1e05a",
+  Kotlin: "#a97bff",
+  Lua: "#000080",
+  PHP: "#4f5d95",
+  Python: "#3572a5",
+  Ruby: "#701516",
+  Rust: "#dea584",
+  Scala: "#c22d40",
+  Shell: "#89e051",
+  Swift: "#f05138",
+  TypeScript: "#3178c6",
+  Vue: "#41b883",
+};
+
+export interface LanguageShare {
+  name: string;
+  value: number;
+  percent: number;
+  color: string;
+}
+
+export function getLanguageColor(name: string): string {
+  if (LANGUAGE_COLORS[name]) {
+    return LANGUAGE_COLORS[name];
+  }
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) % 360;
+  }
+  return `hsl(${hash}, 55%, 55%)`;
+}
+
+// Turns language -> amount (bytes or repository counts) into shares sorted
+// largest first
+export function toLanguageShares(
+  totals: Record<string, number>
+): LanguageShare[] {
+  const sum = Object.values(totals).reduce((total, value) => total + value, 0);
+  if (sum === 0) {
+    return [];
+  }
+  return Object.entries(totals)
+    .filter(([, value]) => value > 0)
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .map(([name, value]) => ({
+      name,
+      value,
+      percent: (value / sum) * 100,
+      color: getLanguageColor(name),
+    }));
+}
+
+// Language -> number of repositories with it as their primary language
+export function countPrimaryLanguages(
+  repositories: GitHubRepository[]
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  repositories.forEach(({ language }) => {
+    if (language) {
+      counts[language] = (counts[language] ?? 0) + 1;
+    }
+  });
+  return counts;
+}
+
+// Adds up the per-repository byte counts from /repos/{owner}/{repo}/languages
+export function sumLanguageBytes(
+  breakdowns: GitHubRepositoryLanguages[]
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  breakdowns.forEach((breakdown) => {
+    Object.entries(breakdown).forEach(([name, bytes]) => {
+      totals[name] = (totals[name] ?? 0) + bytes;
+    });
+  });
+  return totals;
+}
+
+export interface LanguageSample {
+  // In repository order, for the repositories that loaded
+  languages: GitHubRepositoryLanguages[];
+  failed: number;
+  // Not requested, to leave rate limit for the rest of the app
+  skipped: number;
+}
+
+export interface LanguageSampleOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (settled: number) => void;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+// Fetches each repository's breakdown through a small pool of workers, like
+// collectPagesConcurrently. fetchLanguages resolves to null for repositories
+// it decides not to request; other failures are counted rather than thrown.
+export async function collectLanguageSample(
+  repositories: GitHubRepository[],
+  fetchLanguages: (
+    repository: GitHubRepository
+  ) => Promise<GitHubRepositoryLanguages | null>,
+  options: LanguageSampleOptions = {}
+): Promise<LanguageSample> {
+  const { concurrency = DEFAULT_CONCURRENCY, signal, onProgress } = options;
+  const results: (GitHubRepositoryLanguages | null)[] = [];
+  let failed = 0;
+  let skipped = 0;
+  let settled = 0;
+
+  let next = 0;
+  const worker = async () => {
+    while (next < repositories.length) {
+      throwIfAborted(signal);
+      const index = next++;
+      try {
+        const languages = await fetchLanguages(repositories[index]);
+        results[index] = languages;
+        if (!languages) {
+          skipped++;
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        failed++;
+      }
+      settled++;
+      onProgress?.(settled);
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, repositories.length)) },
+      worker
+    )
+  );
+
+  return {
+    languages: results.filter(
+      (languages): languages is GitHubRepositoryLanguages => !!languages
+    ),
+    failed,
+    skipped,
+  };
+}
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB"];
+
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unit]}`;
+}
@@ -0,0 +1,201 @@
+import { throwIfAborted } from "./abort";
+
+export interface PaginationProgress {
+  page: number;
+  totalPages: number | null; // Unknown until a response carries rel="last"
+  itemsLoaded: number;
+}
+
+export interface PaginationOptions {
+  maxItems?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: PaginationProgress) => void;
+}
+
+export interface ConcurrentPaginationOptions extends PaginationOptions {
+  concurrency?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  totalPages: number | null;
+}
+
+export interface FetchedPage<T> {
+  items: T[];
+  link: string | null;
+}
+
+export type PageFetcher<T> = (url: string) => Promise<FetchedPage<T>>;
+
+// Parses an RFC 5988 Link header into a map of rel -> URL, e.g.
+// <https://api.github.com/user/1/repos?page=2>; rel="next"
+export function parseLinkHeader(
+  header: string | null | undefined
+): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+
+  header.split(",").forEach((part) => {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    if (match) {
+      match[2].split(/\s+/).forEach((rel) => {
+        links[rel] = match[1];
+      });
+    }
+  });
+
+  return links;
+}
+
+export function getPageNumber(url: string): number | null {
+  const match = url.match(/[?&]page=(\d+)/);
+  return match ? Number(match[1]) : null;
+}
+
+export function withPageNumber(url: string, page: number): string {
+  return url.replace(/([?&]page=)\d+/, `$1${page}`);
+}
+
+// Follows rel="next" links until they run out, the item cap is reached or a
+// page comes back empty, yielding each page as soon as it arrives
+export async function* paginate<T>(
+  firstUrl: string,
+  fetchPage: PageFetcher<T>,
+  options: PaginationOptions = {}
+): AsyncGenerator<Page<T>> {
+  const { maxItems, onProgress, signal } = options;
+  let url: string | undefined = firstUrl;
+  let page = getPageNumber(firstUrl) ?? 1;
+  let totalPages: number | null = null;
+  let itemsLoaded = 0;
+
+  while (url) {
+    throwIfAborted(signal);
+    const { items, link } = await fetchPage(url);
+    const links = parseLinkHeader(link);
+
+    if (links.last) {
+      totalPages = getPageNumber(links.last);
+    } else if (!links.next) {
+      totalPages = page;
+    }
+
+    const remaining =
+      maxItems !== undefined ? maxItems - itemsLoaded : items.length;
+    const pageItems = items.slice(0, Math.max(remaining, 0));
+    itemsLoaded += pageItems.length;
+
+    onProgress?.({ page, totalPages, itemsLoaded });
+
+    if (pageItems.length > 0) {
+      yield { items: pageItems, page, totalPages };
+    }
+
+    if (
+      items.length === 0 ||
+      (maxItems !== undefined && itemsLoaded >= maxItems)
+    ) {
+      break;
+    }
+
+    url = links.next;
+    page = (url && getPageNumber(url)) || page + 1;
+  }
+}
+
+export async function collectPages<T>(
+  firstUrl: string,
+  fetchPage: PageFetcher<T>,
+  options: PaginationOptions = {}
+): Promise<T[]> {
+  const allItems: T[] = [];
+  for await (const { items } of paginate(firstUrl, fetchPage, options)) {
+    allItems.push(...items);
+  }
+  return allItems;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+// Like collectPages, but once the first response reveals the last page the
+// remaining pages are fetched in parallel and merged back in page order.
+// Falls back to following rel="next" when the API doesn't send rel="last".
+export async function collectPagesConcurrently<T>(
+  firstUrl: string,
+  fetchPage: PageFetcher<T>,
+  options: ConcurrentPaginationOptions = {}
+): Promise<T[]> {
+  const {
+    maxItems,
+    onProgress,
+    signal,
+    concurrency = DEFAULT_CONCURRENCY,
+  } = options;
+
+  throwIfAborted(signal);
+  const first = await fetchPage(firstUrl);
+  const links = parseLinkHeader(first.link);
+  const firstPage = getPageNumber(firstUrl) ?? 1;
+  const lastPage = links.last ? getPageNumber(links.last) : null;
+
+  if (!links.next || !links.last || lastPage === null) {
+    // Replay the page we already have instead of requesting it again
+    const replayFirst: PageFetcher<T> = (url) =>
+      url === firstUrl ? Promise.resolve(first) : fetchPage(url);
+    return collectPages(firstUrl, replayFirst, {
+      maxItems,
+      onProgress,
+      signal,
+    });
+  }
+
+  // Don't request pages the item cap would throw away
+  let finalPage = lastPage;
+  if (maxItems !== undefined && first.items.length > 0) {
+    const pagesNeeded = Math.ceil(maxItems / first.items.length);
+    finalPage = Math.min(lastPage, firstPage + pagesNeeded - 1);
+  }
+
+  const pages: T[][] = [first.items];
+  let itemsLoaded = first.items.length;
+  let pagesLoaded = 1;
+  const totalPages = finalPage - firstPage + 1;
+  onProgress?.({ page: pagesLoaded, totalPages, itemsLoaded });
+
+  let nextPage = firstPage + 1;
+  let failed = false;
+  const worker = async () => {
+    // Stop picking up pages once the caller aborts or another worker fails
+    while (nextPage <= finalPage && !failed) {
+      throwIfAborted(signal);
+      const page = nextPage++;
+      try {
+        const { items } = await fetchPage(withPageNumber(links.last, page));
+        pages[page - firstPage] = items;
+        itemsLoaded += items.length;
+        pagesLoaded++;
+        onProgress?.({ page: pagesLoaded, totalPages, itemsLoaded });
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, totalPages - 1)) },
+      worker
+    )
+  );
+
+  const allItems = pages.reduce<T[]>((merged, items) => {
+    merged.push(...items);
+    return merged;
+  }, []);
+  return maxItems !== undefined ? allItems.slice(0, maxItems) : allItems;
+}
@@ -0,0 +1,111 @@
+import { GitHubRateLimit } from "../types/github";
+import { useRateLimitStore } from "../store/useRateLimitStore";
+
+// GitHub meters search separately (30/min authenticated) from everything else
+export function getRateLimitResource(path: string): string {
+  return path.startsWith("/search/") ? "search" : "core";
+}
+
+function readNumberHeader(response: Response, name: string): number | null {
+  // Test doubles and some proxies omit headers entirely
+  const value = response.headers?.get(name);
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function parseRateLimitHeaders(
+  response: Response,
+  fallbackResource: string
+): GitHubRateLimit | null {
+  const limit = readNumberHeader(response, "X-RateLimit-Limit");
+  const remaining = readNumberHeader(response, "X-RateLimit-Remaining");
+  const reset = readNumberHeader(response, "X-RateLimit-Reset");
+
+  if (limit === null || remaining === null || reset === null) {
+    return null;
+  }
+
+  return {
+    resource: response.headers.get("X-RateLimit-Resource") || fallbackResource,
+    limit,
+    remaining,
+    used: readNumberHeader(response, "X-RateLimit-Used") ?? limit - remaining,
+    reset,
+  };
+}
+
+// Returns when the client may retry (epoch ms), or null if not rate limited
+export function getRateLimitResetTime(
+  response: Response,
+  now: number = Date.now()
+): number | null {
+  const retryAfter = readNumberHeader(response, "Retry-After");
+  if (retryAfter !== null) {
+    return now + retryAfter * 1000;
+  }
+
+  const remaining = readNumberHeader(response, "X-RateLimit-Remaining");
+  const reset = readNumberHeader(response, "X-RateLimit-Reset");
+  if (remaining === 0 && reset !== null) {
+    return reset * 1000;
+  }
+
+  return null;
+}
+
+export function recordRateLimit(response: Response, resource: string) {
+  const quota = parseRateLimitHeaders(response, resource);
+  if (quota) {
+    useRateLimitStore.getState().updateQuota(quota);
+  }
+
+  if (response.status === 403 || response.status === 429) {
+    const resetTime = getRateLimitResetTime(response);
+    if (resetTime !== null) {
+      useRateLimitStore
+        .getState()
+        .blockResource(quota?.resource ?? resource, resetTime);
+    }
+  }
+}
+
+// Returns the time a request to this resource would start succeeding again,
+// or null when there is no known reason for it to fail
+export function getBlockedUntil(
+  resource: string,
+  now: number = Date.now()
+): Date | null {
+  const { quotas, blockedUntil } = useRateLimitStore.getState();
+
+  const retryAt = blockedUntil[resource];
+  if (retryAt !== undefined && retryAt > now) {
+    return new Date(retryAt);
+  }
+
+  const quota = quotas[resource];
+  if (quota && quota.remaining === 0 && quota.reset * 1000 > now) {
+    return new Date(quota.reset * 1000);
+  }
+
+  return null;
+}
+
+// How many more requests can go out while leaving `reserve` of the known
+// quota for everything else; unlimited until a response has reported it
+export function getSpareRequests(
+  resource: string,
+  reserve: number,
+  now: number = Date.now()
+): number {
+  if (getBlockedUntil(resource, now)) {
+    return 0;
+  }
+  const quota = useRateLimitStore.getState().quotas[resource];
+  if (!quota || quota.reset * 1000 <= now) {
+    return Infinity;
+  }
+  return Math.max(0, quota.remaining - reserve);
+}
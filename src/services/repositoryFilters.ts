@@ -0,0 +1,163 @@
+import { GitHubRepository } from "../types/github";
+
+export type RepositorySort = "updated" | "stars" | "forks" | "name";
+export type RepositoryTypeFilter = "all" | "sources" | "forks";
+export type ArchivedFilter = "all" | "exclude" | "only";
+
+export interface RepositoryFilters {
+  query: string;
+  sort: RepositorySort;
+  language: string | null;
+  type: RepositoryTypeFilter;
+  archived: ArchivedFilter;
+  topic: string | null;
+}
+
+export const DEFAULT_REPOSITORY_FILTERS: RepositoryFilters = {
+  query: "",
+  sort: "updated",
+  language: null,
+  type: "all",
+  archived: "all",
+  topic: null,
+};
+
+const SORTS: RepositorySort[] = ["updated", "stars", "forks", "name"];
+const TYPES: RepositoryTypeFilter[] = ["all", "sources", "forks"];
+const ARCHIVED: ArchivedFilter[] = ["all", "exclude", "only"];
+
+// Query string keys, kept short so shared links stay readable
+const PARAMS = {
+  query: "q",
+  sort: "sort",
+  language: "lang",
+  type: "type",
+  archived: "archived",
+  topic: "topic",
+} as const;
+
+function pick<T extends string>(
+  value: string | null,
+  allowed: T[],
+  fallback: T
+) {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+export function parseRepositoryFilters(
+  params: URLSearchParams
+): RepositoryFilters {
+  return {
+    query: params.get(PARAMS.query) ?? "",
+    sort: pick(params.get(PARAMS.sort), SORTS, "updated"),
+    language: params.get(PARAMS.language) || null,
+    type: pick(params.get(PARAMS.type), TYPES, "all"),
+    archived: pick(params.get(PARAMS.archived), ARCHIVED, "all"),
+    topic: params.get(PARAMS.topic) || null,
+  };
+}
+
+// Writes the filters into `params`, leaving out defaults and unrelated keys
+export function serializeRepositoryFilters(
+  filters: RepositoryFilters,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  (Object.keys(PARAMS) as (keyof RepositoryFilters)[]).forEach((key) => {
+    const value = filters[key];
+    if (value && value !== DEFAULT_REPOSITORY_FILTERS[key]) {
+      next.set(PARAMS[key], value);
+    } else {
+      next.delete(PARAMS[key]);
+    }
+  });
+  return next;
+}
+
+// Sorting reorders the list but never hides anything
+export function hasActiveFilters(filters: RepositoryFilters): boolean {
+  return (
+    serializeRepositoryFilters({
+      ...filters,
+      sort: DEFAULT_REPOSITORY_FILTERS.sort,
+    }).toString() !== ""
+  );
+}
+
+function matchesQuery(repository: GitHubRepository, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return true;
+  }
+  return [
+    repository.name,
+    repository.description ?? "",
+    ...(repository.topics ?? []),
+  ].some((text) => text.toLowerCase().includes(needle));
+}
+
+const COMPARATORS: Record<
+  RepositorySort,
+  (a: GitHubRepository, b: GitHubRepository) => number
+> = {
+  updated: (a, b) => Date.parse(b.updated_at) - Date.parse(a.updated_at),
+  stars: (a, b) => b.stargazers_count - a.stargazers_count,
+  forks: (a, b) => b.forks_count - a.forks_count,
+  name: (a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+};
+
+export function applyRepositoryFilters(
+  repositories: GitHubRepository[],
+  filters: RepositoryFilters
+): GitHubRepository[] {
+  return repositories
+    .filter(
+      (repository) =>
+        matchesQuery(repository, filters.query) &&
+        (!filters.language || repository.language === filters.language) &&
+        (filters.type === "all" ||
+          repository.fork === (filters.type === "forks")) &&
+        (filters.archived === "all" ||
+          !!repository.archived === (filters.archived === "only")) &&
+        (!filters.topic || (repository.topics ?? []).includes(filters.topic))
+    )
+    .sort(COMPARATORS[filters.sort]);
+}
+
+export interface FilterOption {
+  value: string;
+  count: number;
+}
+
+// Languages and topics present in the list, most common first. The current
+// selection stays listed (with a zero count) so a filter from a shared link
+// remains visible even when nothing matches it.
+export function getFilterOptions(
+  repositories: GitHubRepository[],
+  filters: RepositoryFilters = DEFAULT_REPOSITORY_FILTERS
+): { languages: FilterOption[]; topics: FilterOption[] } {
+  const rank = (values: string[], selected: string | null) => {
+    const counts = new Map<string, number>();
+    values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+    if (selected && !counts.has(selected)) {
+      counts.set(selected, 0);
+    }
+    return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+    );
+  };
+
+  return {
+    languages: rank(
+      repositories.flatMap((repository) =>
+        repository.language ? [repository.language] : []
+      ),
+      filters.language
+    ),
+    topics: rank(
+      repositories.flatMap((repository) => repository.topics ?? []),
+      filters.topic
+    ),
+  };
+}
@@ -0,0 +1,143 @@
+import {
+  BEST_MATCH,
+  dateRangeError,
+  isDateRange,
+  isNumberRange,
+  numberRangeError,
+  parseSearchSorting,
+  quoteQualifierValue,
+  SearchSorting,
+  tokenizeSearchQuery,
+  validateQueryShape,
+} from "./searchQuery";
+
+// Builds, parses and validates the q= string of GitHub's repository search,
+// e.g. `http client language:Go topic:cli stars:>500 pushed:>2024-01-01`
+
+export interface RepositorySearchQualifiers {
+  // Search terms and any qualifiers the builder doesn't edit
+  text: string;
+  language: string;
+  topic: string;
+  // Number or range: ">500", "10..100"
+  stars: string;
+  // Date or range: ">2024-01-01"
+  pushed: string;
+}
+
+export const EMPTY_REPOSITORY_SEARCH_QUALIFIERS: RepositorySearchQualifiers = {
+  text: "",
+  language: "",
+  topic: "",
+  stars: "",
+  pushed: "",
+};
+
+// The order qualifiers are written back in
+const QUALIFIERS = ["language", "topic", "stars", "pushed"] as const;
+type QualifierKey = (typeof QUALIFIERS)[number];
+
+// Other repository qualifiers GitHub understands; passed through as typed
+const OTHER_QUALIFIERS = [
+  "user",
+  "org",
+  "repo",
+  "in",
+  "size",
+  "forks",
+  "followers",
+  "license",
+  "is",
+  "archived",
+  "fork",
+  "created",
+  "mirror",
+  "template",
+  "topics",
+  "good-first-issues",
+  "help-wanted-issues",
+];
+
+const isQualifierKey = (key: string): key is QualifierKey =>
+  (QUALIFIERS as readonly string[]).includes(key);
+
+export function parseRepositorySearchQuery(
+  query: string
+): RepositorySearchQualifiers {
+  const qualifiers = { ...EMPTY_REPOSITORY_SEARCH_QUALIFIERS };
+  const text: string[] = [];
+
+  tokenizeSearchQuery(query).forEach(({ key, value, raw }) => {
+    if (key !== null && isQualifierKey(key)) {
+      qualifiers[key] = value;
+    } else {
+      text.push(raw);
+    }
+  });
+
+  qualifiers.text = text.join(" ");
+  return qualifiers;
+}
+
+export function buildRepositorySearchQuery(
+  qualifiers: RepositorySearchQualifiers
+): string {
+  const parts = [qualifiers.text.trim()];
+  QUALIFIERS.forEach((key) => {
+    // Untrimmed, so a builder field can be typed into space by space
+    const value = qualifiers[key];
+    if (value.trim()) {
+      parts.push(`${key}:${quoteQualifierValue(value)}`);
+    }
+  });
+  return parts.filter(Boolean).join(" ");
+}
+
+// Returns the first problem with the query, or null when GitHub will accept it
+export function validateRepositorySearchQuery(query: string): string | null {
+  const trimmed = query.trim();
+  if (!trimmed) return "Enter a search term or qualifier";
+  const shapeError = validateQueryShape(trimmed);
+  if (shapeError) return shapeError;
+
+  for (const { key, value } of tokenizeSearchQuery(trimmed)) {
+    if (key === null) continue;
+    if (!isQualifierKey(key) && !OTHER_QUALIFIERS.includes(key)) {
+      return `Unknown qualifier "${key}:"`;
+    }
+    if (!value) {
+      return `Add a value after "${key}:"`;
+    }
+    if (key === "stars" && !isNumberRange(value)) {
+      return numberRangeError(key);
+    }
+    if (key === "pushed" && !isDateRange(value)) {
+      return dateRangeError(key);
+    }
+  }
+
+  return null;
+}
+
+export function hasRepositoryQualifiers(query: string): boolean {
+  return tokenizeSearchQuery(query).some(
+    ({ key }) => key !== null && isQualifierKey(key)
+  );
+}
+
+export const REPOSITORY_SEARCH_SORTS = [
+  "stars",
+  "forks",
+  "help-wanted-issues",
+  "updated",
+] as const;
+export type RepositorySearchSorting = SearchSorting<
+  (typeof REPOSITORY_SEARCH_SORTS)[number]
+>;
+
+export const DEFAULT_REPOSITORY_SEARCH_SORTING: RepositorySearchSorting =
+  BEST_MATCH;
+
+// Reads ?sort=&order=
+export const parseRepositorySearchSorting = (params: URLSearchParams) =>
+  parseSearchSorting(params, REPOSITORY_SEARCH_SORTS);
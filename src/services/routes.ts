@@ -0,0 +1,103 @@
+import {
+  DEFAULT_REPOSITORY_FILTERS,
+  RepositoryFilters,
+  serializeRepositoryFilters,
+} from "./repositoryFilters";
+import { COMPARED_USERS_PARAM, normalizeComparedUsers } from "./userComparison";
+import {
+  DEFAULT_SEARCH_PAGING,
+  SearchPaging,
+  serializeSearchPaging,
+} from "./searchPaging";
+import {
+  BEST_MATCH,
+  SearchSorting,
+  serializeSearchSorting,
+} from "./searchQuery";
+
+// Path builders for the app's routes, so links and navigate() calls agree on
+// the URL layout:
+//
+//   /search?q=…&page=…&sort=…     user search
+//   /search/repositories?q=…      repository search, with the same parameters
+//   /users/:login                 user profile and repositories
+//   /users/:login/repos?lang=…    the same page, linked with repository filters
+//   /users/:login/starred         repositories the user has starred
+//   /users/:login/gists           the user's public gists
+//   /users/:login/followers?page= followers and the user's network graph
+//   /users/:login/following       the same for the users they follow
+//   /orgs/:login[/repos]          organization profile, members and repositories
+//   /repos/:owner/:repo           repository details
+//   /compare?users=a,b            side-by-side comparison of two to four users
+
+const searchResultsPath = (
+  base: string,
+  query: string,
+  paging: SearchPaging,
+  sorting: SearchSorting
+) => {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return base;
+  }
+  const params = serializeSearchSorting(
+    sorting,
+    serializeSearchPaging(paging, new URLSearchParams({ q: trimmed }))
+  );
+  return `${base}?${params.toString()}`;
+};
+
+export const searchPath = (
+  query: string = "",
+  paging: SearchPaging = DEFAULT_SEARCH_PAGING,
+  sorting: SearchSorting = BEST_MATCH
+) => searchResultsPath("/search", query, paging, sorting);
+
+export const repositorySearchPath = (
+  query: string = "",
+  paging: SearchPaging = DEFAULT_SEARCH_PAGING,
+  sorting: SearchSorting = BEST_MATCH
+) => searchResultsPath("/search/repositories", query, paging, sorting);
+
+export const userPath = (login: string) =>
+  `/users/${encodeURIComponent(login)}`;
+
+export const userRepositoriesPath = (
+  login: string,
+  filters: Partial<RepositoryFilters> = {}
+) => {
+  const params = serializeRepositoryFilters({
+    ...DEFAULT_REPOSITORY_FILTERS,
+    ...filters,
+  }).toString();
+  return `${userPath(login)}/repos${params ? `?${params}` : ""}`;
+};
+
+export const userStarredPath = (login: string) => `${userPath(login)}/starred`;
+
+export const userGistsPath = (login: string) => `${userPath(login)}/gists`;
+
+export type NetworkDirection = "followers" | "following";
+
+export const userNetworkPath = (
+  login: string,
+  direction: NetworkDirection,
+  page: number = 1
+) => `${userPath(login)}/${direction}${page > 1 ? `?page=${page}` : ""}`;
+
+export const orgPath = (login: string) => `/orgs/${encodeURIComponent(login)}`;
+
+// Search results and repository owners can be either kind of account
+export const accountPath = (account: { login: string; type: string }) =>
+  account.type === "Organization"
+    ? orgPath(account.login)
+    : userPath(account.login);
+
+export const repositoryPath = (owner: string, repo: string) =>
+  `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+// Logins can't contain commas, so the list stays readable unescaped
+export const comparePath = (logins: string[]) =>
+  `/compare?${COMPARED_USERS_PARAM}=${normalizeComparedUsers(logins)
+    .map(encodeURIComponent)
+    .join(",")}`;
@@ -0,0 +1,60 @@
+// The search API stops serving results after the first 1,000 matches, however
+// large total_count is
+export const SEARCH_RESULT_LIMIT = 1000;
+
+export const SEARCH_PAGE_SIZES = [5, 10, 30, 50, 100] as const;
+export const DEFAULT_SEARCH_PAGE_SIZE = 5;
+
+export interface SearchPaging {
+  page: number;
+  perPage: number;
+}
+
+export const DEFAULT_SEARCH_PAGING: SearchPaging = {
+  page: 1,
+  perPage: DEFAULT_SEARCH_PAGE_SIZE,
+};
+
+// Pages that can actually be requested for a search with `totalCount` matches
+export function getSearchPageCount(
+  totalCount: number,
+  perPage: number
+): number {
+  return Math.ceil(Math.min(totalCount, SEARCH_RESULT_LIMIT) / perPage);
+}
+
+// Reads ?page=&per_page=, ignoring anything GitHub would reject
+export function parseSearchPaging(params: URLSearchParams): SearchPaging {
+  const perPage = Number(params.get("per_page"));
+  const page = Number(params.get("page"));
+  const validPerPage = (SEARCH_PAGE_SIZES as readonly number[]).includes(
+    perPage
+  )
+    ? perPage
+    : DEFAULT_SEARCH_PAGE_SIZE;
+  const lastPage = getSearchPageCount(SEARCH_RESULT_LIMIT, validPerPage);
+
+  return {
+    page: Number.isInteger(page) && page >= 1 ? Math.min(page, lastPage) : 1,
+    perPage: validPerPage,
+  };
+}
+
+// Writes paging into `params`, leaving defaults out of the URL
+export function serializeSearchPaging(
+  paging: SearchPaging,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  if (paging.perPage !== DEFAULT_SEARCH_PAGE_SIZE) {
+    next.set("per_page", String(paging.perPage));
+  } else {
+    next.delete("per_page");
+  }
+  if (paging.page > 1) {
+    next.set("page", String(paging.page));
+  } else {
+    next.delete("page");
+  }
+  return next;
+}
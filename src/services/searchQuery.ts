@@ -0,0 +1,130 @@
+// Pieces shared by the user and repository search builders: tokenizing a q=
+// string, GitHub's range syntax and sort/order URL state
+
+// GitHub rejects longer queries
+export const MAX_SEARCH_QUERY_LENGTH = 256;
+
+export interface SearchToken {
+  // null for plain search terms
+  key: string | null;
+  value: string;
+  raw: string;
+}
+
+// Splits on whitespace outside double quotes; `key:value` tokens become
+// qualifiers and quotes around their values are dropped
+export function tokenizeSearchQuery(query: string): SearchToken[] {
+  const tokens = query.match(/(?:[^\s"]+|"[^"]*"?)+/g) ?? [];
+  return tokens.map((raw) => {
+    const match = raw.match(/^([a-z][a-z-]*):(.*)$/i);
+    if (!match) {
+      return { key: null, value: raw, raw };
+    }
+    return {
+      key: match[1].toLowerCase(),
+      value: match[2].replace(/^"(.*)"$/, "$1"),
+      raw,
+    };
+  });
+}
+
+export const quoteQualifierValue = (value: string) =>
+  /\s/.test(value) ? `"${value}"` : value;
+
+// Problems every query can have regardless of which qualifiers it uses
+export function validateQueryShape(query: string): string | null {
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return `Search must be ${MAX_SEARCH_QUERY_LENGTH} characters or less`;
+  }
+  if ((query.match(/"/g) ?? []).length % 2 !== 0) {
+    return "Close the quote in your search";
+  }
+  return null;
+}
+
+const NUMBER_RANGE = /^(?:[<>]=?)?\d+$|^(?:\d+\.\.(?:\d+|\*)|\*\.\.\d+)$/;
+const DATE = String.raw`\d{4}-\d{2}-\d{2}`;
+const DATE_RANGE = new RegExp(
+  `^(?:[<>]=?)?${DATE}$|^(?:${DATE}\\.\\.(?:${DATE}|\\*)|\\*\\.\\.${DATE})$`
+);
+
+// ">100", ">=10", "10..50", "10..*"
+export const isNumberRange = (value: string) => NUMBER_RANGE.test(value);
+
+// ">2020-01-01", "2019-01-01..2020-12-31"
+export const isDateRange = (value: string) => DATE_RANGE.test(value);
+
+export const numberRangeError = (key: string) =>
+  `${key}: expects a number or range like >100 or 10..50`;
+
+export const dateRangeError = (key: string) =>
+  `${key}: expects a date or range like >2020-01-01 or 2019-01-01..2020-12-31`;
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+// "2019-01-01..2020-12-31" -> { from: "2019-01-01", to: "2020-12-31" };
+// open-ended comparisons fill one side
+export function parseDateRange(value: string): DateRange {
+  const range = value.match(/^([^.]*)\.\.(.*)$/);
+  if (range) {
+    return {
+      from: range[1] === "*" ? "" : range[1],
+      to: range[2] === "*" ? "" : range[2],
+    };
+  }
+  const comparison = value.match(/^([<>])=?(.*)$/);
+  if (comparison) {
+    return comparison[1] === ">"
+      ? { from: comparison[2], to: "" }
+      : { from: "", to: comparison[2] };
+  }
+  return { from: value, to: value };
+}
+
+export function formatDateRange({ from, to }: DateRange): string {
+  if (from && to) return from === to ? from : `${from}..${to}`;
+  if (from) return `>=${from}`;
+  if (to) return `<=${to}`;
+  return "";
+}
+
+// Result ordering; an empty sort is GitHub's best match
+export type SearchOrder = "desc" | "asc";
+
+export interface SearchSorting<Sort extends string = string> {
+  sort: Sort | "";
+  order: SearchOrder;
+}
+
+export const BEST_MATCH: SearchSorting<never> = { sort: "", order: "desc" };
+
+// Reads ?sort=&order=, accepting only the sorts the endpoint supports
+export function parseSearchSorting<Sort extends string>(
+  params: URLSearchParams,
+  sorts: readonly Sort[]
+): SearchSorting<Sort> {
+  const sort = params.get("sort") as Sort;
+  if (!sorts.includes(sort)) {
+    return BEST_MATCH;
+  }
+  return { sort, order: params.get("order") === "asc" ? "asc" : "desc" };
+}
+
+// Writes sorting into `params`, leaving best match out of the URL
+export function serializeSearchSorting(
+  sorting: SearchSorting,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  if (sorting.sort) {
+    next.set("sort", sorting.sort);
+    next.set("order", sorting.order);
+  } else {
+    next.delete("sort");
+    next.delete("order");
+  }
+  return next;
+}
@@ -0,0 +1,45 @@
+import { GitHubRepository } from "../types/github";
+import {
+  countPrimaryLanguages,
+  LanguageShare,
+  toLanguageShares,
+} from "./languageStats";
+
+export interface TopicCount {
+  name: string;
+  count: number;
+}
+
+export interface StarredSummary {
+  // By number of starred repositories
+  topLanguages: LanguageShare[];
+  topTopics: TopicCount[];
+}
+
+// Topic -> number of repositories tagged with it, most common first
+export function countTopics(repositories: GitHubRepository[]): TopicCount[] {
+  const counts: Record<string, number> = {};
+  repositories.forEach(({ topics = [] }) => {
+    topics.forEach((topic) => {
+      counts[topic] = (counts[topic] ?? 0) + 1;
+    });
+  });
+  return Object.entries(counts)
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Unlike the owned repositories' summaries, forks count here: starring one is
+// as deliberate as starring the original
+export function summarizeStarred(
+  repositories: GitHubRepository[],
+  limit: number = 5
+): StarredSummary {
+  return {
+    topLanguages: toLanguageShares(countPrimaryLanguages(repositories)).slice(
+      0,
+      limit
+    ),
+    topTopics: countTopics(repositories).slice(0, limit),
+  };
+}
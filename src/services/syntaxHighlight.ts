@@ -0,0 +1,523 @@
+// A deliberately small highlighter for gist files: comments, strings, numbers
+// and keywords for the languages gists are most often written in. Anything it
+// doesn't know comes back as a single plain token.
+
+export type TokenType = "keyword" | "string" | "comment" | "number" | "plain";
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageSyntax {
+  lineComments?: string[];
+  blockComment?: [string, string];
+  // Backticks may span lines; other quotes stop at the end of the line
+  quotes: string[];
+  keywords: string[];
+  caseInsensitive?: boolean;
+}
+
+const JS_KEYWORDS = [
+  "as",
+  "async",
+  "await",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "from",
+  "function",
+  "if",
+  "implements",
+  "import",
+  "in",
+  "instanceof",
+  "interface",
+  "let",
+  "new",
+  "null",
+  "of",
+  "private",
+  "protected",
+  "public",
+  "readonly",
+  "return",
+  "static",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "type",
+  "typeof",
+  "undefined",
+  "var",
+  "void",
+  "while",
+  "yield",
+];
+
+const C_KEYWORDS = [
+  "abstract",
+  "bool",
+  "boolean",
+  "break",
+  "case",
+  "catch",
+  "char",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "do",
+  "double",
+  "else",
+  "enum",
+  "extends",
+  "false",
+  "final",
+  "finally",
+  "float",
+  "for",
+  "fun",
+  "func",
+  "if",
+  "implements",
+  "import",
+  "int",
+  "interface",
+  "let",
+  "long",
+  "namespace",
+  "new",
+  "null",
+  "nullptr",
+  "package",
+  "private",
+  "protected",
+  "public",
+  "return",
+  "short",
+  "static",
+  "struct",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "throws",
+  "true",
+  "try",
+  "typedef",
+  "unsigned",
+  "using",
+  "val",
+  "var",
+  "void",
+  "while",
+];
+
+const C_LIKE: Omit<LanguageSyntax, "keywords"> = {
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+  quotes: ['"', "'"],
+};
+
+const SYNTAXES: Record<string, LanguageSyntax> = {
+  JavaScript: {
+    ...C_LIKE,
+    quotes: ['"', "'", "`"],
+    keywords: JS_KEYWORDS,
+  },
+  Go: {
+    ...C_LIKE,
+    quotes: ['"', "'", "`"],
+    keywords: [
+      "break",
+      "case",
+      "chan",
+      "const",
+      "continue",
+      "default",
+      "defer",
+      "else",
+      "false",
+      "fallthrough",
+      "for",
+      "func",
+      "go",
+      "goto",
+      "if",
+      "import",
+      "interface",
+      "map",
+      "nil",
+      "package",
+      "range",
+      "return",
+      "select",
+      "struct",
+      "switch",
+      "true",
+      "type",
+      "var",
+    ],
+  },
+  Rust: {
+    ...C_LIKE,
+    quotes: ['"'],
+    keywords: [
+      "as",
+      "async",
+      "await",
+      "break",
+      "const",
+      "continue",
+      "crate",
+      "else",
+      "enum",
+      "false",
+      "fn",
+      "for",
+      "if",
+      "impl",
+      "in",
+      "let",
+      "loop",
+      "match",
+      "mod",
+      "move",
+      "mut",
+      "pub",
+      "ref",
+      "return",
+      "self",
+      "Self",
+      "static",
+      "struct",
+      "super",
+      "trait",
+      "true",
+      "type",
+      "unsafe",
+      "use",
+      "where",
+      "while",
+    ],
+  },
+  C: { ...C_LIKE, keywords: C_KEYWORDS },
+  PHP: {
+    ...C_LIKE,
+    lineComments: ["//", "#"],
+    keywords: [...C_KEYWORDS, "echo", "elseif", "foreach", "function"],
+  },
+  Python: {
+    lineComments: ["#"],
+    quotes: ['"', "'"],
+    keywords: [
+      "False",
+      "None",
+      "True",
+      "and",
+      "as",
+      "assert",
+      "async",
+      "await",
+      "break",
+      "class",
+      "continue",
+      "def",
+      "del",
+      "elif",
+      "else",
+      "except",
+      "finally",
+      "for",
+      "from",
+      "global",
+      "if",
+      "import",
+      "in",
+      "is",
+      "lambda",
+      "nonlocal",
+      "not",
+      "or",
+      "pass",
+      "raise",
+      "return",
+      "self",
+      "try",
+      "while",
+      "with",
+      "yield",
+    ],
+  },
+  Ruby: {
+    lineComments: ["#"],
+    quotes: ['"', "'"],
+    keywords: [
+      "begin",
+      "break",
+      "case",
+      "class",
+      "def",
+      "do",
+      "else",
+      "elsif",
+      "end",
+      "ensure",
+      "false",
+      "for",
+      "if",
+      "in",
+      "module",
+      "next",
+      "nil",
+      "require",
+      "rescue",
+      "return",
+      "self",
+      "super",
+      "then",
+      "true",
+      "unless",
+      "until",
+      "when",
+      "while",
+      "yield",
+    ],
+  },
+  Shell: {
+    lineComments: ["#"],
+    quotes: ['"', "'"],
+    keywords: [
+      "case",
+      "do",
+      "done",
+      "elif",
+      "else",
+      "esac",
+      "exit",
+      "export",
+      "fi",
+      "for",
+      "function",
+      "if",
+      "in",
+      "local",
+      "return",
+      "then",
+      "until",
+      "while",
+    ],
+  },
+  SQL: {
+    lineComments: ["--"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'"],
+    caseInsensitive: true,
+    keywords: [
+      "all",
+      "alter",
+      "and",
+      "as",
+      "by",
+      "create",
+      "delete",
+      "distinct",
+      "drop",
+      "from",
+      "group",
+      "having",
+      "in",
+      "insert",
+      "into",
+      "is",
+      "join",
+      "key",
+      "left",
+      "limit",
+      "not",
+      "null",
+      "on",
+      "or",
+      "order",
+      "primary",
+      "right",
+      "select",
+      "set",
+      "table",
+      "union",
+      "update",
+      "values",
+      "where",
+    ],
+  },
+  Lua: {
+    lineComments: ["--"],
+    quotes: ['"', "'"],
+    keywords: [
+      "and",
+      "break",
+      "do",
+      "else",
+      "elseif",
+      "end",
+      "false",
+      "for",
+      "function",
+      "if",
+      "in",
+      "local",
+      "nil",
+      "not",
+      "or",
+      "repeat",
+      "return",
+      "then",
+      "true",
+      "until",
+      "while",
+    ],
+  },
+  CSS: { blockComment: ["/*", "*/"], quotes: ['"', "'"], keywords: [] },
+  JSON: { quotes: ['"'], keywords: ["true", "false", "null"] },
+  YAML: {
+    lineComments: ["#"],
+    quotes: ['"', "'"],
+    keywords: ["true", "false", "null"],
+  },
+};
+
+// GitHub's language names for dialects that share a syntax
+const ALIASES: Record<string, string> = {
+  TypeScript: "JavaScript",
+  TSX: "JavaScript",
+  JSX: "JavaScript",
+  "C++": "C",
+  "C#": "C",
+  "Objective-C": "C",
+  Java: "C",
+  Kotlin: "C",
+  Scala: "C",
+  Swift: "C",
+  Dart: "C",
+  Bash: "Shell",
+  Zsh: "Shell",
+  Dockerfile: "Shell",
+  TOML: "YAML",
+  SCSS: "CSS",
+  Less: "CSS",
+  PLpgSQL: "SQL",
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const quotedString = (quote: string) => {
+  const q = escapeRegExp(quote);
+  const lineEnd = quote === "`" ? "" : "\\n";
+  return `${q}(?:\\\\[\\s\\S]|[^\\\\${lineEnd}${q}])*${q}?`;
+};
+
+export function getSyntax(language: string | null): LanguageSyntax | null {
+  if (!language) {
+    return null;
+  }
+  return SYNTAXES[ALIASES[language] ?? language] ?? null;
+}
+
+// Compiled once per syntax; named groups say which rule matched
+const patterns = new Map<LanguageSyntax, RegExp>();
+
+function getPattern(syntax: LanguageSyntax): RegExp {
+  let pattern = patterns.get(syntax);
+  if (!pattern) {
+    const comments = [
+      ...(syntax.blockComment
+        ? [
+            `${escapeRegExp(syntax.blockComment[0])}[\\s\\S]*?(?:${escapeRegExp(
+              syntax.blockComment[1]
+            )}|$)`,
+          ]
+        : []),
+      ...(syntax.lineComments ?? []).map(
+        (marker) => `${escapeRegExp(marker)}.*`
+      ),
+    ];
+    const rules = [
+      comments.length > 0 && `(?<comment>${comments.join("|")})`,
+      syntax.quotes.length > 0 &&
+        `(?<string>${syntax.quotes.map(quotedString).join("|")})`,
+      "(?<number>\\b(?:0[xX][0-9a-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b)",
+      "(?<word>[A-Za-z_$][\\w$]*)",
+    ].filter(Boolean);
+    pattern = new RegExp(rules.join("|"), "g");
+    patterns.set(syntax, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+export function highlightCode(code: string, language: string | null): Token[] {
+  const syntax = getSyntax(language);
+  if (!syntax) {
+    return code ? [{ type: "plain", text: code }] : [];
+  }
+
+  const keywords = new Set(syntax.keywords);
+  const isKeyword = (word: string) =>
+    keywords.has(syntax.caseInsensitive ? word.toLowerCase() : word);
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type && type === "plain") {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  const pattern = getPattern(syntax);
+  let index = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code)) !== null) {
+    if (match[0] === "") {
+      pattern.lastIndex += 1;
+      continue;
+    }
+    if (match.index > index) {
+      push("plain", code.slice(index, match.index));
+    }
+    const groups = match.groups ?? {};
+    if (groups.comment !== undefined) {
+      push("comment", match[0]);
+    } else if (groups.string !== undefined) {
+      push("string", match[0]);
+    } else if (groups.number !== undefined) {
+      push("number", match[0]);
+    } else {
+      push(isKeyword(match[0]) ? "keyword" : "plain", match[0]);
+    }
+    index = match.index + match[0].length;
+  }
+  if (index < code.length) {
+    push("plain", code.slice(index));
+  }
+  return tokens;
+}
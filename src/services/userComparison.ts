@@ -0,0 +1,66 @@
+import { GitHubRepository } from "../types/github";
+import {
+  countPrimaryLanguages,
+  LanguageShare,
+  toLanguageShares,
+} from "./languageStats";
+
+// The compare view lines up two to four users; the logins live in the URL as
+// ?users=octocat,defunkt so a comparison can be shared
+export const MIN_COMPARED_USERS = 2;
+export const MAX_COMPARED_USERS = 4;
+
+export const COMPARED_USERS_PARAM = "users";
+
+// Drops blanks and case-insensitive duplicates, keeping the first spelling,
+// and ignores anything past the fourth login
+export function normalizeComparedUsers(logins: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  logins.forEach((login) => {
+    const trimmed = login.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key) && result.length < MAX_COMPARED_USERS) {
+      seen.add(key);
+      result.push(trimmed);
+    }
+  });
+  return result;
+}
+
+export function parseComparedUsers(params: URLSearchParams): string[] {
+  return normalizeComparedUsers(
+    (params.get(COMPARED_USERS_PARAM) ?? "").split(",")
+  );
+}
+
+export interface RepositorySummary {
+  totalStars: number;
+  // By number of repositories, forks excluded
+  topLanguages: LanguageShare[];
+  mostStarred: GitHubRepository[];
+}
+
+// Forks count towards neither languages nor stars, since they mostly carry
+// someone else's work
+export function summarizeRepositories(
+  repositories: GitHubRepository[],
+  limit: number = 3
+): RepositorySummary {
+  const sources = repositories.filter((repo) => !repo.fork);
+
+  return {
+    totalStars: sources.reduce((sum, repo) => sum + repo.stargazers_count, 0),
+    topLanguages: toLanguageShares(countPrimaryLanguages(sources)).slice(
+      0,
+      limit
+    ),
+    mostStarred: [...sources]
+      .sort(
+        (a, b) =>
+          b.stargazers_count - a.stargazers_count ||
+          a.name.localeCompare(b.name)
+      )
+      .slice(0, limit),
+  };
+}
@@ -0,0 +1,120 @@
+import { GitHubUser } from "../types/github";
+import { layoutForceGraph, Point } from "./forceLayout";
+
+export type NetworkRelation = "follower" | "following" | "mutual";
+
+// Beyond this many connections the graph turns into a hairball
+export const MAX_GRAPH_CONNECTIONS = 30;
+
+// Mutual follows sit closer to the user than one-way ones
+const LINK_DISTANCES: Record<NetworkRelation, number> = {
+  mutual: 70,
+  follower: 120,
+  following: 120,
+};
+
+const loginKey = (login: string) => login.toLowerCase();
+
+// Lowercased logins of the users who are in both lists
+export function findMutualFollows(
+  followers: GitHubUser[],
+  following: GitHubUser[]
+): Set<string> {
+  const followed = new Set(following.map((user) => loginKey(user.login)));
+  return new Set(
+    followers
+      .map((user) => loginKey(user.login))
+      .filter((login) => followed.has(login))
+  );
+}
+
+export interface NetworkGraphNode {
+  user: GitHubUser;
+  // null for the user the network belongs to
+  relation: NetworkRelation | null;
+  position: Point;
+}
+
+export interface NetworkGraph {
+  nodes: NetworkGraphNode[];
+  // Every connection links back to the centre, the only edges a 1-hop
+  // network knows about
+  links: { source: NetworkGraphNode; target: NetworkGraphNode }[];
+  // Connections left out by the cap
+  omitted: number;
+}
+
+// Mutual follows come first, then one-way followers and followed users take
+// turns, each in the order GitHub listed them
+function pickConnections(
+  followers: GitHubUser[],
+  following: GitHubUser[],
+  limit: number
+): { user: GitHubUser; relation: NetworkRelation }[] {
+  const mutual = findMutualFollows(followers, following);
+  const isMutual = (user: GitHubUser) => mutual.has(loginKey(user.login));
+
+  const picked: { user: GitHubUser; relation: NetworkRelation }[] = following
+    .filter(isMutual)
+    .map((user) => ({ user, relation: "mutual" as const }));
+  const followersOnly = followers.filter((user) => !isMutual(user));
+  const followingOnly = following.filter((user) => !isMutual(user));
+  for (
+    let i = 0;
+    i < Math.max(followersOnly.length, followingOnly.length);
+    i++
+  ) {
+    if (i < followersOnly.length) {
+      picked.push({ user: followersOnly[i], relation: "follower" });
+    }
+    if (i < followingOnly.length) {
+      picked.push({ user: followingOnly[i], relation: "following" });
+    }
+  }
+  return picked.slice(0, limit);
+}
+
+export function buildNetworkGraph(
+  center: GitHubUser,
+  followers: GitHubUser[],
+  following: GitHubUser[],
+  limit: number = MAX_GRAPH_CONNECTIONS
+): NetworkGraph {
+  const connections = pickConnections(followers, following, limit);
+  const centerKey = loginKey(center.login);
+  const positions = layoutForceGraph(
+    [
+      { id: centerKey, fixed: true },
+      ...connections.map(({ user }) => ({ id: loginKey(user.login) })),
+    ],
+    connections.map(({ user, relation }) => ({
+      source: centerKey,
+      target: loginKey(user.login),
+      distance: LINK_DISTANCES[relation],
+    }))
+  );
+
+  const centerNode: NetworkGraphNode = {
+    user: center,
+    relation: null,
+    position: positions[centerKey],
+  };
+  const connectionNodes = connections.map(({ user, relation }) => ({
+    user,
+    relation,
+    position: positions[loginKey(user.login)],
+  }));
+  const totalConnections =
+    followers.length +
+    following.length -
+    findMutualFollows(followers, following).size;
+
+  return {
+    nodes: [centerNode, ...connectionNodes],
+    links: connectionNodes.map((node) => ({
+      source: centerNode,
+      target: node,
+    })),
+    omitted: totalConnections - connectionNodes.length,
+  };
+}
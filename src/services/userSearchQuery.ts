@@ -0,0 +1,183 @@
+import {
+  BEST_MATCH,
+  dateRangeError,
+  isDateRange,
+  isNumberRange,
+  numberRangeError,
+  parseSearchSorting,
+  quoteQualifierValue,
+  SearchSorting,
+  tokenizeSearchQuery,
+  validateQueryShape,
+} from "./searchQuery";
+
+// Builds, parses and validates the q= string of GitHub's user search, e.g.
+// `tom type:user location:"San Francisco" followers:>100 in:login,name`
+
+export type UserSearchType = "" | "user" | "org";
+export type UserSearchField = "login" | "name" | "email";
+
+export interface UserSearchQualifiers {
+  // Search terms that aren't qualifiers
+  text: string;
+  type: UserSearchType;
+  location: string;
+  language: string;
+  // Numbers or ranges: ">100", ">=10", "10..50"
+  followers: string;
+  repos: string;
+  // Dates or ranges: ">2020-01-01", "2019-01-01..2020-12-31"
+  created: string;
+  in: UserSearchField[];
+}
+
+export const EMPTY_USER_SEARCH_QUALIFIERS: UserSearchQualifiers = {
+  text: "",
+  type: "",
+  location: "",
+  language: "",
+  followers: "",
+  repos: "",
+  created: "",
+  in: [],
+};
+
+// The order qualifiers are written back in
+const QUALIFIERS = [
+  "type",
+  "in",
+  "location",
+  "language",
+  "repos",
+  "followers",
+  "created",
+] as const;
+type QualifierKey = (typeof QUALIFIERS)[number];
+
+// Other user qualifiers GitHub understands; passed through as typed
+const OTHER_QUALIFIERS = ["user", "org", "fullname", "is"];
+
+export const USER_SEARCH_FIELDS: UserSearchField[] = ["login", "name", "email"];
+
+const MAX_USERNAME_LENGTH = 39;
+
+const isQualifierKey = (key: string): key is QualifierKey =>
+  (QUALIFIERS as readonly string[]).includes(key);
+
+export function parseUserSearchQuery(query: string): UserSearchQualifiers {
+  const qualifiers: UserSearchQualifiers = {
+    ...EMPTY_USER_SEARCH_QUALIFIERS,
+    in: [],
+  };
+  const text: string[] = [];
+
+  tokenizeSearchQuery(query).forEach(({ key, value, raw }) => {
+    if (key === null || !isQualifierKey(key)) {
+      // Unknown qualifiers stay in the text so nothing typed is lost
+      text.push(raw);
+    } else if (key === "in") {
+      qualifiers.in = value
+        .split(",")
+        .filter((field): field is UserSearchField =>
+          (USER_SEARCH_FIELDS as string[]).includes(field)
+        );
+    } else if (key === "type") {
+      qualifiers.type = value === "user" || value === "org" ? value : "";
+    } else {
+      qualifiers[key] = value;
+    }
+  });
+
+  qualifiers.text = text.join(" ");
+  return qualifiers;
+}
+
+export function buildUserSearchQuery(qualifiers: UserSearchQualifiers): string {
+  const parts = [qualifiers.text.trim()];
+  QUALIFIERS.forEach((key) => {
+    if (key === "in") {
+      if (qualifiers.in.length > 0) {
+        parts.push(`in:${qualifiers.in.join(",")}`);
+      }
+      return;
+    }
+    // Untrimmed, so a builder field can be typed into space by space
+    const value = qualifiers[key];
+    if (value.trim()) {
+      parts.push(`${key}:${quoteQualifierValue(value)}`);
+    }
+  });
+  return parts.filter(Boolean).join(" ");
+}
+
+// Returns the first problem with the query, or null when GitHub will accept it
+export function validateUserSearchQuery(query: string): string | null {
+  const trimmed = query.trim();
+  if (!trimmed) return "Username is required";
+  const shapeError = validateQueryShape(trimmed);
+  if (shapeError) return shapeError;
+
+  const tokens = tokenizeSearchQuery(trimmed);
+  for (const { key, value } of tokens) {
+    if (key === null) continue;
+    if (!isQualifierKey(key) && !OTHER_QUALIFIERS.includes(key)) {
+      return `Unknown qualifier "${key}:"`;
+    }
+    if (!value) {
+      return `Add a value after "${key}:"`;
+    }
+    if (key === "type" && value !== "user" && value !== "org") {
+      return 'type: must be "user" or "org"';
+    }
+    if (
+      key === "in" &&
+      !value
+        .split(",")
+        .every((field) => (USER_SEARCH_FIELDS as string[]).includes(field))
+    ) {
+      return "in: accepts login, name or email";
+    }
+    if ((key === "followers" || key === "repos") && !isNumberRange(value)) {
+      return numberRangeError(key);
+    }
+    if (key === "created" && !isDateRange(value)) {
+      return dateRangeError(key);
+    }
+  }
+
+  // Bare terms are matched against logins unless in: says otherwise
+  const { in: fields } = parseUserSearchQuery(trimmed);
+  const matchesLoginOnly =
+    fields.length === 0 || fields.every((field) => field === "login");
+  if (
+    matchesLoginOnly &&
+    tokens.some(
+      ({ key, value }) => key === null && value.length > MAX_USERNAME_LENGTH
+    )
+  ) {
+    return "Username must be less than 40 characters";
+  }
+
+  return null;
+}
+
+export function hasUserQualifiers(query: string): boolean {
+  return tokenizeSearchQuery(query).some(
+    ({ key }) => key !== null && isQualifierKey(key)
+  );
+}
+
+export const USER_SEARCH_SORTS = [
+  "followers",
+  "repositories",
+  "joined",
+] as const;
+export type UserSearchSorting = SearchSorting<
+  (typeof USER_SEARCH_SORTS)[number]
+>;
+
+export const DEFAULT_USER_SEARCH_SORTING: UserSearchSorting = BEST_MATCH;
+
+// Reads ?sort=&order=
+export const parseUserSearchSorting = (params: URLSearchParams) =>
+  parseSearchSorting(params, USER_SEARCH_SORTS);
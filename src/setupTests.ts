@@ -3,3 +3,6 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import "@testing-library/jest-dom";
+
+// jsdom doesn't implement scrolling; the virtualized repository grid calls it
+window.scrollTo = () => {};
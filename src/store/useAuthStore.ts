@@ -0,0 +1,30 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { GitHubUser } from "../types/github";
+
+interface AuthStore {
+  // State
+  token: string | null;
+  authenticatedUser: GitHubUser | null;
+
+  // Actions
+  signIn: (token: string, user: GitHubUser) => void;
+  signOut: () => void;
+}
+
+export const useAuthStore = create<AuthStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      token: null,
+      authenticatedUser: null,
+
+      // Actions
+      signIn: (token, user) => set({ token, authenticatedUser: user }),
+      signOut: () => set({ token: null, authenticatedUser: null }),
+    }),
+    {
+      name: "gh-repo-explorer-auth",
+    }
+  )
+);
@@ -0,0 +1,28 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  getBuildTimeHostConfig,
+  GitHubHostConfig,
+} from "../services/hostConfig";
+
+interface HostStore extends GitHubHostConfig {
+  // Actions
+  setHost: (config: GitHubHostConfig) => void;
+  resetHost: () => void;
+}
+
+export const useHostStore = create<HostStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      ...getBuildTimeHostConfig(),
+
+      // Actions
+      setHost: (config) => set(config),
+      resetHost: () => set(getBuildTimeHostConfig()),
+    }),
+    {
+      name: "gh-repo-explorer-host",
+    }
+  )
+);
@@ -0,0 +1,28 @@
+import { create } from "zustand";
+import { GitHubRateLimit } from "../types/github";
+
+interface RateLimitStore {
+  // State
+  quotas: Record<string, GitHubRateLimit>;
+  blockedUntil: Record<string, number>; // Epoch ms, from Retry-After
+
+  // Actions
+  updateQuota: (quota: GitHubRateLimit) => void;
+  blockResource: (resource: string, until: number) => void;
+  resetRateLimits: () => void;
+}
+
+export const useRateLimitStore = create<RateLimitStore>((set) => ({
+  // Initial state
+  quotas: {},
+  blockedUntil: {},
+
+  // Actions
+  updateQuota: (quota) =>
+    set((state) => ({ quotas: { ...state.quotas, [quota.resource]: quota } })),
+  blockResource: (resource, until) =>
+    set((state) => ({
+      blockedUntil: { ...state.blockedUntil, [resource]: until },
+    })),
+  resetRateLimits: () => set({ quotas: {}, blockedUntil: {} }),
+}));
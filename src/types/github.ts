@@ -13,24 +13,223 @@ export interface GitHubUser {
   updated_at?: string;
 }
 
-export interface GitHubEvent {
+// GET /orgs/{org}; is_verified means GitHub has verified the organization's
+// domain, but the public API doesn't say which one
+export interface GitHubOrganization {
+  id: number;
+  login: string;
+  avatar_url: string;
+  html_url: string;
+  type: "Organization";
+  name: string | null;
+  description: string | null;
+  blog: string | null;
+  location: string | null;
+  email: string | null;
+  is_verified?: boolean;
+  public_repos: number;
+  followers: number;
+  created_at: string;
+}
+
+// Public events (GET /users/{username}/events/public), one member per event
+// type so `type` narrows `payload`. Payloads only list the fields the app
+// reads; see https://docs.github.com/en/rest/using-the-rest-api/github-event-types
+
+interface GitHubEventBase<Type extends string, Payload> {
   id: string;
-  type: string;
+  type: Type;
   created_at: string;
+  // "owner/name"; url is the API URL
   repo?: {
     id: number;
     name: string;
     url: string;
   };
-  payload: any;
+  payload: Payload;
+}
+
+export interface GitHubEventIssue {
+  number: number;
+  title: string;
+  html_url: string;
+  // Present when the issue is a pull request
+  pull_request?: { html_url: string };
+}
+
+export interface GitHubEventPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  merged?: boolean;
+}
+
+export interface GitHubEventComment {
+  html_url: string;
+  body: string;
+}
+
+export interface GitHubEventCommit {
+  sha: string;
+  message: string;
+  author: { name: string; email: string };
+  distinct: boolean;
 }
 
+export type GitHubCommitCommentEvent = GitHubEventBase<
+  "CommitCommentEvent",
+  { comment: GitHubEventComment & { commit_id: string } }
+>;
+
+export type GitHubCreateEvent = GitHubEventBase<
+  "CreateEvent",
+  {
+    // null when a repository was created
+    ref: string | null;
+    ref_type: "repository" | "branch" | "tag";
+  }
+>;
+
+export type GitHubDeleteEvent = GitHubEventBase<
+  "DeleteEvent",
+  { ref: string; ref_type: "branch" | "tag" }
+>;
+
+export type GitHubForkEvent = GitHubEventBase<
+  "ForkEvent",
+  { forkee: { full_name: string; html_url: string } }
+>;
+
+export type GitHubGollumEvent = GitHubEventBase<
+  "GollumEvent",
+  {
+    pages: {
+      page_name: string;
+      title: string;
+      action: "created" | "edited";
+      html_url: string;
+    }[];
+  }
+>;
+
+export type GitHubIssueCommentEvent = GitHubEventBase<
+  "IssueCommentEvent",
+  { action: string; issue: GitHubEventIssue; comment: GitHubEventComment }
+>;
+
+export type GitHubIssuesEvent = GitHubEventBase<
+  "IssuesEvent",
+  { action: string; issue: GitHubEventIssue }
+>;
+
+export type GitHubMemberEvent = GitHubEventBase<
+  "MemberEvent",
+  { action: string; member: { login: string; html_url: string } }
+>;
+
+export type GitHubPublicEvent = GitHubEventBase<"PublicEvent", {}>;
+
+export type GitHubPullRequestEvent = GitHubEventBase<
+  "PullRequestEvent",
+  { action: string; number: number; pull_request: GitHubEventPullRequest }
+>;
+
+export type GitHubPullRequestReviewEvent = GitHubEventBase<
+  "PullRequestReviewEvent",
+  {
+    action: string;
+    review: {
+      state: "approved" | "changes_requested" | "commented" | "dismissed";
+      html_url: string;
+    };
+    pull_request: GitHubEventPullRequest;
+  }
+>;
+
+export type GitHubPullRequestReviewCommentEvent = GitHubEventBase<
+  "PullRequestReviewCommentEvent",
+  {
+    action: string;
+    comment: GitHubEventComment;
+    pull_request: GitHubEventPullRequest;
+  }
+>;
+
+export type GitHubPullRequestReviewThreadEvent = GitHubEventBase<
+  "PullRequestReviewThreadEvent",
+  { action: "resolved" | "unresolved"; pull_request: GitHubEventPullRequest }
+>;
+
+// GitHub has stopped sending commits (and their count) for some pushes, so
+// only the ref and head are guaranteed
+export type GitHubPushEvent = GitHubEventBase<
+  "PushEvent",
+  {
+    ref: string;
+    head: string;
+    before: string;
+    size?: number;
+    commits?: GitHubEventCommit[];
+  }
+>;
+
+export type GitHubReleaseEvent = GitHubEventBase<
+  "ReleaseEvent",
+  {
+    action: string;
+    release: {
+      tag_name: string;
+      name: string | null;
+      html_url: string;
+      prerelease: boolean;
+    };
+  }
+>;
+
+export type GitHubSponsorshipEvent = GitHubEventBase<
+  "SponsorshipEvent",
+  { action: string }
+>;
+
+// action is always "started"
+export type GitHubWatchEvent = GitHubEventBase<
+  "WatchEvent",
+  { action: string }
+>;
+
+export type GitHubEvent =
+  | GitHubCommitCommentEvent
+  | GitHubCreateEvent
+  | GitHubDeleteEvent
+  | GitHubForkEvent
+  | GitHubGollumEvent
+  | GitHubIssueCommentEvent
+  | GitHubIssuesEvent
+  | GitHubMemberEvent
+  | GitHubPublicEvent
+  | GitHubPullRequestEvent
+  | GitHubPullRequestReviewEvent
+  | GitHubPullRequestReviewCommentEvent
+  | GitHubPullRequestReviewThreadEvent
+  | GitHubPushEvent
+  | GitHubReleaseEvent
+  | GitHubSponsorshipEvent
+  | GitHubWatchEvent;
+
+export type GitHubEventType = GitHubEvent["type"];
+
 export interface GitHubContributionStats {
   totalCommits: number;
   totalPullRequests: number;
   totalIssues: number;
   totalRepositories: number;
   recentActivity: GitHubEvent[];
+  // "graphql" counts cover a full year; "events" counts only cover the
+  // public events feed, which starts at coverageStart
+  source: "graphql" | "events";
+  coverageStart: string | null;
+  // Only GraphQL provides a calendar; otherwise it is built from events
+  calendar: GitHubContributionCalendar | null;
 }
 
 export interface GitHubRepository {
@@ -47,6 +246,64 @@ export interface GitHubRepository {
   topics: string[];
   private: boolean;
   fork: boolean;
+  archived?: boolean;
+}
+
+export interface GitHubRepositoryDetails extends GitHubRepository {
+  owner: GitHubUser;
+  default_branch: string;
+  open_issues_count: number;
+  subscribers_count?: number;
+  homepage: string | null;
+  license: { key: string; name: string; spdx_id: string | null } | null;
+  created_at: string;
+  pushed_at: string;
+}
+
+// Language name -> bytes of code
+export type GitHubRepositoryLanguages = Record<string, number>;
+
+// Listings leave out `content`; GET /gists/{id} includes it, truncated (and
+// flagged) past 1 MB, in which case raw_url has the whole file
+export interface GitHubGistFile {
+  filename: string;
+  type: string;
+  language: string | null;
+  raw_url: string;
+  size: number;
+  content?: string;
+  truncated?: boolean;
+}
+
+export interface GitHubGist {
+  id: string;
+  html_url: string;
+  description: string | null;
+  public: boolean;
+  created_at: string;
+  updated_at: string;
+  comments: number;
+  files: Record<string, GitHubGistFile>;
+  owner?: GitHubUser;
+}
+
+export interface GitHubContributor {
+  id: number;
+  login: string;
+  avatar_url: string;
+  html_url: string;
+  type: string;
+  contributions: number;
+}
+
+export interface GitHubRelease {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  html_url: string;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
 }
 
 export interface GitHubSearchUsersResponse {
@@ -55,7 +312,104 @@ export interface GitHubSearchUsersResponse {
   items: GitHubUser[];
 }
 
+export interface GitHubSearchRepositoriesResponse {
+  total_count: number;
+  incomplete_results: boolean;
+  items: GitHubRepository[];
+}
+
 export interface GitHubApiError {
   message: string;
   documentation_url?: string;
 }
+
+export interface GitHubRateLimit {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  reset: number; // Unix epoch seconds
+}
+
+// GraphQL v4 shapes
+
+export interface GitHubGraphQLError {
+  message: string;
+  type?: string;
+  path?: (string | number)[];
+}
+
+export interface GitHubGraphQLResponse<T> {
+  data?: T;
+  errors?: GitHubGraphQLError[];
+}
+
+export interface GitHubGraphQLRepository {
+  databaseId: number;
+  name: string;
+  nameWithOwner: string;
+  description: string | null;
+  url: string;
+  stargazerCount: number;
+  forkCount: number;
+  isFork: boolean;
+  isPrivate: boolean;
+  isArchived: boolean;
+  updatedAt: string;
+  primaryLanguage: { name: string; color: string | null } | null;
+  repositoryTopics: { nodes: { topic: { name: string } }[] };
+}
+
+export interface GitHubContributionDay {
+  date: string; // YYYY-MM-DD
+  contributionCount: number;
+  color: string;
+  weekday: number; // 0 = Sunday
+}
+
+export interface GitHubContributionCalendar {
+  totalContributions: number;
+  weeks: { contributionDays: GitHubContributionDay[] }[];
+}
+
+export interface GitHubContributionsCollection {
+  startedAt: string;
+  endedAt: string;
+  totalCommitContributions: number;
+  totalPullRequestContributions: number;
+  totalIssueContributions: number;
+  totalPullRequestReviewContributions: number;
+  restrictedContributionsCount: number;
+  contributionCalendar: GitHubContributionCalendar;
+}
+
+export interface GitHubGraphQLUser {
+  databaseId: number;
+  login: string;
+  name: string | null;
+  avatarUrl: string;
+  url: string;
+  bio: string | null;
+  createdAt: string;
+  updatedAt: string;
+  followers: { totalCount: number };
+  following: { totalCount: number };
+  pinnedItems: { nodes: GitHubGraphQLRepository[] };
+  repositories: {
+    totalCount: number;
+    nodes: GitHubGraphQLRepository[];
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  };
+  contributionsCollection: GitHubContributionsCollection;
+}
+
+// One round trip's worth of profile data, from GraphQL when a token is
+// configured and from REST otherwise (where contributions aren't available)
+export interface GitHubUserOverview {
+  source: "graphql" | "rest";
+  user: GitHubUser;
+  pinnedRepositories: GitHubRepository[];
+  repositories: GitHubRepository[];
+  totalRepositories: number;
+  contributions: GitHubContributionsCollection | null;
+}